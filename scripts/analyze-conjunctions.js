@@ -13,6 +13,7 @@ require('ts-node').register({
 const SkydriftArchipelagoSimulator = require('../src/utils/sim').default;
 const ConjunctionAnalyzer = require('../src/utils/conjunctionAnalyzer').default;
 const { formatTime, parseTimeString, formatDuration } = require('../src/utils/timeFormat');
+const { parseWorldConfig } = require('../src/utils/worldConfig');
 const fs = require('fs');
 const path = require('path');
 const yargs = require('yargs/yargs');
@@ -212,6 +213,29 @@ function printPerIslandConjunctionStats(stats, islands) {
   console.log('Partners   = Number of unique islands this island has conjunctions with');
 }
 
+// Function to print when each island, and the whole archipelago, repeats exactly
+function printRepeatPeriods(islands, tolerance) {
+  const simulator = new SkydriftArchipelagoSimulator(islands);
+  const options = { tolerance };
+  
+  const describe = (repeatPeriod) => {
+    if (!repeatPeriod.repeating) {
+      return 'effectively non-repeating';
+    }
+    const approx = repeatPeriod.approximated ? ' (approx.)' : '';
+    return `${formatDuration(repeatPeriod.period)} (${repeatPeriod.period.toFixed(1)} days)${approx}`;
+  };
+  
+  console.log('\n=== REPEAT PERIODS ===\n');
+  islands.forEach(island => {
+    const repeatPeriod = simulator.calculateIslandRepeatPeriod(island, options);
+    console.log(`${island.name.padEnd(16)} ${describe(repeatPeriod)}`);
+  });
+  
+  const grandCycle = simulator.calculateArchipelagoRepeatPeriod(islands, options);
+  console.log(`\nWhole archipelago: ${describe(grandCycle)}`);
+}
+
 // Compact formatting functions for the table
 function formatDurationCompact(days) {
   if (days < 1) {
@@ -249,16 +273,27 @@ const argv = yargs(hideBin(process.argv))
     description: 'Simulation duration in days',
     default: 36500
   })
+  .option('tier', {
+    alias: 't',
+    type: 'string',
+    description: 'Conjunction tier to analyze (visible, approach or bridgeable)',
+    default: 'approach'
+  })
+  .option('tolerance', {
+    type: 'number',
+    description: 'Tolerance (days) when treating epicycle periods as exact fractions',
+    default: 1e-6
+  })
   .help()
   .alias('help', 'h')
   .argv;
 
 // Main function to analyze conjunctions
-async function analyzeConjunctions(configPath, startDate, durationDays) {
+async function analyzeConjunctions(configPath, startDate, durationDays, tier, tolerance) {
   try {
     // Read and parse the island configuration
     const configData = await fs.promises.readFile(configPath, 'utf-8');
-    const islands = JSON.parse(configData);
+    const { islands } = parseWorldConfig(JSON.parse(configData));
     
     console.log(`Loaded ${islands.length} islands from ${path.basename(configPath)}`);
     
@@ -279,6 +314,7 @@ async function analyzeConjunctions(configPath, startDate, durationDays) {
     console.log(`Start time: ${formatTime(startTimeMs)}`);
     console.log(`Duration: ${formatDuration(durationDays)} (${durationDays.toFixed(0)} days)`);
     console.log(`Time step: ${formatDuration(timeStepDays)} (${timeStepDays.toFixed(0)} days)`);
+    console.log(`Conjunction tier: ${tier}`);
     
     // Run the analysis
     console.log('Analyzing conjunctions...');
@@ -287,13 +323,15 @@ async function analyzeConjunctions(configPath, startDate, durationDays) {
     const conjunctionStats = analyzer.analyzeConjunctions({
       simulationDays: durationDays,
       timeStepDays: timeStepDays,
-      startTimeMs: startTimeMs
+      startTimeMs: startTimeMs,
+      tier: tier
     });
     
     const endTime = Date.now();
     console.log(`Analysis completed in ${((endTime - startTime) / 1000).toFixed(1)} seconds`);
     
     // Print the results
+    printRepeatPeriods(islands, tolerance);
     printConjunctionStats(conjunctionStats, islands);
     
   } catch (error) {
@@ -302,4 +340,4 @@ async function analyzeConjunctions(configPath, startDate, durationDays) {
 }
 
 // Run the analysis
-analyzeConjunctions(argv.config, argv.start, argv.duration); 
\ No newline at end of file
+analyzeConjunctions(argv.config, argv.start, argv.duration, argv.tier, argv.tolerance); 
\ No newline at end of file
@@ -0,0 +1,143 @@
+#!/usr/bin/env node
+
+// We need to tell TypeScript how to resolve the module paths
+require('ts-node').register({
+  transpileOnly: true,
+  compilerOptions: {
+    module: 'commonjs',
+    esModuleInterop: true,
+  }
+});
+
+// Import the simulator and time helpers
+const SkydriftArchipelagoSimulator = require('../src/utils/sim').default;
+const { formatTime, parseTimeString, formatDuration } = require('../src/utils/timeFormat');
+const { parseWorldConfig } = require('../src/utils/worldConfig');
+const fs = require('fs');
+const path = require('path');
+const yargs = require('yargs/yargs');
+const { hideBin } = require('yargs/helpers');
+
+// Find an island by ID or (case-insensitive) name
+function findIsland(islands, key) {
+  const id = Number(key);
+  return islands.find(island =>
+    (!isNaN(id) && island.id === id) || island.name.toLowerCase() === String(key).toLowerCase()
+  );
+}
+
+// Print one departure option as a table row
+function printOption(label, option) {
+  console.log(
+    `${label.padEnd(16)} ${formatTime(option.departureTime).padEnd(16)} ` +
+    `${formatDuration(option.duration).padEnd(14)} ${formatTime(option.arrivalTime).padEnd(16)} ` +
+    `${option.distance.toFixed(0)} mi`
+  );
+}
+
+// Parse command line arguments
+const argv = yargs(hideBin(process.argv))
+  .option('config', {
+    alias: 'c',
+    type: 'string',
+    description: 'Path to island or world configuration file',
+    default: path.join(__dirname, '..', 'src', 'data', 'defaultIslands.json')
+  })
+  .option('from', {
+    alias: 'f',
+    type: 'string',
+    description: 'Source island (name or ID)',
+    demandOption: true
+  })
+  .option('to', {
+    alias: 't',
+    type: 'string',
+    description: 'Destination island (name or ID)',
+    demandOption: true
+  })
+  .option('speed', {
+    type: 'number',
+    description: 'Ship speed in mph',
+    default: 8
+  })
+  .option('start', {
+    alias: 's',
+    type: 'string',
+    description: 'Start of the departure window in yyyy-mm-dd format (optional hours suffix)',
+    default: '0000-01-01'
+  })
+  .option('days', {
+    alias: 'd',
+    type: 'number',
+    description: 'Length of the departure window in days',
+    default: 365
+  })
+  .option('samples', {
+    type: 'number',
+    description: 'Number of evenly spaced departures to sample',
+    default: 200
+  })
+  .help()
+  .alias('help', 'h')
+  .argv;
+
+// Main function to find the best departures in a window
+async function findDepartureWindow(configPath, fromKey, toKey, speed, startDate, windowDays, sampleCount) {
+  try {
+    // Read and parse the world configuration (islands and wind)
+    const configData = await fs.promises.readFile(configPath, 'utf-8');
+    const { islands, windLayers } = parseWorldConfig(JSON.parse(configData));
+
+    const source = findIsland(islands, fromKey);
+    const destination = findIsland(islands, toKey);
+    if (!source || !destination) {
+      console.error(`Unknown island: ${!source ? fromKey : toKey}`);
+      process.exit(1);
+    }
+
+    // Parse start date
+    const startTimeMs = parseTimeString(startDate);
+    if (startTimeMs === null) {
+      console.error(`Invalid start date format: ${startDate}`);
+      console.error('Expected format: yyyy-mm-dd [h]h');
+      process.exit(1);
+    }
+
+    console.log(`Route: ${source.name} -> ${destination.name} at ${speed} mph`);
+    console.log(`Window: ${formatTime(startTimeMs)} + ${formatDuration(windowDays)} (${sampleCount} samples)`);
+
+    const simulator = new SkydriftArchipelagoSimulator(islands);
+    simulator.setWindLayers(windLayers);
+    const departureWindow = simulator.calculateDepartureWindow(
+      source.id,
+      destination.id,
+      speed,
+      windowDays,
+      startTimeMs,
+      sampleCount
+    );
+
+    if (!departureWindow) {
+      console.error('Could not calculate a departure window with these parameters');
+      process.exit(1);
+    }
+
+    console.log(`\n${''.padEnd(16)} ${'Departure'.padEnd(16)} ${'Duration'.padEnd(14)} ${'Arrival'.padEnd(16)} Distance`);
+    printOption('Fastest trip', departureWindow.best);
+    printOption('Earliest arrival', departureWindow.earliestArrival);
+
+    console.log('\n=== LOCAL MINIMA ===\n');
+    if (departureWindow.minima.length === 0) {
+      console.log('None (travel time changes monotonically across the window)');
+    }
+    departureWindow.minima.forEach((minimum, index) => {
+      printOption(`#${index + 1}`, minimum);
+    });
+
+  } catch (error) {
+    console.error('Error finding departure window:', error);
+  }
+}
+
+// Run the search
+findDepartureWindow(argv.config, argv.from, argv.to, argv.speed, argv.start, argv.days, argv.samples);
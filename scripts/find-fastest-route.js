@@ -0,0 +1,153 @@
+#!/usr/bin/env node
+
+// We need to tell TypeScript how to resolve the module paths
+require('ts-node').register({
+  transpileOnly: true,
+  compilerOptions: {
+    module: 'commonjs',
+    esModuleInterop: true,
+  }
+});
+
+// Import the route finder and time helpers
+const RouteFinder = require('../src/utils/routeFinder').default;
+const { DEFAULT_ROUTE_SEARCH_PARAMS } = require('../src/utils/routeFinder');
+const { formatTime, parseTimeString, formatDuration } = require('../src/utils/timeFormat');
+const { parseWorldConfig } = require('../src/utils/worldConfig');
+const fs = require('fs');
+const path = require('path');
+const yargs = require('yargs/yargs');
+const { hideBin } = require('yargs/helpers');
+
+// Find an island by ID or (case-insensitive) name
+function findIsland(islands, key) {
+  const id = Number(key);
+  return islands.find(island =>
+    (!isNaN(id) && island.id === id) || island.name.toLowerCase() === String(key).toLowerCase()
+  );
+}
+
+// Parse command line arguments
+const argv = yargs(hideBin(process.argv))
+  .option('config', {
+    alias: 'c',
+    type: 'string',
+    description: 'Path to island or world configuration file',
+    default: path.join(__dirname, '..', 'src', 'data', 'defaultIslands.json')
+  })
+  .option('from', {
+    alias: 'f',
+    type: 'string',
+    description: 'Source island (name or ID)',
+    demandOption: true
+  })
+  .option('to', {
+    alias: 't',
+    type: 'string',
+    description: 'Target island (name or ID)',
+    demandOption: true
+  })
+  .option('speed', {
+    type: 'number',
+    description: 'Ship speed in mph',
+    default: 8
+  })
+  .option('start', {
+    alias: 's',
+    type: 'string',
+    description: 'Earliest departure in yyyy-mm-dd format (optional hours suffix)',
+    default: '0000-01-01'
+  })
+  .option('max-hops', {
+    type: 'number',
+    description: 'Maximum number of legs',
+    default: DEFAULT_ROUTE_SEARCH_PARAMS.maxHops
+  })
+  .option('max-wait', {
+    type: 'number',
+    description: 'Longest wait (days) at any island, including the source',
+    default: DEFAULT_ROUTE_SEARCH_PARAMS.maxWaitDays
+  })
+  .option('wait-step', {
+    type: 'number',
+    description: 'Spacing (days) of the departure times tried while waiting',
+    default: DEFAULT_ROUTE_SEARCH_PARAMS.waitStepDays
+  })
+  .help()
+  .alias('help', 'h')
+  .argv;
+
+// Main function to find the fastest route between two islands
+async function findFastestRoute(configPath, fromKey, toKey, speed, startDate, maxHops, maxWaitDays, waitStepDays) {
+  try {
+    // Read and parse the world configuration (islands and wind)
+    const configData = await fs.promises.readFile(configPath, 'utf-8');
+    const { islands, windLayers } = parseWorldConfig(JSON.parse(configData));
+
+    const source = findIsland(islands, fromKey);
+    const target = findIsland(islands, toKey);
+    if (!source || !target) {
+      console.error(`Unknown island: ${!source ? fromKey : toKey}`);
+      process.exit(1);
+    }
+
+    // Parse start date
+    const startTimeMs = parseTimeString(startDate);
+    if (startTimeMs === null) {
+      console.error(`Invalid start date format: ${startDate}`);
+      console.error('Expected format: yyyy-mm-dd [h]h');
+      process.exit(1);
+    }
+
+    console.log(`Route: ${source.name} -> ${target.name} at ${speed} mph`);
+    console.log(`Earliest departure: ${formatTime(startTimeMs)}`);
+    console.log(`Limits: ${maxHops} legs, ${maxWaitDays} days waiting per island`);
+
+    const routeFinder = new RouteFinder(islands, windLayers);
+    const result = routeFinder.findFastestRoute({
+      sourceId: source.id,
+      targetId: target.id,
+      departureTime: startTimeMs,
+      speed,
+      maxHops,
+      maxWaitDays,
+      waitStepDays
+    });
+
+    if (!result.found) {
+      console.log('\nNo route found within these limits');
+      return;
+    }
+
+    const islandName = id => (islands.find(island => island.id === id) || { name: `#${id}` }).name;
+
+    console.log('\n=== FASTEST ROUTE ===\n');
+    if (result.departureTime > startTimeMs) {
+      console.log(`Wait at ${source.name} for ${formatDuration((result.departureTime - startTimeMs) / 1000)}`);
+    }
+    result.itinerary.legs.forEach((leg, index) => {
+      console.log(
+        `${index + 1}. ${islandName(leg.sourceId).padEnd(14)} -> ${islandName(leg.destinationId).padEnd(14)} ` +
+        `depart ${formatTime(leg.startTime).padEnd(16)} arrive ${formatTime(leg.arrivalTime).padEnd(16)} ` +
+        `${leg.distance.toFixed(0)} mi`
+      );
+      const layover = result.itinerary.layovers[index];
+      if (layover > 0) {
+        console.log(`   Wait at ${islandName(leg.destinationId)} for ${formatDuration(layover)}`);
+      }
+    });
+
+    console.log(`\nArrival: ${formatTime(result.arrivalTime)} (${formatDuration((result.arrivalTime - startTimeMs) / 1000)} after the earliest departure)`);
+    if (result.direct) {
+      const saved = (result.direct.arrivalTime - result.arrivalTime) / 1000;
+      console.log(`Sailing direct would arrive ${formatTime(result.direct.arrivalTime)}` +
+        (saved > 0.001 ? ` (${formatDuration(saved)} later)` : ''));
+    }
+
+  } catch (error) {
+    console.error('Error finding fastest route:', error);
+  }
+}
+
+// Run the search
+findFastestRoute(argv.config, argv.from, argv.to, argv.speed, argv.start, argv.maxHops, argv.maxWait, argv.waitStep);
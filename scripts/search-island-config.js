@@ -73,6 +73,7 @@ async function runWorker() {
           islandsToConfigure: [island], // Only one island to configure
           conjunctionTargets: relevantTargets, // Only use relevant targets
           analysisParams: searchParams.analysisParams,
+          thresholds: searchParams.thresholds,
           annealingParams: searchParams.annealingParams
         });
 
@@ -193,17 +194,10 @@ async function runMain() {
     
     // Iterate through targets in config order and find corresponding stats
     for (const target of config.conjunctionTargets) {
-      const pairKey = getPairKey(target.island1Id, target.island2Id);
+      const pairKey = IslandConfigSearch.getTargetKey(target);
       
-      // Find stats for this pair
-      let foundStats = null;
-      for (const stats of result.stats.values()) {
-        const statsPairKey = getPairKey(stats.island1Id, stats.island2Id);
-        if (statsPairKey === pairKey) {
-          foundStats = stats;
-          break;
-        }
-      }
+      // Find stats for this target (pair and tier)
+      const foundStats = result.stats.get(pairKey);
       
       // Skip if no stats found for this pair
       if (!foundStats) continue;
@@ -255,13 +249,6 @@ async function runMain() {
     return `${miles.toFixed(1)}mi`;
   }
 
-  // Create a unique key for an island pair (order doesn't matter)
-  function getPairKey(island1Id, island2Id) {
-    return island1Id < island2Id ? 
-      `${island1Id}-${island2Id}` : 
-      `${island2Id}-${island1Id}`;
-  }
-
   // Parse command line arguments
   const argv = yargs(hideBin(process.argv))
     .option('config', {
@@ -361,7 +348,7 @@ async function runMain() {
               console.log(`- ${island.name}:`);
               if (island.cycles) {
                 for (const cycle of island.cycles) {
-                  console.log(`  * Period: ${cycle.period.toFixed(2)} days`);
+                  console.log(`  * Period: ${cycle.period.toFixed(2)} days, phase: ${(cycle.phase || 0).toFixed(1)}°`);
                 }
               } else {
                 console.log('  * No cycles configured yet');
@@ -451,17 +438,10 @@ async function runMain() {
               
               // Iterate through targets in config order and find corresponding stats
               for (const target of config.conjunctionTargets) {
-                const pairKey = getPairKey(target.island1Id, target.island2Id);
+                const pairKey = IslandConfigSearch.getTargetKey(target);
                 
-                // Find stats for this pair
-                let foundStats = null;
-                for (const stats of currentBestResult.stats.values()) {
-                  const statsPairKey = getPairKey(stats.island1Id, stats.island2Id);
-                  if (statsPairKey === pairKey) {
-                    foundStats = stats;
-                    break;
-                  }
-                }
+                // Find stats for this target (pair and tier)
+                const foundStats = currentBestResult.stats.get(pairKey);
                 
                 // Skip if no stats found for this pair
                 if (!foundStats) continue;
@@ -497,7 +477,7 @@ async function runMain() {
               console.log(`- ${island.name}:`);
               if (island.cycles) {
                 for (const cycle of island.cycles) {
-                  console.log(`  * Period: ${cycle.period.toFixed(2)} days`);
+                  console.log(`  * Period: ${cycle.period.toFixed(2)} days, phase: ${(cycle.phase || 0).toFixed(1)}°`);
                 }
               }
             }
@@ -538,7 +518,7 @@ async function runMain() {
             console.log(`- ${island.name}:`);
             if (island.cycles) {
               for (const cycle of island.cycles) {
-                console.log(`  * Period: ${cycle.period.toFixed(2)} days`);
+                console.log(`  * Period: ${cycle.period.toFixed(2)} days, phase: ${(cycle.phase || 0).toFixed(1)}°`);
               }
             }
           }
@@ -589,6 +569,7 @@ async function runMain() {
                   simulationDays: 3650,
                   timeStepDays: 30
                 },
+                thresholds: config.thresholds,
                 annealingParams: {
                   ...config.annealingParams,
                   // Use different random seeds for different workers
@@ -0,0 +1,274 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import { styled } from '@mui/material/styles';
+import SkydriftArchipelagoSimulator, { Alignment, AlignmentOptions, AlignmentType, DEFAULT_ALIGNMENT_OPTIONS, Island } from '../utils/sim';
+import ConjunctionAnalyzer, { AlignmentStats } from '../utils/conjunctionAnalyzer';
+import { formatTime, formatDuration } from '../utils/timeFormat';
+import { parseAtLeast } from '../utils/numberInput';
+import StyledTableCell from './StyledTableCell';
+import RangePicker, { useDayRange } from './RangePicker';
+
+// Rows jump the simulation to the alignment's tightest moment when clicked
+const AlignmentRow = styled(TableRow)(({ theme }) => ({
+  cursor: 'pointer',
+  '&:hover': {
+    backgroundColor: theme.palette.action.hover,
+  }
+}));
+
+// Highlight for alignments under way now
+const ActiveAlignmentRow = styled(AlignmentRow)(({ theme }) => ({
+  backgroundColor: theme.palette.success.light,
+  '&:hover': {
+    backgroundColor: theme.palette.success.main,
+  }
+}));
+
+// Default tolerance for each kind of alignment: degrees for a line-up, miles for a cluster
+const DEFAULT_TOLERANCES: { [type in AlignmentType]: number } = {
+  collinear: 5,
+  cluster: 150
+};
+
+// Years covered by the statistics, and how many groups they list
+const STATS_YEARS = 10;
+const MAX_STATS_ROWS = 10;
+
+interface AlignmentsPanelProps {
+  simulator: SkydriftArchipelagoSimulator;
+  islands: Island[];
+  currentTime: number;
+  setTime: (time: number) => void;
+  setIsPlaying: (playing: boolean) => void;
+}
+
+const AlignmentsPanel: React.FC<AlignmentsPanelProps> = ({
+  simulator,
+  islands,
+  currentTime,
+  setTime,
+  setIsPlaying
+}) => {
+  const [options, setOptions] = useState<AlignmentOptions>(DEFAULT_ALIGNMENT_OPTIONS);
+  const { type, minIslands, tolerance, observerId } = options;
+
+  const [range, setRange] = useDayRange(currentTime, 365);
+
+  // Statistics are worked out on request, since they cover years
+  const [stats, setStats] = useState<AlignmentStats[] | null>(null);
+
+  const visibleIslands = islands.filter(island => island.visible);
+  const visibleIds = visibleIslands.map(island => island.id).join(',');
+  const unit = type === 'collinear' ? '°' : ' miles';
+  const viewpoint = islands.find(island => island.id === observerId)?.name ?? 'the centre';
+
+  // Islands are edited in another tab, so only their visibility can change while this panel is shown
+  const alignments = useMemo((): Alignment[] => {
+    const islandIds = visibleIds === '' ? [] : visibleIds.split(',').map(Number);
+    return simulator.calculateUpcomingAlignments({ ...options, islandIds }, range.days, range.start);
+  }, [simulator, visibleIds, options, range]);
+
+  const updateOptions = (changes: Partial<AlignmentOptions>) => {
+    setOptions({ ...options, ...changes });
+    setStats(null);
+  };
+
+  const islandNames = (islandIds: number[]) =>
+    islandIds.map(id => islands.find(island => island.id === id)?.name ?? 'Unknown').join(', ');
+
+  const jumpTo = (time: number) => {
+    setTime(time);
+    setIsPlaying(false); // Pause the simulation
+  };
+
+  const analyze = () => {
+    const analyzer = new ConjunctionAnalyzer(visibleIslands, simulator.getConjunctionThresholds());
+    const results = analyzer.analyzeAlignments(options, {
+      simulationDays: STATS_YEARS * 365,
+      timeStepDays: 365,
+      startTimeMs: currentTime
+    });
+    setStats(Array.from(results.values()).sort((a, b) => b.totalAlignments - a.totalAlignments));
+  };
+
+  return (
+    <Box sx={{ mt: 3 }}>
+      <Typography variant="h6" gutterBottom>
+        Alignments
+      </Typography>
+
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        {type === 'collinear'
+          ? `Times when ${minIslands} or more visible islands line up within ${tolerance}° of a line through ${viewpoint}, on either side of it.`
+          : `Times when ${minIslands} or more visible islands are all within ${tolerance} miles of their midpoint.`}
+        {' '}Click an alignment to jump to its tightest moment.
+      </Typography>
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+        <Chip
+          label="Line-up"
+          size="small"
+          clickable
+          color={type === 'collinear' ? 'primary' : 'default'}
+          variant={type === 'collinear' ? 'filled' : 'outlined'}
+          onClick={() => updateOptions({ type: 'collinear', tolerance: DEFAULT_TOLERANCES.collinear })}
+        />
+        <Chip
+          label="Cluster"
+          size="small"
+          clickable
+          color={type === 'cluster' ? 'primary' : 'default'}
+          variant={type === 'cluster' ? 'filled' : 'outlined'}
+          onClick={() => updateOptions({ type: 'cluster', tolerance: DEFAULT_TOLERANCES.cluster })}
+        />
+      </Box>
+
+      {type === 'collinear' && (
+        <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 2, flexWrap: 'wrap' }}>
+          <Typography variant="body2">Seen from:</Typography>
+          <Chip
+            label="Centre"
+            size="small"
+            clickable
+            color={observerId === null || observerId === undefined ? 'primary' : 'default'}
+            variant={observerId === null || observerId === undefined ? 'filled' : 'outlined'}
+            onClick={() => updateOptions({ observerId: null })}
+          />
+          {visibleIslands.map(island => (
+            <Chip
+              key={island.id}
+              label={island.name}
+              size="small"
+              clickable
+              variant={observerId === island.id ? 'filled' : 'outlined'}
+              onClick={() => updateOptions({ observerId: island.id })}
+              sx={observerId === island.id ? { bgcolor: island.color, color: 'white' } : { borderColor: island.color }}
+            />
+          ))}
+        </Stack>
+      )}
+
+      <Stack direction="row" spacing={2} alignItems="center" sx={{ mb: 2 }}>
+        <TextField
+          label="Islands (at least)"
+          type="number"
+          value={minIslands}
+          onChange={(e) => updateOptions({ minIslands: Math.round(parseAtLeast(e.target.value, 3, minIslands)) })}
+          inputProps={{ min: 3 }}
+          size="small"
+          sx={{ width: 140 }}
+        />
+        <TextField
+          label={type === 'collinear' ? 'Within (degrees)' : 'Within (miles)'}
+          type="number"
+          value={tolerance}
+          onChange={(e) => updateOptions({ tolerance: parseAtLeast(e.target.value, 0.1, tolerance) })}
+          inputProps={{ min: 0.1 }}
+          size="small"
+          sx={{ width: 140 }}
+        />
+        <RangePicker time={currentTime} range={range} setRange={setRange} />
+      </Stack>
+
+      <TableContainer component={Paper} sx={{ mb: 2, maxHeight: 400 }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              <StyledTableCell>Islands</StyledTableCell>
+              <StyledTableCell>Starts</StyledTableCell>
+              <StyledTableCell>Tightest</StyledTableCell>
+              <StyledTableCell>Ends</StyledTableCell>
+              <StyledTableCell>Duration</StyledTableCell>
+              <StyledTableCell>Spread</StyledTableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {alignments.length > 0 ? (
+              alignments.map(alignment => {
+                const Row = currentTime >= alignment.startTime && currentTime <= alignment.endTime
+                  ? ActiveAlignmentRow
+                  : AlignmentRow;
+                return (
+                  <Row key={`${alignment.islandIds.join('-')}-${alignment.startTime}`} onClick={() => jumpTo(alignment.minSpreadTime)}>
+                    <TableCell>{islandNames(alignment.islandIds)}</TableCell>
+                    <TableCell>{formatTime(alignment.startTime)}</TableCell>
+                    <TableCell>{formatTime(alignment.minSpreadTime)}</TableCell>
+                    <TableCell>{formatTime(alignment.endTime)}</TableCell>
+                    <TableCell>{formatDuration(alignment.duration)}</TableCell>
+                    <TableCell>{`${alignment.minSpread.toFixed(1)}${unit}`}</TableCell>
+                  </Row>
+                );
+              })
+            ) : (
+              <TableRow>
+                <TableCell colSpan={6} align="center" sx={{ fontStyle: 'italic' }}>
+                  No alignments in this range
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Stack direction="row" spacing={2} alignItems="center" sx={{ mb: 2 }}>
+        <Typography variant="subtitle1">Statistics</Typography>
+        <Button size="small" variant="outlined" onClick={analyze}>
+          {`Analyse ${STATS_YEARS} years`}
+        </Button>
+      </Stack>
+
+      {stats && (
+        <TableContainer component={Paper} sx={{ mb: 2 }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <StyledTableCell>Islands</StyledTableCell>
+                <StyledTableCell>Alignments</StyledTableCell>
+                <StyledTableCell>Avg Duration</StyledTableCell>
+                <StyledTableCell>Avg Interval</StyledTableCell>
+                <StyledTableCell>Tightest</StyledTableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {stats.length > 0 ? (
+                stats.slice(0, MAX_STATS_ROWS).map(groupStats => (
+                  <TableRow key={groupStats.islandIds.join('-')}>
+                    <TableCell>{groupStats.islandNames.join(', ')}</TableCell>
+                    <TableCell>{groupStats.totalAlignments}</TableCell>
+                    <TableCell>{formatDuration(groupStats.avgAlignmentDuration)}</TableCell>
+                    <TableCell>
+                      {groupStats.avgTimeBetweenAlignments !== null ? formatDuration(groupStats.avgTimeBetweenAlignments) : '-'}
+                    </TableCell>
+                    <TableCell>{`${groupStats.minSpread.toFixed(1)}${unit}`}</TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={5} align="center" sx={{ fontStyle: 'italic' }}>
+                    {`No alignments in the next ${STATS_YEARS} years`}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Box>
+  );
+};
+
+export default AlignmentsPanel;
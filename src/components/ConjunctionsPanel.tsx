@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import {
   Box,
   Typography,
@@ -12,21 +12,17 @@ import {
   Stack,
   Chip,
   IconButton,
-  Tooltip
+  Tooltip,
+  Button,
+  TextField
 } from '@mui/material';
 import { styled } from '@mui/material/styles';
 import AccessTimeIcon from '@mui/icons-material/AccessTime';
-import SkydriftArchipelagoSimulator, { Conjunction, Island } from '../utils/sim';
+import DownloadIcon from '@mui/icons-material/Download';
+import SkydriftArchipelagoSimulator, { AngularAspect, AngularEvent, ANGULAR_ASPECTS, Conjunction, Island } from '../utils/sim';
+import { serializeAngularEventsCsv } from '../utils/eventExport';
 import { formatTime, formatDuration } from '../utils/timeFormat';
-
-// Style the table for better readability
-const StyledTableCell = styled(TableCell)(({ theme }) => ({
-  '&.MuiTableCell-head': {
-    backgroundColor: theme.palette.primary.main,
-    color: theme.palette.primary.contrastText,
-    fontWeight: 'bold'
-  }
-}));
+import StyledTableCell from './StyledTableCell';
 
 // Style for highlighted rows (active conjunctions)
 const ActiveConjunctionRow = styled(TableRow)(({ theme }) => ({
@@ -74,16 +70,31 @@ const ConjunctionsPanel: React.FC<ConjunctionsPanelProps> = ({
   // State for storing conjunctions
   const [conjunctions, setConjunctions] = useState<Conjunction[]>([]);
   
+  // Conjunction tier used to define the conjunctions listed
+  const tiers = simulator.getConjunctionTiers();
+  const [tier, setTier] = useState<string>(simulator.getConjunctionThresholds().defaultTier);
+  const selectedTier = tiers.find(t => t.name === tier);
+  
   // Constants for conjunction calculations
   const MAX_CONJUNCTIONS = 10;
   const MAX_YEARS = 10;
   
+  // Oppositions and quadratures, with the aspects listed and how close to them counts
+  const [aspects, setAspects] = useState<AngularAspect[]>(ANGULAR_ASPECTS.map(aspect => aspect.id));
+  const [aspectTolerance, setAspectTolerance] = useState<number>(simulator.ASPECT_TOLERANCE);
+  
+  // Oppositions and quadratures are worked out a year ahead in 30 day steps, so they aren't
+  // recalculated on every tick while the simulation plays
+  const ASPECT_WINDOW_DAYS = 30;
+  const ASPECT_LOOK_AHEAD_DAYS = 365;
+  
   // Reference to track last calculated time and end time
   const lastCalculationRef = useRef<{
     startTime: number;
     endTime: number;
     islandCount: number;
     visibleIslands?: string;
+    tier?: string;
   }>({
     startTime: -1,
     endTime: -1,
@@ -112,6 +123,7 @@ const ConjunctionsPanel: React.FC<ConjunctionsPanelProps> = ({
       const currentVisibleIslands = islands.filter(island => island.visible).map(island => island.id).sort().join(',');
       const prevVisibleIslands = lastCalculationRef.current.visibleIslands || '';
       const haveVisibleIslandsChanged = currentVisibleIslands !== prevVisibleIslands;
+      const hasTierChanged = lastCalculationRef.current.tier !== tier;
       
       // Calculate maximum look ahead period (10 years in days)
       const maxLookAheadDays = MAX_YEARS * 365;
@@ -131,12 +143,13 @@ const ConjunctionsPanel: React.FC<ConjunctionsPanelProps> = ({
       
       // Recalculate everything from scratch in these cases:
       // 1. First calculation (lastCalculationRef.current.startTime === -1)
-      // 2. Visible islands have changed
+      // 2. Visible islands or the selected tier have changed
       // 3. Backward time jump
       // 4. Jump ahead beyond our current calculation window
       const needsFullRecalculation = 
         lastCalculationRef.current.startTime === -1 ||
         haveVisibleIslandsChanged ||
+        hasTierChanged ||
         isBackwardJump ||
         isJumpBeyondCalculationWindow;
       
@@ -144,7 +157,7 @@ const ConjunctionsPanel: React.FC<ConjunctionsPanelProps> = ({
         // Use timer to allow UI to update before calculation starts
         calculationTimerRef.current = window.setTimeout(() => {
           // Do a full recalculation for max look ahead period
-          const allConjunctions = simulator.calculateUpcomingConjunctions(maxLookAheadDays);
+          const allConjunctions = simulator.calculateUpcomingConjunctions(maxLookAheadDays, undefined, undefined, tier);
           
           // Store all conjunctions without limiting
           setConjunctions(allConjunctions);
@@ -154,7 +167,8 @@ const ConjunctionsPanel: React.FC<ConjunctionsPanelProps> = ({
             startTime: currentTime,
             endTime: currentEndTime,
             islandCount: islands.length,
-            visibleIslands: currentVisibleIslands
+            visibleIslands: currentVisibleIslands,
+            tier: tier
           };
           
           calculationTimerRef.current = null;
@@ -184,7 +198,9 @@ const ConjunctionsPanel: React.FC<ConjunctionsPanelProps> = ({
           calculationTimerRef.current = window.setTimeout(() => {
             const newConjunctions = simulator.calculateUpcomingConjunctions(
               additionalTimeToCheck / 1000, // Convert ms to days
-              lastCalculationRef.current.endTime // Start from previous end time
+              lastCalculationRef.current.endTime, // Start from previous end time
+              undefined,
+              tier
             );
             
             // Filter out any conjunctions that might overlap with existing ones
@@ -232,7 +248,7 @@ const ConjunctionsPanel: React.FC<ConjunctionsPanelProps> = ({
         clearTimeout(calculationTimerRef.current);
       }
     };
-  }, [simulator, islands, currentTime]);
+  }, [simulator, islands, currentTime, tier]);
     
   // Filter conjunctions to show active and upcoming ones between visible islands
   const filteredConjunctions = conjunctions
@@ -244,6 +260,39 @@ const ConjunctionsPanel: React.FC<ConjunctionsPanelProps> = ({
     .sort((a, b) => a.startTime - b.startTime)
     .slice(0, MAX_CONJUNCTIONS); // Apply limit AFTER filtering
   
+  // Oppositions and quadratures between visible islands, from the start of the current window
+  const visibleIds = islands.filter(island => island.visible).map(island => island.id).join(',');
+  const aspectWindowStart = Math.floor(currentTime / (ASPECT_WINDOW_DAYS * 1000)) * ASPECT_WINDOW_DAYS * 1000;
+  const angularEvents = useMemo((): AngularEvent[] => {
+    const islandIds = visibleIds === '' ? [] : visibleIds.split(',').map(Number);
+    const windowEnd = aspectWindowStart + (ASPECT_LOOK_AHEAD_DAYS + ASPECT_WINDOW_DAYS) * 1000;
+    return aspects
+      .flatMap(aspect => simulator.calculateAngularEvents(aspect, aspectWindowStart, windowEnd, aspectTolerance, islandIds))
+      .sort((a, b) => a.startTime - b.startTime);
+  }, [simulator, visibleIds, aspects, aspectTolerance, aspectWindowStart]);
+  const upcomingAngularEvents = angularEvents.filter(event => event.endTime >= currentTime);
+  
+  const toggleAspect = (aspect: AngularAspect) => {
+    setAspects(aspects.includes(aspect) ? aspects.filter(a => a !== aspect) : [...aspects, aspect]);
+  };
+  
+  // Download the upcoming oppositions and quadratures as CSV
+  const handleExportAngularEvents = () => {
+    const blob = new Blob([serializeAngularEventsCsv(upcomingAngularEvents)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    
+    // Create a temporary anchor element and trigger download
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'skydrift-oppositions-quadratures.csv';
+    document.body.appendChild(link);
+    link.click();
+    
+    // Clean up
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+  
   // Format distance for display
   const formatDistance = (distance: number): string => {
     return `${distance.toFixed(1)} miles`;
@@ -269,10 +318,25 @@ const ConjunctionsPanel: React.FC<ConjunctionsPanelProps> = ({
       </Typography>
       
       <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
-        A conjunction occurs when two islands come within 50 miles of each other.
+        A conjunction occurs when two islands come within {selectedTier ? selectedTier.threshold : '-'} miles of each other
+        (the "{tier}" tier; some island pairs may use their own threshold).
         Showing the next {MAX_CONJUNCTIONS} conjunctions between visible islands (up to {MAX_YEARS} years ahead).
       </Typography>
       
+      <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 2 }}>
+        <Typography variant="body2">Tier:</Typography>
+        {tiers.map(t => (
+          <Chip
+            key={t.name}
+            size="small"
+            label={`${t.name} (${t.threshold} mi)`}
+            color={t.name === tier ? "primary" : "default"}
+            variant={t.name === tier ? "filled" : "outlined"}
+            onClick={() => setTier(t.name)}
+          />
+        ))}
+      </Stack>
+      
       <TableContainer component={Paper} sx={{ mb: 2 }}>
         <Table size="small">
           <TableHead>
@@ -283,6 +347,7 @@ const ConjunctionsPanel: React.FC<ConjunctionsPanelProps> = ({
               <StyledTableCell>Duration</StyledTableCell>
               <StyledTableCell>Min. Distance</StyledTableCell>
               <StyledTableCell>Min. Distance At</StyledTableCell>
+              <StyledTableCell>Closest Tier</StyledTableCell>
               <StyledTableCell>Status</StyledTableCell>
             </TableRow>
           </TableHead>
@@ -356,6 +421,7 @@ const ConjunctionsPanel: React.FC<ConjunctionsPanelProps> = ({
                         </Tooltip>
                       )}
                     </TimeCell>
+                    <TableCell>{conjunction.tier}</TableCell>
                     <TableCell>
                       {isActive ? (
                         <Chip 
@@ -384,7 +450,7 @@ const ConjunctionsPanel: React.FC<ConjunctionsPanelProps> = ({
               })
             ) : (
               <TableRow>
-                <TableCell colSpan={7} align="center">
+                <TableCell colSpan={8} align="center">
                   <Typography variant="body2" sx={{ py: 2 }}>
                     No active or upcoming conjunctions found.
                   </Typography>
@@ -395,9 +461,155 @@ const ConjunctionsPanel: React.FC<ConjunctionsPanelProps> = ({
         </Table>
       </TableContainer>
       
+      <Typography variant="h6" gutterBottom sx={{ mt: 3 }}>
+        Oppositions and Quadratures
+      </Typography>
+      
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Times when two visible islands are on opposite sides of the centre (opposition) or at right angles
+        to each other as seen from it (quadrature), to within {aspectTolerance}°.
+        Showing the next {MAX_CONJUNCTIONS}; the export covers the year ahead.
+      </Typography>
+      
+      <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 2 }}>
+        {ANGULAR_ASPECTS.map(aspect => (
+          <Chip
+            key={aspect.id}
+            size="small"
+            label={`${aspect.name} (${aspect.angle}°)`}
+            color={aspects.includes(aspect.id) ? "primary" : "default"}
+            variant={aspects.includes(aspect.id) ? "filled" : "outlined"}
+            onClick={() => toggleAspect(aspect.id)}
+          />
+        ))}
+        <TextField
+          label="Within (degrees)"
+          type="number"
+          value={aspectTolerance}
+          onChange={(e) => {
+            const tolerance = parseFloat(e.target.value);
+            if (!isNaN(tolerance) && tolerance >= 0.1 && tolerance <= 45) setAspectTolerance(tolerance);
+          }}
+          inputProps={{ min: 0.1, max: 45, step: 0.5 }}
+          size="small"
+          sx={{ width: 140 }}
+        />
+        <Button
+          size="small"
+          variant="outlined"
+          startIcon={<DownloadIcon />}
+          onClick={handleExportAngularEvents}
+          disabled={upcomingAngularEvents.length === 0}
+        >
+          Export CSV
+        </Button>
+      </Stack>
+      
+      <TableContainer component={Paper} sx={{ mb: 2 }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <StyledTableCell>Islands</StyledTableCell>
+              <StyledTableCell>Aspect</StyledTableCell>
+              <StyledTableCell>Start</StyledTableCell>
+              <StyledTableCell>Exact</StyledTableCell>
+              <StyledTableCell>End</StyledTableCell>
+              <StyledTableCell>Duration</StyledTableCell>
+              <StyledTableCell>Angle</StyledTableCell>
+              <StyledTableCell>Distance</StyledTableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {upcomingAngularEvents.length > 0 ? (
+              upcomingAngularEvents.slice(0, MAX_CONJUNCTIONS).map((event) => {
+                const isActive = currentTime >= event.startTime && currentTime <= event.endTime;
+                const RowComponent = isActive ? ActiveConjunctionRow : TableRow;
+                
+                return (
+                  <RowComponent key={`${event.aspect}-${event.island1Id}-${event.island2Id}-${event.startTime}`}>
+                    <TableCell>
+                      <Stack direction="row" spacing={1}>
+                        <Chip 
+                          size="small"
+                          label={event.island1Name} 
+                          sx={{ 
+                            bgcolor: islands.find(i => i.id === event.island1Id)?.color,
+                            color: 'white'
+                          }}
+                        />
+                        <Typography variant="body2">&</Typography>
+                        <Chip 
+                          size="small"
+                          label={event.island2Name} 
+                          sx={{ 
+                            bgcolor: islands.find(i => i.id === event.island2Id)?.color,
+                            color: 'white'
+                          }}
+                        />
+                      </Stack>
+                    </TableCell>
+                    <TableCell>{ANGULAR_ASPECTS.find(aspect => aspect.id === event.aspect)?.name}</TableCell>
+                    <TimeCell>
+                      {formatTime(event.startTime)}
+                      {setTime && setIsPlaying && (
+                        <Tooltip title={`Set time to ${event.aspect} start`}>
+                          <TimeButton 
+                            size="small"
+                            onClick={() => handleTimeButtonClick(event.startTime)}
+                          >
+                            <AccessTimeIcon fontSize="small" />
+                          </TimeButton>
+                        </Tooltip>
+                      )}
+                    </TimeCell>
+                    <TimeCell>
+                      {formatTime(event.time)}
+                      {setTime && setIsPlaying && (
+                        <Tooltip title={`Set time to exact ${event.aspect}`}>
+                          <TimeButton 
+                            size="small"
+                            onClick={() => handleTimeButtonClick(event.time)}
+                          >
+                            <AccessTimeIcon fontSize="small" />
+                          </TimeButton>
+                        </Tooltip>
+                      )}
+                    </TimeCell>
+                    <TimeCell>
+                      {formatTime(event.endTime)}
+                      {setTime && setIsPlaying && (
+                        <Tooltip title={`Set time to ${event.aspect} end`}>
+                          <TimeButton 
+                            size="small"
+                            onClick={() => handleTimeButtonClick(event.endTime)}
+                          >
+                            <AccessTimeIcon fontSize="small" />
+                          </TimeButton>
+                        </Tooltip>
+                      )}
+                    </TimeCell>
+                    <TableCell>{formatDuration(event.duration)}</TableCell>
+                    <TableCell>{`${event.separation.toFixed(1)}°`}</TableCell>
+                    <TableCell>{formatDistance(event.distance)}</TableCell>
+                  </RowComponent>
+                );
+              })
+            ) : (
+              <TableRow>
+                <TableCell colSpan={8} align="center">
+                  <Typography variant="body2" sx={{ py: 2 }}>
+                    No active or upcoming oppositions or quadratures found.
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      
       <Box sx={{ mt: 1 }}>
         <Typography variant="body2" color="text.secondary">
-          Note: Conjunction times are calculated with precision of 0.05 days (about 1.2 hours).
+          Note: Conjunction times are calculated with precision of 0.001 days (about 1.4 minutes).
           Changes to island orbits will affect future conjunction predictions.
         </Typography>
       </Box>
@@ -0,0 +1,167 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Box } from '@mui/material';
+import { useTheme } from '@mui/material/styles';
+import { DepartureWindow, DepartureOption } from '../utils/sim';
+
+interface DepartureWindowChartProps {
+  departureWindow: DepartureWindow;
+  selectedDepartureTime: number | null;
+  onSelectDeparture: (option: DepartureOption) => void;
+  height?: number;
+}
+
+// Chart margins in pixels (room for the axis labels)
+const MARGIN = { top: 16, right: 56, bottom: 32, left: 56 };
+
+/**
+ * Porkchop-style chart of a departure window: travel duration (left axis) and
+ * arrival time (right axis) against departure time. Local minima are marked, and
+ * clicking the chart selects the nearest departure.
+ */
+const DepartureWindowChart: React.FC<DepartureWindowChartProps> = ({
+  departureWindow,
+  selectedDepartureTime,
+  onSelectDeparture,
+  height = 220
+}) => {
+  const theme = useTheme();
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  const { samples, minima, best } = departureWindow;
+  const windowStart = samples[0].departureTime;
+  const windowEnd = samples[samples.length - 1].departureTime;
+
+  // All points in departure order, so the curve passes through the refined minima
+  const points = useMemo(
+    () => [...samples, ...minima].sort((a, b) => a.departureTime - b.departureTime),
+    [samples, minima]
+  );
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    // Match the canvas resolution to its displayed size
+    const width = canvas.clientWidth;
+    canvas.width = width;
+    canvas.height = height;
+
+    const plotWidth = width - MARGIN.left - MARGIN.right;
+    const plotHeight = height - MARGIN.top - MARGIN.bottom;
+    if (plotWidth <= 0 || plotHeight <= 0) return;
+
+    // Axis ranges (days)
+    const maxDuration = Math.max(...points.map(p => p.duration)) * 1.05 || 1;
+    const minArrival = Math.min(...points.map(p => p.arrivalTime));
+    const maxArrival = Math.max(...points.map(p => p.arrivalTime));
+    const arrivalSpan = (maxArrival - minArrival) || 1;
+    const departureSpan = (windowEnd - windowStart) || 1;
+
+    const toX = (departureTime: number) => MARGIN.left + ((departureTime - windowStart) / departureSpan) * plotWidth;
+    const toDurationY = (duration: number) => MARGIN.top + plotHeight - (duration / maxDuration) * plotHeight;
+    const toArrivalY = (arrivalTime: number) => MARGIN.top + plotHeight - ((arrivalTime - minArrival) / arrivalSpan) * plotHeight;
+
+    const durationColor = theme.palette.success.main;
+    const arrivalColor = theme.palette.info.main;
+
+    ctx.clearRect(0, 0, width, height);
+
+    // Axes
+    ctx.strokeStyle = theme.palette.divider;
+    ctx.lineWidth = 1;
+    ctx.strokeRect(MARGIN.left, MARGIN.top, plotWidth, plotHeight);
+
+    ctx.font = '11px Roboto, Arial, sans-serif';
+    ctx.fillStyle = theme.palette.text.secondary;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    for (let i = 0; i <= 4; i++) {
+      const departureTime = windowStart + (departureSpan * i) / 4;
+      ctx.fillText(`+${((departureTime - windowStart) / 1000).toFixed(0)}d`, toX(departureTime), MARGIN.top + plotHeight + 6);
+    }
+
+    ctx.textBaseline = 'middle';
+    for (let i = 0; i <= 4; i++) {
+      const duration = (maxDuration * i) / 4;
+      ctx.textAlign = 'right';
+      ctx.fillStyle = durationColor;
+      ctx.fillText(`${duration.toFixed(1)}d`, MARGIN.left - 6, toDurationY(duration));
+
+      const arrivalTime = minArrival + (arrivalSpan * i) / 4;
+      ctx.textAlign = 'left';
+      ctx.fillStyle = arrivalColor;
+      ctx.fillText(`+${((arrivalTime - windowStart) / 1000).toFixed(0)}d`, MARGIN.left + plotWidth + 6, toArrivalY(arrivalTime));
+    }
+
+    // Arrival time curve
+    ctx.strokeStyle = arrivalColor;
+    ctx.lineWidth = 1.5;
+    ctx.setLineDash([4, 3]);
+    ctx.beginPath();
+    points.forEach((p, i) => {
+      if (i === 0) ctx.moveTo(toX(p.departureTime), toArrivalY(p.arrivalTime));
+      else ctx.lineTo(toX(p.departureTime), toArrivalY(p.arrivalTime));
+    });
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    // Travel duration curve
+    ctx.strokeStyle = durationColor;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    points.forEach((p, i) => {
+      if (i === 0) ctx.moveTo(toX(p.departureTime), toDurationY(p.duration));
+      else ctx.lineTo(toX(p.departureTime), toDurationY(p.duration));
+    });
+    ctx.stroke();
+
+    // Local minima, with the best departure highlighted
+    minima.forEach(minimum => {
+      ctx.fillStyle = minimum === best ? theme.palette.error.main : durationColor;
+      ctx.beginPath();
+      ctx.arc(toX(minimum.departureTime), toDurationY(minimum.duration), minimum === best ? 5 : 3.5, 0, 2 * Math.PI);
+      ctx.fill();
+    });
+
+    // Selected departure
+    if (selectedDepartureTime !== null && selectedDepartureTime >= windowStart && selectedDepartureTime <= windowEnd) {
+      const x = toX(selectedDepartureTime);
+      ctx.strokeStyle = theme.palette.primary.main;
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(x, MARGIN.top);
+      ctx.lineTo(x, MARGIN.top + plotHeight);
+      ctx.stroke();
+    }
+  }, [selectedDepartureTime, height, theme, points, minima, best, windowStart, windowEnd]);
+
+  // Select the departure nearest to the clicked position
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const plotWidth = rect.width - MARGIN.left - MARGIN.right;
+    const fraction = Math.min(Math.max((e.clientX - rect.left - MARGIN.left) / plotWidth, 0), 1);
+    const departureTime = windowStart + fraction * (windowEnd - windowStart);
+
+    const nearest = points.reduce((a, b) =>
+      Math.abs(b.departureTime - departureTime) < Math.abs(a.departureTime - departureTime) ? b : a
+    );
+    onSelectDeparture(nearest);
+  };
+
+  return (
+    <Box sx={{ width: '100%' }}>
+      <canvas
+        ref={canvasRef}
+        onClick={handleClick}
+        style={{ width: '100%', height, cursor: 'crosshair', display: 'block' }}
+      />
+    </Box>
+  );
+};
+
+export default DepartureWindowChart;
@@ -0,0 +1,167 @@
+import React, { useMemo } from 'react';
+import {
+  Box,
+  Chip,
+  IconButton,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import { styled } from '@mui/material/styles';
+import CloseIcon from '@mui/icons-material/Close';
+import SkydriftArchipelagoSimulator, { Island, IslandSeasonType } from '../utils/sim';
+import { formatTime, formatDuration } from '../utils/timeFormat';
+import StyledTableCell from './StyledTableCell';
+import RangePicker, { useDayRange } from './RangePicker';
+
+// Highlight for the season the island is in now
+const CurrentSeasonRow = styled(TableRow)(({ theme }) => ({
+  backgroundColor: theme.palette.action.selected
+}));
+
+// How each season is labelled, shared with the island list
+export const SEASON_LABELS: { [type in IslandSeasonType]: { name: string, color: 'warning' | 'info' } } = {
+  inner: { name: 'Inner season', color: 'warning' },
+  outer: { name: 'Outer season', color: 'info' }
+};
+
+interface IslandDetailProps {
+  simulator: SkydriftArchipelagoSimulator;
+  island: Island;
+  time: number;
+  onClose: () => void;
+}
+
+const IslandDetail: React.FC<IslandDetailProps> = ({ simulator, island, time, onClose }) => {
+  const [range, setRange] = useDayRange(time, 730);
+
+  const bounds = simulator.calculateRadialBounds(island);
+  const boundary = simulator.calculateSeasonBoundary(island);
+  const position = simulator.calculatePosition(island, time);
+  const distance = Math.hypot(position.x, position.y);
+  const season = simulator.calculateSeason(island, time);
+
+  const rangeEnd = range.start + range.days * 1000;
+  const { seasons, apsides } = useMemo(() => ({
+    seasons: simulator.calculateSeasons(island, range.start, rangeEnd),
+    apsides: simulator.calculateApsides(island, range.start, rangeEnd)
+  }), [simulator, island, range.start, rangeEnd]);
+
+  // When the current season ends, if the calendar reaches that far
+  const currentSeason = seasons.find(entry => time >= entry.startTime && time < entry.endTime);
+  const seasonEnd = currentSeason && currentSeason.endTime < rangeEnd ? currentSeason.endTime : null;
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2, mt: 2 }}>
+      <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 1 }}>
+        <Box sx={{ width: 16, height: 16, borderRadius: '50%', bgcolor: island.color }} />
+        <Typography variant="subtitle1" fontWeight="medium" sx={{ flexGrow: 1 }}>
+          {island.name}
+        </Typography>
+        <IconButton size="small" onClick={onClose}>
+          <CloseIcon fontSize="small" />
+        </IconButton>
+      </Stack>
+
+      {season === null ? (
+        <Typography variant="body2" color="text.secondary">
+          {`${island.name} always stays ${distance.toFixed(0)} miles from the centre, so it has no seasons.`}
+        </Typography>
+      ) : (
+        <>
+          <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 1 }}>
+            <Chip size="small" label={SEASON_LABELS[season].name} color={SEASON_LABELS[season].color} />
+            <Typography variant="body2">
+              {`${distance.toFixed(0)} miles from the centre`}
+              {seasonEnd !== null && `, until ${formatTime(seasonEnd)}`}
+            </Typography>
+          </Stack>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {`Ranges from ${bounds.min.toFixed(0)} to ${bounds.max.toFixed(0)} miles from the centre. `}
+            {`Its inner season is spent within ${boundary.toFixed(0)} miles, halfway between.`}
+          </Typography>
+
+          <Stack direction="row" spacing={2} alignItems="center" sx={{ mb: 2 }}>
+            <RangePicker time={time} range={range} setRange={setRange} />
+          </Stack>
+
+          <Typography variant="subtitle2" gutterBottom>
+            Season Calendar
+          </Typography>
+          <TableContainer component={Paper} sx={{ mb: 2, maxHeight: 300 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <StyledTableCell>Season</StyledTableCell>
+                  <StyledTableCell>Starts</StyledTableCell>
+                  <StyledTableCell>Ends</StyledTableCell>
+                  <StyledTableCell>Length</StyledTableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {seasons.map(entry => {
+                  const Row = entry === currentSeason ? CurrentSeasonRow : TableRow;
+                  // The first and last seasons are cut off by the calendar's range
+                  const startShown = entry.startTime > range.start ? formatTime(entry.startTime) : 'before';
+                  const endShown = entry.endTime < rangeEnd ? formatTime(entry.endTime) : 'after';
+                  return (
+                    <Row key={entry.startTime}>
+                      <TableCell>{SEASON_LABELS[entry.type].name}</TableCell>
+                      <TableCell>{startShown}</TableCell>
+                      <TableCell>{endShown}</TableCell>
+                      <TableCell>
+                        {startShown !== 'before' && endShown !== 'after'
+                          ? formatDuration((entry.endTime - entry.startTime) / 1000)
+                          : '-'}
+                      </TableCell>
+                    </Row>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          <Typography variant="subtitle2" gutterBottom>
+            Closest and Farthest Approaches
+          </Typography>
+          <TableContainer component={Paper} sx={{ maxHeight: 300 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <StyledTableCell>Approach</StyledTableCell>
+                  <StyledTableCell>Time</StyledTableCell>
+                  <StyledTableCell>Distance</StyledTableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {apsides.length > 0 ? (
+                  apsides.map(apsis => (
+                    <TableRow key={apsis.time}>
+                      <TableCell>{apsis.type === 'periapsis' ? 'Closest' : 'Farthest'}</TableCell>
+                      <TableCell>{formatTime(apsis.time)}</TableCell>
+                      <TableCell>{`${apsis.distance.toFixed(0)} miles`}</TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={3} align="center" sx={{ fontStyle: 'italic' }}>
+                      No closest or farthest approaches in this range
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      )}
+    </Paper>
+  );
+};
+
+export default IslandDetail;
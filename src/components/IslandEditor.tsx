@@ -1,12 +1,20 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Grid, Box, Button, Stack } from '@mui/material';
-import { Island, Epicycle } from '../utils/sim';
+import SkydriftArchipelagoSimulator, { Island, Epicycle, AltitudeOscillation } from '../utils/sim';
+import { RepeatPeriod } from '../utils/rational';
+import { WindLayer } from '../utils/windField';
+import { Vessel } from '../utils/vessels';
+import { UserEvent } from '../utils/eventTimeline';
+import { parseWorldConfig, serializeWorldConfig } from '../utils/worldConfig';
 import IslandForm from './IslandForm';
 import IslandList from './IslandList';
+import IslandDetail from './IslandDetail';
 import UploadIcon from '@mui/icons-material/Upload';
 import DownloadIcon from '@mui/icons-material/Download';
 
 interface IslandEditorProps {
+  simulator: SkydriftArchipelagoSimulator;
+  time: number;
   islands: Island[];
   islandName: string;
   setIslandName: (name: string) => void;
@@ -14,6 +22,8 @@ interface IslandEditorProps {
   setIslandColor: (color: string) => void;
   epicycles: Epicycle[];
   setEpicycles: (epicycles: Epicycle[]) => void;
+  islandAltitude: AltitudeOscillation | undefined;
+  setIslandAltitude: (altitude: AltitudeOscillation | undefined) => void;
   addIsland: () => void;
   editMode: boolean;
   resetIslandForm: () => void;
@@ -21,10 +31,20 @@ interface IslandEditorProps {
   editIsland: (island: Island) => void;
   deleteIsland: (islandId: number) => void;
   calculateMilesRadius: (period: number) => number;
+  calculateIslandRepeatPeriod: (island: Island) => RepeatPeriod;
+  archipelagoRepeatPeriod: RepeatPeriod;
   setIslands: (islands: Island[]) => void;
+  windLayers: WindLayer[];
+  setWindLayers: (layers: WindLayer[]) => void;
+  vessels: Vessel[];
+  setVessels: (vessels: Vessel[]) => void;
+  userEvents: UserEvent[];
+  setUserEvents: (events: UserEvent[]) => void;
 }
 
 const IslandEditor: React.FC<IslandEditorProps> = ({
+  simulator,
+  time,
   islands,
   islandName,
   setIslandName,
@@ -32,6 +52,8 @@ const IslandEditor: React.FC<IslandEditorProps> = ({
   setIslandColor,
   epicycles,
   setEpicycles,
+  islandAltitude,
+  setIslandAltitude,
   addIsland,
   editMode,
   resetIslandForm,
@@ -39,12 +61,24 @@ const IslandEditor: React.FC<IslandEditorProps> = ({
   editIsland,
   deleteIsland,
   calculateMilesRadius,
-  setIslands
+  calculateIslandRepeatPeriod,
+  archipelagoRepeatPeriod,
+  setIslands,
+  windLayers,
+  setWindLayers,
+  vessels,
+  setVessels,
+  userEvents,
+  setUserEvents
 }) => {
+  // Island whose seasons and approaches to the centre are shown
+  const [selectedIslandId, setSelectedIslandId] = useState<number | null>(null);
+  const selectedIsland = islands.find(island => island.id === selectedIslandId);
+  
   // Create file input ref for the upload functionality
   const fileInputRef = React.useRef<HTMLInputElement>(null);
   
-  // Handle file upload for importing islands
+  // Handle file upload for importing a world (islands, wind layers, vessels and events)
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -53,7 +87,12 @@ const IslandEditor: React.FC<IslandEditorProps> = ({
     reader.onload = (e) => {
       try {
         const jsonData = e.target?.result as string;
-        const importedIslands = JSON.parse(jsonData) as Island[];
+        const {
+          islands: importedIslands,
+          windLayers: importedWindLayers,
+          vessels: importedVessels,
+          events: importedEvents
+        } = parseWorldConfig(JSON.parse(jsonData));
         
         // Ensure imported data has required Island structure
         if (Array.isArray(importedIslands) && importedIslands.length > 0) {
@@ -66,6 +105,9 @@ const IslandEditor: React.FC<IslandEditorProps> = ({
           
           if (validIslands.length > 0) {
             setIslands(validIslands);
+            setWindLayers(importedWindLayers);
+            setVessels(importedVessels);
+            setUserEvents(importedEvents);
           } else {
             alert('Invalid island data format');
           }
@@ -85,10 +127,10 @@ const IslandEditor: React.FC<IslandEditorProps> = ({
     reader.readAsText(file);
   };
   
-  // Handle downloading islands as JSON
+  // Handle downloading the world (islands, wind layers, vessels and events) as JSON
   const handleDownloadIslands = () => {
-    // Create a JSON string from the islands
-    const jsonData = JSON.stringify(islands, null, 2);
+    // Create a JSON string from the world
+    const jsonData = serializeWorldConfig({ islands, windLayers, vessels, events: userEvents });
     
     // Create a blob from the JSON data
     const blob = new Blob([jsonData], { type: 'application/json' });
@@ -99,7 +141,7 @@ const IslandEditor: React.FC<IslandEditorProps> = ({
     // Create a temporary anchor element and trigger download
     const link = document.createElement('a');
     link.href = url;
-    link.download = 'skydrift-islands.json';
+    link.download = 'skydrift-world.json';
     document.body.appendChild(link);
     link.click();
     
@@ -119,7 +161,7 @@ const IslandEditor: React.FC<IslandEditorProps> = ({
               startIcon={<UploadIcon />}
               onClick={() => fileInputRef.current?.click()}
             >
-              Import Islands
+              Import World
             </Button>
             <Button
               variant="outlined"
@@ -127,7 +169,7 @@ const IslandEditor: React.FC<IslandEditorProps> = ({
               onClick={handleDownloadIslands}
               disabled={islands.length === 0}
             >
-              Export Islands
+              Export World
             </Button>
             
             {/* Hidden file input for upload */}
@@ -147,6 +189,8 @@ const IslandEditor: React.FC<IslandEditorProps> = ({
           setIslandColor={setIslandColor}
           epicycles={epicycles}
           setEpicycles={setEpicycles}
+          islandAltitude={islandAltitude}
+          setIslandAltitude={setIslandAltitude}
           addIsland={addIsland}
           editMode={editMode}
           resetIslandForm={resetIslandForm}
@@ -161,7 +205,21 @@ const IslandEditor: React.FC<IslandEditorProps> = ({
           toggleIslandVisibility={toggleIslandVisibility}
           editIsland={editIsland}
           deleteIsland={deleteIsland}
+          calculateIslandRepeatPeriod={calculateIslandRepeatPeriod}
+          archipelagoRepeatPeriod={archipelagoRepeatPeriod}
+          calculateSeason={(island) => simulator.calculateSeason(island, time)}
+          selectedIslandId={selectedIslandId}
+          selectIsland={setSelectedIslandId}
         />
+        {selectedIsland && (
+          <IslandDetail
+            key={selectedIsland.id}
+            simulator={simulator}
+            island={selectedIsland}
+            time={time}
+            onClose={() => setSelectedIslandId(null)}
+          />
+        )}
       </Grid>
     </Grid>
   );
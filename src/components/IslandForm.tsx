@@ -2,6 +2,8 @@ import React from 'react';
 import {
   Box,
   Button,
+  Checkbox,
+  FormControlLabel,
   Stack,
   TextField,
   Typography
@@ -9,7 +11,7 @@ import {
 import AddIcon from '@mui/icons-material/Add';
 import RemoveIcon from '@mui/icons-material/Remove';
 import EditIcon from '@mui/icons-material/Edit';
-import { Epicycle } from '../utils/sim';
+import { Epicycle, AltitudeOscillation, MAX_ECCENTRICITY } from '../utils/sim';
 
 interface IslandFormProps {
   islandName: string;
@@ -18,6 +20,8 @@ interface IslandFormProps {
   setIslandColor: (color: string) => void;
   epicycles: Epicycle[];
   setEpicycles: (epicycles: Epicycle[]) => void;
+  islandAltitude: AltitudeOscillation | undefined;
+  setIslandAltitude: (altitude: AltitudeOscillation | undefined) => void;
   addIsland: () => void;
   editMode: boolean;
   resetIslandForm: () => void;
@@ -31,13 +35,15 @@ const IslandForm: React.FC<IslandFormProps> = ({
   setIslandColor,
   epicycles,
   setEpicycles,
+  islandAltitude,
+  setIslandAltitude,
   addIsland,
   editMode,
   resetIslandForm,
   calculateMilesRadius
 }) => {
   
-  // Update epicycle value to handle both period and radius
+  // Update epicycle value to handle period, radius, phase and ellipse shape
   const updateEpicycle = (index: number, field: string, value: string): void => {
     const updatedEpicycles = [...epicycles];
     if (field === 'period') {
@@ -45,33 +51,97 @@ const IslandForm: React.FC<IslandFormProps> = ({
       if (!isNaN(period) && period !== 0) {
         updatedEpicycles[index].period = period;
       }
+    } else if (field === 'phase') {
+      const phase = parseFloat(value);
+      if (!isNaN(phase)) {
+        updatedEpicycles[index].phase = phase;
+      }
+    } else if (field === 'eccentricity') {
+      const eccentricity = parseFloat(value);
+      if (!isNaN(eccentricity)) {
+        updatedEpicycles[index].eccentricity = Math.min(Math.max(eccentricity, 0), MAX_ECCENTRICITY);
+      }
+    } else if (field === 'orientation') {
+      const orientation = parseFloat(value);
+      if (!isNaN(orientation)) {
+        updatedEpicycles[index].orientation = orientation;
+      }
     } else if (field === 'radius') {
       const radius = parseFloat(value);
       if (!isNaN(radius) && radius !== 0) {
-        // Calculate period from radius
-        const period = Math.pow(radius / 672, 3/2) * 365;
-        updatedEpicycles[index].period = period;
+        if (updatedEpicycles[index].radius !== undefined) {
+          // Custom radius - set it directly, independent of the period
+          updatedEpicycles[index].radius = Math.abs(radius);
+        } else {
+          // Calculate period from radius
+          const period = Math.pow(radius / 672, 3/2) * 365;
+          updatedEpicycles[index].period = period;
+        }
       }
     }
     setEpicycles(updatedEpicycles);
   };
 
+  // Toggle between a custom radius and the radius derived from the period
+  const toggleCustomRadius = (index: number, custom: boolean): void => {
+    const updatedEpicycles = [...epicycles];
+    if (custom) {
+      // Start from the radius the period currently implies
+      updatedEpicycles[index].radius = parseFloat(calculateMilesRadius(updatedEpicycles[index].period).toFixed(1));
+    } else {
+      delete updatedEpicycles[index].radius;
+    }
+    setEpicycles(updatedEpicycles);
+  };
+
+  // Radius to display for an epicycle (custom or derived from period)
+  const getDisplayRadius = (epicycle: Epicycle): number => {
+    return epicycle.radius !== undefined ? epicycle.radius : calculateMilesRadius(epicycle.period);
+  };
+
   // Format the value on blur
   const formatValueOnBlur = (index: number, field: string): void => {
     const updatedEpicycles = [...epicycles];
     if (field === 'period') {
       updatedEpicycles[index].period = parseFloat(updatedEpicycles[index].period.toFixed(1));
+    } else if (field === 'phase') {
+      // Normalize phase to the range [0, 360)
+      const phase = updatedEpicycles[index].phase || 0;
+      updatedEpicycles[index].phase = parseFloat((((phase % 360) + 360) % 360).toFixed(1));
+    } else if (field === 'orientation') {
+      // Normalize orientation to the range [0, 180) since an ellipse is symmetric
+      const orientation = updatedEpicycles[index].orientation || 0;
+      updatedEpicycles[index].orientation = parseFloat((((orientation % 180) + 180) % 180).toFixed(1));
     } else if (field === 'radius') {
-      const radius = calculateMilesRadius(updatedEpicycles[index].period);
-      updatedEpicycles[index].period = Math.pow(radius / 672, 3/2) * 365;
+      if (updatedEpicycles[index].radius !== undefined) {
+        updatedEpicycles[index].radius = parseFloat((updatedEpicycles[index].radius as number).toFixed(1));
+      } else {
+        const radius = calculateMilesRadius(updatedEpicycles[index].period);
+        updatedEpicycles[index].period = Math.pow(radius / 672, 3/2) * 365;
+      }
     }
     setEpicycles(updatedEpicycles);
   };
 
+  // Update a field of the island's vertical oscillation
+  const updateAltitude = (field: keyof AltitudeOscillation, value: string): void => {
+    if (!islandAltitude) return;
+    const parsed = parseFloat(value);
+    if (isNaN(parsed)) return;
+    if (field === 'period' && parsed <= 0) return;
+    setIslandAltitude({ ...islandAltitude, [field]: field === 'amplitude' ? Math.abs(parsed) : parsed });
+  };
+
+  // Enable or disable vertical oscillation for the island
+  const toggleAltitude = (enabled: boolean): void => {
+    setIslandAltitude(enabled ? { base: 1, amplitude: 0.5, period: 30, phase: 0 } : undefined);
+  };
+
   // Add a new epicycle to the form
   const addEpicycle = (): void => {
     setEpicycles([...epicycles, {
-      period: 5
+      period: 5,
+      phase: 0
     }]);
   };
   
@@ -133,6 +203,7 @@ const IslandForm: React.FC<IslandFormProps> = ({
               key={`epicycle-form-${index}`} 
               sx={{ 
                 display: 'flex', 
+                flexWrap: 'wrap',
                 alignItems: 'center', 
                 gap: 2, 
                 borderLeft: '4px solid', 
@@ -162,7 +233,7 @@ const IslandForm: React.FC<IslandFormProps> = ({
                 <TextField
                   type="number"
                   size="small"
-                  value={calculateMilesRadius(epicycle.period).toFixed(1)}
+                  value={getDisplayRadius(epicycle).toFixed(1)}
                   onChange={(e) => updateEpicycle(index, 'radius', e.target.value)}
                   onBlur={() => formatValueOnBlur(index, 'radius')}
                   inputProps={{ step: "0.1" }}
@@ -170,11 +241,121 @@ const IslandForm: React.FC<IslandFormProps> = ({
                   sx={{ width: 100 }}
                 />
               </Box>
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    size="small"
+                    checked={epicycle.radius !== undefined}
+                    onChange={(e) => toggleCustomRadius(index, e.target.checked)}
+                  />
+                }
+                label={<Typography variant="caption">Custom radius</Typography>}
+              />
+              <Box>
+                <Typography variant="caption" display="block">Eccentricity</Typography>
+                <TextField
+                  type="number"
+                  size="small"
+                  value={epicycle.eccentricity || 0}
+                  onChange={(e) => updateEpicycle(index, 'eccentricity', e.target.value)}
+                  inputProps={{ step: "0.05", min: 0, max: MAX_ECCENTRICITY }}
+                  placeholder="Eccentricity"
+                  sx={{ width: 100 }}
+                />
+              </Box>
+              <Box>
+                <Typography variant="caption" display="block">Orientation (degrees)</Typography>
+                <TextField
+                  type="number"
+                  size="small"
+                  value={epicycle.orientation || 0}
+                  onChange={(e) => updateEpicycle(index, 'orientation', e.target.value)}
+                  onBlur={() => formatValueOnBlur(index, 'orientation')}
+                  inputProps={{ step: "15" }}
+                  placeholder="Orientation"
+                  sx={{ width: 100 }}
+                  disabled={!epicycle.eccentricity}
+                />
+              </Box>
+              <Box>
+                <Typography variant="caption" display="block">Phase (degrees)</Typography>
+                <TextField
+                  type="number"
+                  size="small"
+                  value={epicycle.phase || 0}
+                  onChange={(e) => updateEpicycle(index, 'phase', e.target.value)}
+                  onBlur={() => formatValueOnBlur(index, 'phase')}
+                  inputProps={{ step: "15" }}
+                  placeholder="Phase"
+                  sx={{ width: 100 }}
+                />
+              </Box>
             </Box>
           ))}
         </Stack>
       </Box>
       
+      <Box sx={{ mb: 2 }}>
+        <FormControlLabel
+          control={
+            <Checkbox
+              size="small"
+              checked={islandAltitude !== undefined}
+              onChange={(e) => toggleAltitude(e.target.checked)}
+            />
+          }
+          label={<Typography variant="body2" fontWeight="medium">Vertical oscillation</Typography>}
+        />
+        {islandAltitude && (
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2, pl: 2, py: 1 }}>
+            <Box>
+              <Typography variant="caption" display="block">Base altitude (miles)</Typography>
+              <TextField
+                type="number"
+                size="small"
+                value={islandAltitude.base || 0}
+                onChange={(e) => updateAltitude('base', e.target.value)}
+                inputProps={{ step: "0.1" }}
+                sx={{ width: 100 }}
+              />
+            </Box>
+            <Box>
+              <Typography variant="caption" display="block">Amplitude (miles)</Typography>
+              <TextField
+                type="number"
+                size="small"
+                value={islandAltitude.amplitude}
+                onChange={(e) => updateAltitude('amplitude', e.target.value)}
+                inputProps={{ step: "0.1", min: 0 }}
+                sx={{ width: 100 }}
+              />
+            </Box>
+            <Box>
+              <Typography variant="caption" display="block">Period (days)</Typography>
+              <TextField
+                type="number"
+                size="small"
+                value={islandAltitude.period}
+                onChange={(e) => updateAltitude('period', e.target.value)}
+                inputProps={{ step: "1", min: 0 }}
+                sx={{ width: 100 }}
+              />
+            </Box>
+            <Box>
+              <Typography variant="caption" display="block">Phase (degrees)</Typography>
+              <TextField
+                type="number"
+                size="small"
+                value={islandAltitude.phase || 0}
+                onChange={(e) => updateAltitude('phase', e.target.value)}
+                inputProps={{ step: "15" }}
+                sx={{ width: 100 }}
+              />
+            </Box>
+          </Box>
+        )}
+      </Box>
+      
       <Stack direction="row" spacing={2}>
         <Button
           variant="contained"
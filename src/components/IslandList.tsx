@@ -2,6 +2,7 @@ import React from 'react';
 import {
   Box,
   Button,
+  Chip,
   Paper,
   Stack,
   Typography
@@ -10,26 +11,51 @@ import EditIcon from '@mui/icons-material/Edit';
 import DeleteIcon from '@mui/icons-material/Delete';
 import VisibilityIcon from '@mui/icons-material/Visibility';
 import VisibilityOffIcon from '@mui/icons-material/VisibilityOff';
-import { Island } from '../utils/sim';
+import InfoIcon from '@mui/icons-material/Info';
+import { Island, IslandSeasonType } from '../utils/sim';
+import { RepeatPeriod } from '../utils/rational';
+import { formatDuration } from '../utils/timeFormat';
+import { SEASON_LABELS } from './IslandDetail';
 
 interface IslandListProps {
   islands: Island[];
   toggleIslandVisibility: (islandId: number) => void;
   editIsland: (island: Island) => void;
   deleteIsland: (islandId: number) => void;
+  calculateIslandRepeatPeriod: (island: Island) => RepeatPeriod;
+  archipelagoRepeatPeriod: RepeatPeriod;
+  calculateSeason: (island: Island) => IslandSeasonType | null;  // Season at the current time
+  selectedIslandId: number | null;                               // Island whose details are shown
+  selectIsland: (islandId: number | null) => void;
 }
 
+// Describe when a motion repeats, e.g. "Repeats every 2 years"
+const describeRepeatPeriod = (repeatPeriod: RepeatPeriod): string => {
+  if (!repeatPeriod.repeating || repeatPeriod.period === null) {
+    return "Effectively non-repeating";
+  }
+  return `Repeats every ${formatDuration(repeatPeriod.period)}${repeatPeriod.approximated ? " (approx.)" : ""}`;
+};
+
 const IslandList: React.FC<IslandListProps> = ({
   islands,
   toggleIslandVisibility,
   editIsland,
-  deleteIsland
+  deleteIsland,
+  calculateIslandRepeatPeriod,
+  archipelagoRepeatPeriod,
+  calculateSeason,
+  selectedIslandId,
+  selectIsland
 }) => {
   return (
     <Box>
       <Typography variant="subtitle1" fontWeight="medium" gutterBottom>
         Island List
       </Typography>
+      <Typography variant="body2" color="text.secondary" gutterBottom>
+        Whole sky: {describeRepeatPeriod(archipelagoRepeatPeriod).toLowerCase()}
+      </Typography>
       <Stack 
         spacing={1.5} 
         sx={{ 
@@ -38,60 +64,80 @@ const IslandList: React.FC<IslandListProps> = ({
           pr: 1
         }}
       >
-        {islands.map((island) => (
-          <Paper 
-            key={`list-${island.id}`} 
-            variant="outlined"
-            sx={{ p: 2, display: 'flex', alignItems: 'center' }}
-          >
-            <Box sx={{ display: 'flex', alignItems: 'center', mr: 2 }}>
-              <Button
-                size="small"
-                onClick={() => toggleIslandVisibility(island.id)}
-                sx={{ minWidth: 'auto', p: 0.5 }}
-              >
-                {island.visible ? 
-                  <VisibilityIcon fontSize="small" /> : 
-                  <VisibilityOffIcon fontSize="small" color="disabled" />
-                }
-              </Button>
-              <Box 
-                sx={{ 
-                  width: 16, 
-                  height: 16, 
-                  borderRadius: '50%', 
-                  bgcolor: island.color,
-                  ml: 1
-                }}
-              />
-            </Box>
-            <Box sx={{ flexGrow: 1 }}>
-              <Typography variant="body1" fontWeight="medium">
-                {island.name}
-              </Typography>
-            </Box>
-            <Stack direction="row" spacing={1}>
-              <Button 
-                variant="contained"
-                color="primary"
-                size="small"
-                onClick={() => editIsland(island)}
-                startIcon={<EditIcon />}
-              >
-                Edit
-              </Button>
-              <Button 
-                variant="contained"
-                color="error"
-                size="small"
-                onClick={() => deleteIsland(island.id)}
-                startIcon={<DeleteIcon />}
-              >
-                Delete
-              </Button>
-            </Stack>
-          </Paper>
-        ))}
+        {islands.map((island) => {
+          const season = calculateSeason(island);
+          return (
+            <Paper 
+              key={`list-${island.id}`} 
+              variant="outlined"
+              sx={{ p: 2, display: 'flex', alignItems: 'center', borderColor: island.id === selectedIslandId ? 'primary.main' : undefined }}
+            >
+              <Box sx={{ display: 'flex', alignItems: 'center', mr: 2 }}>
+                <Button
+                  size="small"
+                  onClick={() => toggleIslandVisibility(island.id)}
+                  sx={{ minWidth: 'auto', p: 0.5 }}
+                >
+                  {island.visible ? 
+                    <VisibilityIcon fontSize="small" /> : 
+                    <VisibilityOffIcon fontSize="small" color="disabled" />
+                  }
+                </Button>
+                <Box 
+                  sx={{ 
+                    width: 16, 
+                    height: 16, 
+                    borderRadius: '50%', 
+                    bgcolor: island.color,
+                    ml: 1
+                  }}
+                />
+              </Box>
+              <Box sx={{ flexGrow: 1 }}>
+                <Stack direction="row" spacing={1} alignItems="center">
+                  <Typography variant="body1" fontWeight="medium">
+                    {island.name}
+                  </Typography>
+                  {season !== null && (
+                    <Chip size="small" label={SEASON_LABELS[season].name} color={SEASON_LABELS[season].color} variant="outlined" />
+                  )}
+                </Stack>
+                <Typography variant="caption" color="text.secondary">
+                  {describeRepeatPeriod(calculateIslandRepeatPeriod(island))}
+                </Typography>
+              </Box>
+              <Stack direction="row" spacing={1}>
+                <Button 
+                  variant={island.id === selectedIslandId ? 'contained' : 'outlined'}
+                  color="primary"
+                  size="small"
+                  onClick={() => selectIsland(island.id === selectedIslandId ? null : island.id)}
+                  startIcon={<InfoIcon />}
+                >
+                  Details
+                </Button>
+                <Button 
+                  variant="contained"
+                  color="primary"
+                  size="small"
+                  onClick={() => editIsland(island)}
+                  startIcon={<EditIcon />}
+                >
+                  Edit
+                </Button>
+                <Button 
+                  variant="contained"
+                  color="error"
+                  size="small"
+                  onClick={() => deleteIsland(island.id)}
+                  startIcon={<DeleteIcon />}
+                >
+                  Delete
+                </Button>
+              </Stack>
+            </Paper>
+          );
+        })}
       </Stack>
     </Box>
   );
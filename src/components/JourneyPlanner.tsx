@@ -1,4 +1,4 @@
-import React, { useCallback } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   Box,
   Button,
@@ -17,8 +17,22 @@ import {
 } from '@mui/material';
 import AddIcon from '@mui/icons-material/Add';
 import DeleteIcon from '@mui/icons-material/Delete';
-import { Island, Journey } from '../utils/sim';
-import { formatTime, formatDuration } from '../utils/timeFormat';
+import {
+  Island,
+  Journey,
+  JourneyPathModel,
+  JOURNEY_PATH_MODELS,
+  DepartureWindow,
+  DepartureOption,
+  LatestDeparture,
+  ClosePass,
+  Itinerary,
+  ItineraryPlan
+} from '../utils/sim';
+import { formatTime, formatDuration, parseTimeString } from '../utils/timeFormat';
+import DepartureWindowChart from './DepartureWindowChart';
+import RouteFinder, { RouteSearchResult, DEFAULT_ROUTE_SEARCH_PARAMS } from '../utils/routeFinder';
+import { Vessel, findVessel, summarizeVoyage } from '../utils/vessels';
 
 interface JourneyPlannerProps {
   islands: Island[];
@@ -29,6 +43,23 @@ interface JourneyPlannerProps {
   setDestinationIslandId: (id: number | null) => void;
   journeySpeed: number;
   setJourneySpeed: (speed: number) => void;
+  vessels: Vessel[];
+  vesselId: number | null;
+  setVesselId: (id: number | null) => void;
+  departureTime: number | null;
+  setDepartureTime: (time: number | null) => void;
+  journeyPathModel: JourneyPathModel;
+  setJourneyPathModel: (pathModel: JourneyPathModel) => void;
+  comparePathModels: boolean;
+  setComparePathModels: (compare: boolean) => void;
+  pathModelComparison: Journey[];
+  closePasses: ClosePass[];
+  closePassDistance: number;
+  setClosePassDistance: (distance: number) => void;
+  roundTripStay: number | null;
+  setRoundTripStay: (stayDays: number | null) => void;
+  roundTrip: Itinerary | null;
+  addRoundTrip: () => void;
   activeJourney: Journey | null;
   clearJourney: () => void;
   setSourceIslandIdAndCalculate: (id: number | null) => void;
@@ -36,6 +67,14 @@ interface JourneyPlannerProps {
   activeJourneys: Journey[];
   addActiveJourney: () => void;
   deleteJourney: (id: number) => void;
+  itineraryPlan: ItineraryPlan | null;
+  plannedItinerary: Itinerary | null;
+  addItineraryLeg: (layoverDays: number) => void;
+  clearItineraryPlan: () => void;
+  proposeItinerary: (plan: ItineraryPlan, departureTime: number) => void;
+  itineraries: Itinerary[];
+  addItinerary: () => void;
+  deleteItinerary: (id: number) => void;
   simulator: any;
   time: number;
 }
@@ -47,6 +86,23 @@ const JourneyPlanner: React.FC<JourneyPlannerProps> = ({
   destinationIslandId,
   journeySpeed,
   setJourneySpeed,
+  vessels,
+  vesselId,
+  setVesselId,
+  departureTime,
+  setDepartureTime,
+  journeyPathModel,
+  setJourneyPathModel,
+  comparePathModels,
+  setComparePathModels,
+  pathModelComparison,
+  closePasses,
+  closePassDistance,
+  setClosePassDistance,
+  roundTripStay,
+  setRoundTripStay,
+  roundTrip,
+  addRoundTrip,
   activeJourney,
   clearJourney,
   setSourceIslandIdAndCalculate,
@@ -54,6 +110,14 @@ const JourneyPlanner: React.FC<JourneyPlannerProps> = ({
   activeJourneys,
   addActiveJourney,
   deleteJourney,
+  itineraryPlan,
+  plannedItinerary,
+  addItineraryLeg,
+  clearItineraryPlan,
+  proposeItinerary,
+  itineraries,
+  addItinerary,
+  deleteItinerary,
   simulator,
   time
 }) => {
@@ -62,12 +126,159 @@ const JourneyPlanner: React.FC<JourneyPlannerProps> = ({
     setJourneySpeed(newSpeed);
   }, [setJourneySpeed]);
 
+  const vessel = findVessel(vessels, vesselId);
+
+  // Supplies, cost and range of the predicted journey and the planned itinerary
+  const journeySummary = activeJourney ? summarizeVoyage([activeJourney], vessels) : null;
+  const itinerarySummary = plannedItinerary ? summarizeVoyage(plannedItinerary.legs, vessels) : null;
+  const roundTripSummary = roundTrip ? summarizeVoyage(roundTrip.legs, vessels) : null;
+
+  // Departure input; an empty field departs at the current time
+  const [departureInput, setDepartureInput] = useState(departureTime !== null ? formatTime(departureTime) : '');
+  const [departureError, setDepartureError] = useState('');
+
+  // Keep the input in sync when the departure time is changed elsewhere
+  useEffect(() => {
+    setDepartureInput(departureTime !== null ? formatTime(departureTime) : '');
+  }, [departureTime]);
+
+  // Validate and apply the departure input
+  const handleDepartureBlur = () => {
+    if (departureInput.trim() === '') {
+      setDepartureTime(null);
+      setDepartureError('');
+      return;
+    }
+
+    const parsedTime = parseTimeString(departureInput.trim());
+    if (parsedTime !== null) {
+      setDepartureTime(parsedTime);
+      setDepartureInput(formatTime(parsedTime));
+      setDepartureError('');
+    } else {
+      setDepartureError('Invalid date format. Use yyyy-mm-dd [h]h');
+    }
+  };
+
+  const handleDepartureKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleDepartureBlur();
+    }
+  };
+
+  // "Arrive by" mode solves for the latest departure that meets a deadline
+  const [timingMode, setTimingMode] = useState<'depart' | 'arriveBy'>('depart');
+  const [arriveByInput, setArriveByInput] = useState('');
+  const [arriveBy, setArriveBy] = useState<number | null>(null);
+  const [arriveByError, setArriveByError] = useState('');
+  const [latestDeparture, setLatestDeparture] = useState<LatestDeparture | null>(null);
+
+  // Validate and apply the deadline input
+  const handleArriveByBlur = () => {
+    const parsedTime = parseTimeString(arriveByInput.trim());
+    if (parsedTime !== null) {
+      setArriveBy(parsedTime);
+      setArriveByInput(formatTime(parsedTime));
+      setArriveByError('');
+    } else {
+      setArriveBy(null);
+      setArriveByError('Invalid date format. Use yyyy-mm-dd [h]h');
+    }
+  };
+
+  const handleArriveByKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleArriveByBlur();
+    }
+  };
+
+  // Solve for the latest departure whenever the deadline or route changes.
+  // The search starts from the simulator's current time.
+  useEffect(() => {
+    if (timingMode !== 'arriveBy' || arriveBy === null || sourceIslandId === null || destinationIslandId === null) {
+      setLatestDeparture(null);
+      return;
+    }
+
+    const result: LatestDeparture | null = simulator.calculateLatestDeparture(
+      sourceIslandId, destinationIslandId, journeySpeed, arriveBy, undefined, journeyPathModel
+    );
+    setLatestDeparture(result);
+    if (result && result.feasible && result.departureTime !== null) {
+      setDepartureTime(result.departureTime);
+    }
+  }, [timingMode, arriveBy, sourceIslandId, destinationIslandId, journeySpeed, journeyPathModel, simulator, setDepartureTime]);
+
+  // Departure window search
+  const [windowDays, setWindowDays] = useState(365);
+  const [departureWindow, setDepartureWindow] = useState<DepartureWindow | null>(null);
+
+  // Fastest route search
+  const [maxHops, setMaxHops] = useState(DEFAULT_ROUTE_SEARCH_PARAMS.maxHops);
+  const [maxWaitDays, setMaxWaitDays] = useState(DEFAULT_ROUTE_SEARCH_PARAMS.maxWaitDays);
+  const [fastestRoute, setFastestRoute] = useState<RouteSearchResult | null>(null);
+
+  // A window or route only applies to the islands, speed and path model it was calculated for
+  useEffect(() => {
+    setDepartureWindow(null);
+    setFastestRoute(null);
+  }, [sourceIslandId, destinationIslandId, journeySpeed, journeyPathModel, vesselId]);
+
+  const findFastestRoute = () => {
+    if (sourceIslandId === null || destinationIslandId === null) return;
+    const routeFinder = new RouteFinder(islands.filter(island => island.visible), simulator.getWindLayers());
+    setFastestRoute(routeFinder.findFastestRoute({
+      sourceId: sourceIslandId,
+      targetId: destinationIslandId,
+      departureTime: departureTime ?? time,
+      speed: journeySpeed,
+      maxHops,
+      maxWaitDays,
+      pathModel: journeyPathModel,
+      maxLegDays: vessel?.maxDays,
+      vesselId: vessel?.id
+    }));
+  };
+
+  const findDepartureWindow = () => {
+    if (sourceIslandId === null || destinationIslandId === null) return;
+    setDepartureWindow(
+      simulator.calculateDepartureWindow(
+        sourceIslandId, destinationIslandId, journeySpeed, windowDays, time, undefined, journeyPathModel
+      )
+    );
+  };
+
+  const selectDeparture = (option: DepartureOption) => {
+    setDepartureTime(option.departureTime);
+  };
+
   // Helper to get island name
   const getIslandName = (islandId: number): string => {
     const island = islands.find(i => i.id === islandId);
     return island ? island.name : 'Unknown';
   };
 
+  // Helper to get a path model's display name
+  const getPathModelName = (pathModel: JourneyPathModel): string => {
+    return JOURNEY_PATH_MODELS.find(model => model.id === pathModel)?.name ?? pathModel;
+  };
+
+  // Helper to get a vessel's display name
+  const getVesselName = (id: number | undefined): string => {
+    return findVessel(vessels, id)?.name ?? 'Custom';
+  };
+
+  // Itinerary leg layover (days at the leg's destination before the next leg departs)
+  const [layoverDays, setLayoverDays] = useState(0);
+
+  // Helper to describe an itinerary's route, e.g. "Aetheria → Sylvanis → Aetheria"
+  const describeRoute = (itinerary: Itinerary): string => {
+    return [itinerary.sourceId, ...itinerary.legs.map(leg => leg.destinationId)]
+      .map(getIslandName)
+      .join(' → ');
+  };
+
   // Helper to get journey progress
   const getJourneyProgress = (journey: Journey) => {
     return simulator.getJourneyProgress(journey);
@@ -204,32 +415,187 @@ const JourneyPlanner: React.FC<JourneyPlannerProps> = ({
             variant="outlined" 
             sx={{ 
               p: 2,
-              height: 200,
+              minHeight: 200,
               display: 'flex',
               flexDirection: 'column'
             }}
           >
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+              {vessels.map(option => (
+                <Chip
+                  key={option.id}
+                  label={option.name}
+                  title={`${option.speed} mph, ${option.maxDays} day range, ${option.costPerDay}/day, ${option.capacity} passengers`}
+                  size="small"
+                  clickable
+                  color={vesselId === option.id ? 'primary' : 'default'}
+                  variant={vesselId === option.id ? 'filled' : 'outlined'}
+                  onClick={() => setVesselId(option.id)}
+                />
+              ))}
+              <Chip
+                label="Custom"
+                size="small"
+                clickable
+                color={vessel === null ? 'primary' : 'default'}
+                variant={vessel === null ? 'filled' : 'outlined'}
+                onClick={() => setVesselId(null)}
+              />
+            </Box>
+            
             <TextField
               label="Speed (mph)"
               type="number"
               value={journeySpeed}
               onChange={handleSpeedChange}
               inputProps={{ min: 1 }}
+              disabled={vessel !== null}
+              helperText={vessel ? `${vessel.name} cruise speed, ${vessel.maxDays} day range` : undefined}
               size="small"
               sx={{ width: '100%', mb: 2 }}
             />
             
+            <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+              <Chip
+                label="Depart at"
+                size="small"
+                clickable
+                color={timingMode === 'depart' ? 'primary' : 'default'}
+                variant={timingMode === 'depart' ? 'filled' : 'outlined'}
+                onClick={() => setTimingMode('depart')}
+              />
+              <Chip
+                label="Arrive by"
+                size="small"
+                clickable
+                color={timingMode === 'arriveBy' ? 'primary' : 'default'}
+                variant={timingMode === 'arriveBy' ? 'filled' : 'outlined'}
+                onClick={() => setTimingMode('arriveBy')}
+              />
+            </Box>
+            
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+              {JOURNEY_PATH_MODELS.map(model => (
+                <Chip
+                  key={model.id}
+                  label={model.name}
+                  title={model.description}
+                  size="small"
+                  clickable
+                  color={journeyPathModel === model.id ? 'primary' : 'default'}
+                  variant={journeyPathModel === model.id ? 'filled' : 'outlined'}
+                  onClick={() => setJourneyPathModel(model.id)}
+                />
+              ))}
+              <Chip
+                label="Compare"
+                size="small"
+                clickable
+                color={comparePathModels ? 'secondary' : 'default'}
+                variant={comparePathModels ? 'filled' : 'outlined'}
+                onClick={() => setComparePathModels(!comparePathModels)}
+              />
+            </Box>
+            
+            <Box sx={{ display: 'flex', gap: 1, mb: 2, alignItems: 'center' }}>
+              <Chip
+                label="One way"
+                size="small"
+                clickable
+                color={roundTripStay === null ? 'primary' : 'default'}
+                variant={roundTripStay === null ? 'filled' : 'outlined'}
+                onClick={() => setRoundTripStay(null)}
+              />
+              <Chip
+                label="Round trip"
+                size="small"
+                clickable
+                color={roundTripStay !== null ? 'primary' : 'default'}
+                variant={roundTripStay !== null ? 'filled' : 'outlined'}
+                onClick={() => roundTripStay === null && setRoundTripStay(1)}
+              />
+              {roundTripStay !== null && (
+                <TextField
+                  label="Stay (days)"
+                  type="number"
+                  value={roundTripStay}
+                  onChange={(e) => setRoundTripStay(Math.max(0, parseFloat(e.target.value) || 0))}
+                  inputProps={{ min: 0, step: 0.5 }}
+                  size="small"
+                  sx={{ width: 110 }}
+                />
+              )}
+            </Box>
+            
+            {timingMode === 'depart' ? (
+              <TextField
+                label="Departure (yyyy-mm-dd [h]h)"
+                placeholder="Now"
+                value={departureInput}
+                onChange={(e) => {
+                  setDepartureInput(e.target.value);
+                  setDepartureError('');
+                }}
+                onBlur={handleDepartureBlur}
+                onKeyPress={handleDepartureKeyPress}
+                error={!!departureError}
+                helperText={departureError || (departureTime === null ? 'Leave empty to depart now' : undefined)}
+                InputLabelProps={{ shrink: true }}
+                size="small"
+                sx={{ width: '100%', mb: 2 }}
+              />
+            ) : (
+              <TextField
+                label="Arrive by (yyyy-mm-dd [h]h)"
+                value={arriveByInput}
+                onChange={(e) => {
+                  setArriveByInput(e.target.value);
+                  setArriveByError('');
+                }}
+                onBlur={handleArriveByBlur}
+                onKeyPress={handleArriveByKeyPress}
+                error={!!arriveByError || (latestDeparture !== null && !latestDeparture.feasible)}
+                helperText={
+                  arriveByError ||
+                  (latestDeparture === null
+                    ? 'Departs as late as possible'
+                    : latestDeparture.feasible && latestDeparture.departureTime !== null
+                      ? `Latest departure: ${formatTime(latestDeparture.departureTime)}`
+                      : latestDeparture.earliestArrival
+                        ? `Can't make it. Earliest arrival: ${formatTime(latestDeparture.earliestArrival.arrivalTime)}`
+                        : "Can't make it. The deadline has already passed")
+                }
+                InputLabelProps={{ shrink: true }}
+                size="small"
+                sx={{ width: '100%', mb: 2 }}
+              />
+            )}
+            
             {activeJourney ? (
               <Box sx={{ mt: 'auto', display: 'flex', gap: 2 }}>
-                <Button
-                  variant="contained"
-                  color="primary"
-                  startIcon={<AddIcon />}
-                  onClick={addActiveJourney}
-                  sx={{ flexGrow: 1 }}
-                >
-                  Add Journey
-                </Button>
+                {roundTripStay === null ? (
+                  <Button
+                    variant="contained"
+                    color="primary"
+                    startIcon={<AddIcon />}
+                    onClick={addActiveJourney}
+                    disabled={journeySummary !== null && journeySummary.overRangeLegs.length > 0}
+                    sx={{ flexGrow: 1 }}
+                  >
+                    Add Journey
+                  </Button>
+                ) : (
+                  <Button
+                    variant="contained"
+                    color="primary"
+                    startIcon={<AddIcon />}
+                    onClick={addRoundTrip}
+                    disabled={!roundTrip || (roundTripSummary !== null && roundTripSummary.overRangeLegs.length > 0)}
+                    sx={{ flexGrow: 1 }}
+                  >
+                    Add Round Trip
+                  </Button>
+                )}
                 <Button
                   variant="outlined"
                   color="inherit"
@@ -288,11 +654,457 @@ const JourneyPlanner: React.FC<JourneyPlannerProps> = ({
                   </Typography>
                 </Grid>
                 
+                <Grid size={{ xs: 6, md: 2 }}>
+                  <Typography variant="caption" fontWeight="medium" display="block">Departure at:</Typography>
+                  <Typography variant="body2">{formatTime(activeJourney.startTime)}</Typography>
+                </Grid>
+                
                 <Grid size={{ xs: 6, md: 2 }}>
                   <Typography variant="caption" fontWeight="medium" display="block">Arrival at:</Typography>
                   <Typography variant="body2">{formatTime(activeJourney.arrivalTime)}</Typography>
                 </Grid>
+                
+                <Grid size={{ xs: 6, md: 2 }}>
+                  <Typography variant="caption" fontWeight="medium" display="block">Path:</Typography>
+                  <Typography variant="body2">{getPathModelName(activeJourney.pathModel)}</Typography>
+                </Grid>
+                
+                <Grid size={{ xs: 6, md: 2 }}>
+                  <Typography variant="caption" fontWeight="medium" display="block">Vessel:</Typography>
+                  <Typography variant="body2">{getVesselName(activeJourney.vesselId)}</Typography>
+                </Grid>
+                
+                {journeySummary && (
+                  <Grid size={{ xs: 6, md: 2 }}>
+                    <Typography variant="caption" fontWeight="medium" display="block">Supplies:</Typography>
+                    <Typography variant="body2">
+                      {`${journeySummary.supplyDays.toFixed(1)} days`}
+                      {vessel && `, costing ${journeySummary.cost.toFixed(0)}`}
+                    </Typography>
+                  </Grid>
+                )}
               </Grid>
+              
+              {journeySummary && journeySummary.overRangeLegs.length > 0 && vessel && (
+                <Typography variant="body2" color="error" sx={{ mt: 1 }}>
+                  {`This journey is longer than the ${vessel.name}'s ${vessel.maxDays} day range. `}
+                  Pick another departure, a longer-ranged vessel, or a route with stops.
+                </Typography>
+              )}
+              
+              {comparePathModels && pathModelComparison.length > 0 && (
+                <TableContainer component={Paper} variant="outlined" sx={{ mt: 2 }}>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Path</TableCell>
+                        <TableCell>Distance</TableCell>
+                        <TableCell>Duration</TableCell>
+                        <TableCell>Arrival</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {pathModelComparison.map(journey => (
+                        <TableRow 
+                          key={journey.pathModel}
+                          hover
+                          selected={journey.pathModel === journeyPathModel}
+                          onClick={() => setJourneyPathModel(journey.pathModel)}
+                          sx={{ cursor: 'pointer' }}
+                        >
+                          <TableCell>{getPathModelName(journey.pathModel)}</TableCell>
+                          <TableCell>{journey.distance.toFixed(0)} miles</TableCell>
+                          <TableCell>{formatDuration(journey.duration)}</TableCell>
+                          <TableCell>{formatTime(journey.arrivalTime)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              )}
+              
+              {roundTrip && roundTrip.legs.length === 2 && (
+                <Box sx={{ mt: 2 }}>
+                  <Typography variant="subtitle2" gutterBottom>
+                    Round Trip
+                  </Typography>
+                  <Grid container spacing={3}>
+                    <Grid size={{ xs: 6, md: 2 }}>
+                      <Typography variant="caption" fontWeight="medium" display="block">Outbound:</Typography>
+                      <Typography variant="body2">{formatDuration(roundTrip.legs[0].duration)}</Typography>
+                    </Grid>
+                    
+                    <Grid size={{ xs: 6, md: 2 }}>
+                      <Typography variant="caption" fontWeight="medium" display="block">Stay:</Typography>
+                      <Typography variant="body2">{formatDuration(roundTrip.layovers[0])}</Typography>
+                    </Grid>
+                    
+                    <Grid size={{ xs: 6, md: 2 }}>
+                      <Typography variant="caption" fontWeight="medium" display="block">Return departs:</Typography>
+                      <Typography variant="body2">{formatTime(roundTrip.legs[1].startTime)}</Typography>
+                    </Grid>
+                    
+                    <Grid size={{ xs: 6, md: 2 }}>
+                      <Typography variant="caption" fontWeight="medium" display="block">Return:</Typography>
+                      <Typography variant="body2">
+                        {`${formatDuration(roundTrip.legs[1].duration)}, ${roundTrip.legs[1].distance.toFixed(0)} miles`}
+                      </Typography>
+                    </Grid>
+                    
+                    <Grid size={{ xs: 6, md: 2 }}>
+                      <Typography variant="caption" fontWeight="medium" display="block">Total trip:</Typography>
+                      <Typography variant="body2">{formatDuration(roundTrip.duration)}</Typography>
+                    </Grid>
+                    
+                    <Grid size={{ xs: 6, md: 2 }}>
+                      <Typography variant="caption" fontWeight="medium" display="block">Home at:</Typography>
+                      <Typography variant="body2">{formatTime(roundTrip.arrivalTime)}</Typography>
+                    </Grid>
+                  </Grid>
+                  
+                  {roundTripSummary && vessel && (
+                    <Typography variant="body2" sx={{ mt: 1 }}>
+                      {`Supplies: ${roundTripSummary.supplyDays.toFixed(1)} days, costing ${roundTripSummary.cost.toFixed(0)}`}
+                    </Typography>
+                  )}
+                  {roundTrip.legs[1].duration > roundTrip.legs[0].duration * 1.5 && (
+                    <Typography variant="body2" color="warning.main" sx={{ mt: 1 }}>
+                      {`The islands drift apart during the stay: the return takes ${formatDuration(roundTrip.legs[1].duration - roundTrip.legs[0].duration)} longer than the way out.`}
+                    </Typography>
+                  )}
+                  {roundTripSummary && roundTripSummary.overRangeLegs.includes(1) && vessel && (
+                    <Typography variant="body2" color="error" sx={{ mt: 1 }}>
+                      {`The return is longer than the ${vessel.name}'s ${vessel.maxDays} day range.`}
+                    </Typography>
+                  )}
+                </Box>
+              )}
+              
+              <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mt: 2, mb: 1 }}>
+                <Typography variant="caption" fontWeight="medium">Close passes:</Typography>
+                <TextField
+                  label="Within (miles)"
+                  type="number"
+                  value={closePassDistance}
+                  onChange={(e) => setClosePassDistance(Math.max(1, parseFloat(e.target.value) || 0))}
+                  inputProps={{ min: 1 }}
+                  size="small"
+                  sx={{ width: 150 }}
+                />
+              </Box>
+              {closePasses.length > 0 ? (
+                <TableContainer component={Paper} variant="outlined">
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Island</TableCell>
+                        <TableCell>Closest Approach</TableCell>
+                        <TableCell>Time</TableCell>
+                        <TableCell>Into Flight</TableCell>
+                        <TableCell>In Conjunction With</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {closePasses.map(pass => (
+                        <TableRow key={`${pass.islandId}-${pass.time}`}>
+                          <TableCell>{getIslandName(pass.islandId)}</TableCell>
+                          <TableCell>{pass.distance.toFixed(1)} miles</TableCell>
+                          <TableCell>{formatTime(pass.time)}</TableCell>
+                          <TableCell>{formatDuration((pass.time - activeJourney.startTime) / 1000)}</TableCell>
+                          <TableCell>
+                            {pass.conjunctionIslandIds.length > 0
+                              ? pass.conjunctionIslandIds.map(getIslandName).join(', ')
+                              : '-'}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              ) : (
+                <Typography variant="body2" color="text.secondary" sx={{ fontStyle: 'italic' }}>
+                  {`No islands within ${closePassDistance} miles of the route`}
+                </Typography>
+              )}
+            </Box>
+          </Grid>
+        )}
+        
+        {sourceIslandId !== null && destinationIslandId !== null && (
+          <Grid size={{ xs: 12 }}>
+            <Box sx={{ mt: 2, p: 2, borderTop: 1, borderColor: 'divider' }}>
+              <Typography variant="subtitle2" gutterBottom>
+                Departure Window
+              </Typography>
+              <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 2 }}>
+                <TextField
+                  label="Search next (days)"
+                  type="number"
+                  value={windowDays}
+                  onChange={(e) => setWindowDays(Math.max(1, parseInt(e.target.value) || 0))}
+                  inputProps={{ min: 1 }}
+                  size="small"
+                  sx={{ width: 180 }}
+                />
+                <Button variant="outlined" onClick={findDepartureWindow}>
+                  Find Best Departure
+                </Button>
+              </Box>
+              
+              {departureWindow && (
+                <>
+                  <DepartureWindowChart
+                    departureWindow={departureWindow}
+                    selectedDepartureTime={departureTime}
+                    onSelectDeparture={selectDeparture}
+                  />
+                  <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 0.5 }}>
+                    Solid: travel duration. Dashed: arrival time. Click the chart to pick a departure.
+                  </Typography>
+                  
+                  <Grid container spacing={3} sx={{ mt: 1 }}>
+                    <Grid size={{ xs: 12, md: 6 }}>
+                      <Typography variant="caption" fontWeight="medium" display="block">Fastest trip:</Typography>
+                      <Typography variant="body2">
+                        Depart {formatTime(departureWindow.best.departureTime)}, {formatDuration(departureWindow.best.duration)} en route,
+                        arrive {formatTime(departureWindow.best.arrivalTime)}
+                      </Typography>
+                      <Button size="small" onClick={() => selectDeparture(departureWindow.best)} sx={{ mt: 0.5 }}>
+                        Use this departure
+                      </Button>
+                    </Grid>
+                    <Grid size={{ xs: 12, md: 6 }}>
+                      <Typography variant="caption" fontWeight="medium" display="block">Earliest arrival:</Typography>
+                      <Typography variant="body2">
+                        Depart {formatTime(departureWindow.earliestArrival.departureTime)},
+                        arrive {formatTime(departureWindow.earliestArrival.arrivalTime)}
+                      </Typography>
+                      <Button size="small" onClick={() => selectDeparture(departureWindow.earliestArrival)} sx={{ mt: 0.5 }}>
+                        Use this departure
+                      </Button>
+                    </Grid>
+                  </Grid>
+                  
+                  {departureWindow.minima.length > 0 && (
+                    <Box sx={{ mt: 1 }}>
+                      <Typography variant="caption" fontWeight="medium" display="block" sx={{ mb: 0.5 }}>
+                        Local minima:
+                      </Typography>
+                      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                        {departureWindow.minima.map(minimum => (
+                          <Chip
+                            key={minimum.departureTime}
+                            label={`${formatTime(minimum.departureTime)} · ${formatDuration(minimum.duration)}`}
+                            size="small"
+                            clickable
+                            color={minimum === departureWindow.best ? 'primary' : 'default'}
+                            variant={departureTime === minimum.departureTime ? 'filled' : 'outlined'}
+                            onClick={() => selectDeparture(minimum)}
+                          />
+                        ))}
+                      </Box>
+                    </Box>
+                  )}
+                </>
+              )}
+            </Box>
+          </Grid>
+        )}
+        
+        {sourceIslandId !== null && destinationIslandId !== null && (
+          <Grid size={{ xs: 12 }}>
+            <Box sx={{ mt: 2, p: 2, borderTop: 1, borderColor: 'divider' }}>
+              <Typography variant="subtitle2" gutterBottom>
+                Fastest Route
+              </Typography>
+              <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 2 }}>
+                <TextField
+                  label="Max legs"
+                  type="number"
+                  value={maxHops}
+                  onChange={(e) => setMaxHops(Math.max(1, parseInt(e.target.value) || 0))}
+                  inputProps={{ min: 1 }}
+                  size="small"
+                  sx={{ width: 120 }}
+                />
+                <TextField
+                  label="Max wait (days)"
+                  type="number"
+                  value={maxWaitDays}
+                  onChange={(e) => setMaxWaitDays(Math.max(0, parseFloat(e.target.value) || 0))}
+                  inputProps={{ min: 0 }}
+                  size="small"
+                  sx={{ width: 150 }}
+                />
+                <Button variant="outlined" onClick={findFastestRoute}>
+                  Find Fastest Route
+                </Button>
+              </Box>
+              
+              {fastestRoute && (fastestRoute.found && fastestRoute.plan && fastestRoute.departureTime !== null && fastestRoute.arrivalTime !== null ? (
+                <>
+                  <Typography variant="body2">
+                    {`Route: ${[fastestRoute.plan.sourceId, ...fastestRoute.plan.legs.map(leg => leg.destinationId)].map(getIslandName).join(' → ')}`}
+                  </Typography>
+                  <Typography variant="body2">
+                    {`Depart ${formatTime(fastestRoute.departureTime)}, arrive ${formatTime(fastestRoute.arrivalTime)}`}
+                  </Typography>
+                  {fastestRoute.direct && (
+                    <Typography variant="body2" color="text.secondary">
+                      {fastestRoute.direct.arrivalTime - fastestRoute.arrivalTime > 1
+                        ? `${formatDuration((fastestRoute.direct.arrivalTime - fastestRoute.arrivalTime) / 1000)} sooner than sailing direct`
+                        : 'Sailing direct is already the fastest route'}
+                    </Typography>
+                  )}
+                  <Button
+                    size="small"
+                    onClick={() => {
+                      if (fastestRoute.plan && fastestRoute.departureTime !== null) {
+                        proposeItinerary(fastestRoute.plan, fastestRoute.departureTime);
+                      }
+                    }}
+                    sx={{ mt: 0.5 }}
+                  >
+                    Use as Itinerary
+                  </Button>
+                </>
+              ) : (
+                <Typography variant="body2" color="error">
+                  No route found within these limits
+                </Typography>
+              ))}
+            </Box>
+          </Grid>
+        )}
+        
+        {(itineraryPlan !== null || (sourceIslandId !== null && destinationIslandId !== null)) && (
+          <Grid size={{ xs: 12 }}>
+            <Box sx={{ mt: 2, p: 2, borderTop: 1, borderColor: 'divider' }}>
+              <Typography variant="subtitle2" gutterBottom>
+                Itinerary
+              </Typography>
+              <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 2 }}>
+                <TextField
+                  label="Layover at destination (days)"
+                  type="number"
+                  value={layoverDays}
+                  onChange={(e) => setLayoverDays(Math.max(0, parseFloat(e.target.value) || 0))}
+                  inputProps={{ min: 0, step: 0.5 }}
+                  size="small"
+                  sx={{ width: 220 }}
+                />
+                <Button
+                  variant="outlined"
+                  startIcon={<AddIcon />}
+                  disabled={sourceIslandId === null || destinationIslandId === null}
+                  onClick={() => addItineraryLeg(layoverDays)}
+                >
+                  Add as Leg
+                </Button>
+              </Box>
+              
+              {plannedItinerary ? (
+                <>
+                  {plannedItinerary.legs.map((leg, index) => (
+                    <Typography key={leg.id} variant="body2">
+                      {`${index + 1}. ${getIslandName(leg.sourceId)} → ${getIslandName(leg.destinationId)}: `}
+                      {`depart ${formatTime(leg.startTime)}, ${formatDuration(leg.duration)} at ${leg.speed} mph`}
+                      {plannedItinerary.layovers[index] > 0 && `, then ${formatDuration(plannedItinerary.layovers[index])} layover`}
+                      {leg.vesselId !== undefined && ` (${getVesselName(leg.vesselId)})`}
+                      {itinerarySummary?.overRangeLegs.includes(index) && (
+                        <Typography component="span" variant="body2" color="error">
+                          {` exceeds the ${getVesselName(leg.vesselId)}'s ${findVessel(vessels, leg.vesselId)?.maxDays} day range`}
+                        </Typography>
+                      )}
+                    </Typography>
+                  ))}
+                  <Typography variant="body2" sx={{ mt: 1 }} fontWeight="medium">
+                    {`Total: ${plannedItinerary.distance.toFixed(0)} miles, ${formatDuration(plannedItinerary.duration)}, `}
+                    {`arriving ${formatTime(plannedItinerary.arrivalTime)}`}
+                  </Typography>
+                  {itinerarySummary && (
+                    <Typography variant="body2" fontWeight="medium">
+                      {`Supplies: ${itinerarySummary.supplyDays.toFixed(1)} days, costing ${itinerarySummary.cost.toFixed(0)}`}
+                    </Typography>
+                  )}
+                  <Box sx={{ mt: 2, display: 'flex', gap: 2 }}>
+                    <Button
+                      variant="contained"
+                      color="primary"
+                      startIcon={<AddIcon />}
+                      onClick={addItinerary}
+                      disabled={itinerarySummary !== null && itinerarySummary.overRangeLegs.length > 0}
+                    >
+                      Add Itinerary
+                    </Button>
+                    <Button variant="outlined" color="inherit" onClick={clearItineraryPlan}>
+                      Clear
+                    </Button>
+                  </Box>
+                </>
+              ) : (
+                <Typography variant="body2" color="text.secondary" sx={{ fontStyle: 'italic' }}>
+                  Add the selected route as the first leg, then pick the next destination
+                </Typography>
+              )}
+            </Box>
+          </Grid>
+        )}
+        
+        {itineraries.length > 0 && (
+          <Grid size={{ xs: 12 }}>
+            <Box sx={{ mt: 3 }}>
+              <Typography variant="subtitle2" gutterBottom>
+                Itineraries
+              </Typography>
+              
+              <TableContainer component={Paper} variant="outlined">
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Route</TableCell>
+                      <TableCell>Status</TableCell>
+                      <TableCell>Progress</TableCell>
+                      <TableCell>ETA</TableCell>
+                      <TableCell>Distance Left</TableCell>
+                      <TableCell>Actions</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {itineraries.map(itinerary => {
+                      if (itinerary.status === 'completed') return null;
+                      
+                      const progress = simulator.getItineraryProgress(itinerary);
+                      const leg = itinerary.legs[progress.legIndex];
+                      
+                      return (
+                        <TableRow key={itinerary.id}>
+                          <TableCell>{describeRoute(itinerary)}</TableCell>
+                          <TableCell>
+                            {itinerary.status === 'scheduled'
+                              ? `Departs ${formatTime(itinerary.startTime)}`
+                              : progress.atLayover
+                                ? `Layover at ${getIslandName(leg.sourceId)}`
+                                : `Leg ${progress.legIndex + 1} of ${itinerary.legs.length}`}
+                          </TableCell>
+                          <TableCell>{`${progress.progress.toFixed(0)}%`}</TableCell>
+                          <TableCell>{formatDuration(progress.remainingTime)}</TableCell>
+                          <TableCell>{`${progress.remainingDistance.toFixed(0)} mi`}</TableCell>
+                          <TableCell>
+                            <IconButton 
+                              size="small" 
+                              color="error"
+                              onClick={() => deleteItinerary(itinerary.id)}
+                            >
+                              <DeleteIcon fontSize="small" />
+                            </IconButton>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </TableContainer>
             </Box>
           </Grid>
         )}
@@ -310,6 +1122,7 @@ const JourneyPlanner: React.FC<JourneyPlannerProps> = ({
                     <TableRow>
                       <TableCell>From</TableCell>
                       <TableCell>To</TableCell>
+                      <TableCell>Departure</TableCell>
                       <TableCell>Progress</TableCell>
                       <TableCell>ETA</TableCell>
                       <TableCell>Distance Left</TableCell>
@@ -327,7 +1140,14 @@ const JourneyPlanner: React.FC<JourneyPlannerProps> = ({
                         <TableRow key={journey.id}>
                           <TableCell>{getIslandName(journey.sourceId)}</TableCell>
                           <TableCell>{getIslandName(journey.destinationId)}</TableCell>
-                          <TableCell>{`${progress.progress.toFixed(0)}%`}</TableCell>
+                          <TableCell>
+                            {journey.status === 'scheduled'
+                              ? `${formatTime(journey.startTime)} (in ${formatDuration((journey.startTime - time) / 1000)})`
+                              : formatTime(journey.startTime)}
+                          </TableCell>
+                          <TableCell>
+                            {journey.status === 'scheduled' ? 'Scheduled' : `${progress.progress.toFixed(0)}%`}
+                          </TableCell>
                           <TableCell>{formatDuration(progress.remainingTime)}</TableCell>
                           <TableCell>{`${progress.remainingDistance.toFixed(0)} mi`}</TableCell>
                           <TableCell>{`${journey.speed} mph`}</TableCell>
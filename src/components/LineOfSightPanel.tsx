@@ -0,0 +1,273 @@
+import React, { useMemo } from 'react';
+import {
+  Box,
+  Checkbox,
+  Chip,
+  FormControlLabel,
+  Grid,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import { styled } from '@mui/material/styles';
+import SkydriftArchipelagoSimulator, { DEFAULT_SIGHT_MODEL, Island, Occlusion, SightModel } from '../utils/sim';
+import { formatTime, formatDuration } from '../utils/timeFormat';
+import { parseAtLeast } from '../utils/numberInput';
+import StyledTableCell from './StyledTableCell';
+import RangePicker, { useDayRange } from './RangePicker';
+
+// Rows jump the simulation to the start of the occlusion when clicked
+const OcclusionRow = styled(TableRow)(({ theme }) => ({
+  cursor: 'pointer',
+  '&:hover': {
+    backgroundColor: theme.palette.action.hover,
+  }
+}));
+
+// Colours of clear and blocked sight lines, shared with the canvas
+export const SIGHT_LINE_COLORS = { clear: "#4caf50", blocked: "#f44336" }; // MUI green / red
+
+export interface SightSettings {
+  observerId: number | null;
+  showSightLines: boolean;
+  model: SightModel;        // What blocks the view, applied to the simulator
+}
+
+export const DEFAULT_SIGHT_SETTINGS: SightSettings = {
+  observerId: null,
+  showSightLines: true,
+  model: DEFAULT_SIGHT_MODEL
+};
+
+interface LineOfSightPanelProps {
+  simulator: SkydriftArchipelagoSimulator;
+  islands: Island[];
+  time: number;
+  setTime: (time: number) => void;
+  setIsPlaying: (playing: boolean) => void;
+  settings: SightSettings;
+  setSettings: (settings: SightSettings) => void;
+}
+
+const LineOfSightPanel: React.FC<LineOfSightPanelProps> = ({
+  simulator,
+  islands,
+  time,
+  setTime,
+  setIsPlaying,
+  settings,
+  setSettings
+}) => {
+  const visibleIslands = islands.filter(island => island.visible);
+  const visibleIds = visibleIslands.map(island => island.id).join(',');
+  const { observerId, showSightLines, model } = settings;
+  const observer = islands.find(island => island.id === observerId) ?? null;
+
+  const [range, setRange] = useDayRange(time, 60);
+  const rangeEnd = range.start + range.days * 1000;
+
+  // Times the observer loses sight of each visible island. The settings hold the model the
+  // simulator uses, so they are a dependency even though only the observer is read from them.
+  const occlusions = useMemo((): Occlusion[] => {
+    const from = islands.find(island => island.id === settings.observerId);
+    if (!from) return [];
+    return islands
+      .filter(island => island.id !== from.id && visibleIds.split(',').includes(String(island.id)))
+      .flatMap(island => simulator.calculateOcclusions(from, island, range.start, rangeEnd))
+      .sort((a, b) => a.startTime - b.startTime);
+  }, [simulator, islands, settings, visibleIds, range.start, rangeEnd]);
+
+  const updateSettings = (changes: Partial<SightSettings>) => {
+    setSettings({ ...settings, ...changes });
+  };
+
+  const islandName = (islandId: number) => islands.find(island => island.id === islandId)?.name ?? 'Unknown';
+  const islandColor = (islandId: number) => islands.find(island => island.id === islandId)?.color;
+
+  // Everything in the way, for the tables
+  const describeBlockers = (blockerIds: number[], blockedBySpire: boolean): string =>
+    [...blockerIds.map(islandName), ...(blockedBySpire ? ['the spire'] : [])].join(', ');
+
+  const jumpTo = (eventTime: number) => {
+    setTime(eventTime);
+    setIsPlaying(false); // Pause the simulation
+  };
+
+  return (
+    <Box>
+      <Typography variant="h6" gutterBottom>
+        Line of Sight
+      </Typography>
+
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Which visible islands can see each other, for signal fires and heliographs. The view is blocked by the
+        body of any other island in the way ({model.islandBodyScale} miles per unit of its radius) or by the
+        spire rising {model.spireRadius} miles around the centre.
+        Click an occlusion to jump to its start.
+      </Typography>
+
+      <Grid container spacing={3} sx={{ mb: 2 }}>
+        <Grid size={{xs: 12, md: 6}}>
+          <Typography variant="subtitle1" gutterBottom>
+            Seen From
+          </Typography>
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+            {visibleIslands.map(island => (
+              <Chip
+                key={island.id}
+                label={island.name}
+                size="small"
+                clickable
+                variant={observerId === island.id ? 'filled' : 'outlined'}
+                onClick={() => updateSettings({ observerId: island.id })}
+                sx={observerId === island.id ? { bgcolor: island.color, color: 'white' } : { borderColor: island.color }}
+              />
+            ))}
+          </Box>
+        </Grid>
+
+        <Grid size={{xs: 12, md: 6}}>
+          <Stack direction="row" spacing={2} sx={{ mb: 1 }}>
+            <TextField
+              label="Island body (miles per radius)"
+              type="number"
+              value={model.islandBodyScale}
+              onChange={(e) => updateSettings({
+                model: { ...model, islandBodyScale: parseAtLeast(e.target.value, 0, model.islandBodyScale) }
+              })}
+              inputProps={{ min: 0, step: 0.5 }}
+              size="small"
+            />
+            <TextField
+              label="Spire radius (miles)"
+              type="number"
+              value={model.spireRadius}
+              onChange={(e) => updateSettings({
+                model: { ...model, spireRadius: parseAtLeast(e.target.value, 0, model.spireRadius) }
+              })}
+              inputProps={{ min: 0, step: 5 }}
+              size="small"
+            />
+          </Stack>
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={showSightLines}
+                onChange={(e) => updateSettings({ showSightLines: e.target.checked })}
+              />
+            }
+            label="Show sight lines"
+          />
+        </Grid>
+      </Grid>
+
+      <Typography variant="subtitle1" gutterBottom>
+        Now
+      </Typography>
+      <TableContainer component={Paper} sx={{ mb: 2 }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <StyledTableCell>Island</StyledTableCell>
+              <StyledTableCell>View</StyledTableCell>
+              <StyledTableCell>Blocked By</StyledTableCell>
+              <StyledTableCell>Distance</StyledTableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {observer ? (
+              visibleIslands.filter(island => island.id !== observer.id).map(island => {
+                const sight = simulator.calculateLineOfSight(observer, island, time);
+                return (
+                  <TableRow key={island.id}>
+                    <TableCell>
+                      <Chip size="small" label={island.name} sx={{ bgcolor: island.color, color: 'white' }} />
+                    </TableCell>
+                    <TableCell>
+                      <Chip
+                        size="small"
+                        label={sight.visible ? 'Clear' : 'Blocked'}
+                        sx={{ bgcolor: sight.visible ? SIGHT_LINE_COLORS.clear : SIGHT_LINE_COLORS.blocked, color: 'white' }}
+                      />
+                    </TableCell>
+                    <TableCell>{sight.visible ? '-' : describeBlockers(sight.blockerIds, sight.blockedBySpire)}</TableCell>
+                    <TableCell>{sight.distance.toFixed(0)} miles</TableCell>
+                  </TableRow>
+                );
+              })
+            ) : (
+              <TableRow>
+                <TableCell colSpan={4} align="center">
+                  Select an island to see from
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Stack direction="row" spacing={2} alignItems="center" sx={{ mb: 2 }}>
+        <Typography variant="subtitle1">Occlusions</Typography>
+        <RangePicker time={time} range={range} setRange={setRange} />
+      </Stack>
+
+      <TableContainer component={Paper} sx={{ mb: 2, maxHeight: 400 }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              <StyledTableCell>Island</StyledTableCell>
+              <StyledTableCell>Starts</StyledTableCell>
+              <StyledTableCell>Ends</StyledTableCell>
+              <StyledTableCell>Duration</StyledTableCell>
+              <StyledTableCell>Blocked By</StyledTableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {occlusions.length > 0 ? (
+              occlusions.map(occlusion => {
+                // Occlusions under way at either end of the range are cut off by it
+                const startShown = occlusion.startTime > range.start ? formatTime(occlusion.startTime) : 'before';
+                const endShown = occlusion.endTime < rangeEnd ? formatTime(occlusion.endTime) : 'after';
+                return (
+                  <OcclusionRow
+                    key={`${occlusion.targetId}-${occlusion.startTime}`}
+                    onClick={() => jumpTo(Math.max(occlusion.startTime, range.start))}
+                  >
+                    <TableCell>
+                      <Chip
+                        size="small"
+                        label={islandName(occlusion.targetId)}
+                        sx={{ bgcolor: islandColor(occlusion.targetId), color: 'white' }}
+                      />
+                    </TableCell>
+                    <TableCell>{startShown}</TableCell>
+                    <TableCell>{endShown}</TableCell>
+                    <TableCell>
+                      {startShown !== 'before' && endShown !== 'after' ? formatDuration(occlusion.duration) : '-'}
+                    </TableCell>
+                    <TableCell>{describeBlockers(occlusion.blockerIds, occlusion.blockedBySpire)}</TableCell>
+                  </OcclusionRow>
+                );
+              })
+            ) : (
+              <TableRow>
+                <TableCell colSpan={5} align="center" sx={{ fontStyle: 'italic' }}>
+                  {observer === null ? 'Select an island to see from' : 'No occlusions in this range'}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+};
+
+export default LineOfSightPanel;
@@ -0,0 +1,42 @@
+import React, { useState } from 'react';
+import { Button, TextField, Typography } from '@mui/material';
+import { formatTime } from '../utils/timeFormat';
+import { parseAtLeast } from '../utils/numberInput';
+
+// A span of days listed by a panel
+export interface DayRange {
+  start: number;  // Simulation time (ms)
+  days: number;
+}
+
+// State for a panel's range, starting now. The range is fixed until moved, so the panel's
+// list doesn't shift while the simulation plays.
+export const useDayRange = (time: number, days: number) => useState<DayRange>({ start: time, days });
+
+interface RangePickerProps {
+  time: number;
+  range: DayRange;
+  setRange: (range: DayRange) => void;
+}
+
+// Fields for the length of a range and a button moving its start to the current time,
+// laid out by the surrounding row
+const RangePicker: React.FC<RangePickerProps> = ({ time, range, setRange }) => (
+  <>
+    <TextField
+      label="Days"
+      type="number"
+      value={range.days}
+      onChange={(e) => setRange({ ...range, days: parseAtLeast(e.target.value, 1, range.days) })}
+      inputProps={{ min: 1 }}
+      size="small"
+      sx={{ width: 100 }}
+    />
+    <Typography variant="body2">From {formatTime(range.start)}</Typography>
+    <Button size="small" variant="outlined" onClick={() => setRange({ ...range, start: time })}>
+      From now
+    </Button>
+  </>
+);
+
+export default RangePicker;
@@ -0,0 +1,226 @@
+import React, { useMemo } from 'react';
+import {
+  Box,
+  Checkbox,
+  Chip,
+  FormControlLabel,
+  Grid,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import SkydriftArchipelagoSimulator, { Island, JourneyPathModel, JOURNEY_PATH_MODELS } from '../utils/sim';
+import { formatTime, formatDuration } from '../utils/timeFormat';
+import StyledTableCell from './StyledTableCell';
+
+export interface ReachabilitySettings {
+  sourceIslandId: number | null;
+  speed: number;            // mph
+  maxDays: number;
+  intervalDays: number;     // Spacing of the isochrone contours
+  pathModel: JourneyPathModel;
+  allowOneStop: boolean;
+  showIsochrones: boolean;
+}
+
+export const DEFAULT_REACHABILITY_SETTINGS: ReachabilitySettings = {
+  sourceIslandId: null,
+  speed: 8,
+  maxDays: 10,
+  intervalDays: 2,
+  pathModel: 'spiral',
+  allowOneStop: false,
+  showIsochrones: true
+};
+
+interface ReachabilityPanelProps {
+  simulator: SkydriftArchipelagoSimulator;
+  islands: Island[];
+  time: number;
+  settings: ReachabilitySettings;
+  setSettings: (settings: ReachabilitySettings) => void;
+}
+
+const ReachabilityPanel: React.FC<ReachabilityPanelProps> = ({
+  simulator,
+  islands,
+  time,
+  settings,
+  setSettings
+}) => {
+  const visibleIslands = islands.filter(island => island.visible);
+  const visibleIds = visibleIslands.map(island => island.id).join(',');
+  const { sourceIslandId, speed, maxDays, intervalDays, pathModel, allowOneStop, showIsochrones } = settings;
+
+  // Islands reachable when leaving now, soonest first
+  const reachable = useMemo(() => {
+    if (sourceIslandId === null) return [];
+    return simulator.calculateReachableIslands(sourceIslandId, speed, maxDays, {
+      departureTime: time,
+      allowOneStop,
+      islandIds: visibleIds.split(',').map(Number),
+      pathModel
+    });
+  }, [simulator, sourceIslandId, speed, maxDays, pathModel, allowOneStop, visibleIds, time]);
+
+  const updateSettings = (changes: Partial<ReachabilitySettings>) => {
+    setSettings({ ...settings, ...changes });
+  };
+
+  // Parse a positive number from a text field, keeping the old value if it's invalid
+  const parsePositive = (value: string, fallback: number): number => {
+    const parsed = parseFloat(value);
+    return !isNaN(parsed) && parsed > 0 ? parsed : fallback;
+  };
+
+  const islandName = (islandId: number) => islands.find(island => island.id === islandId)?.name ?? '-';
+  const islandColor = (islandId: number) => islands.find(island => island.id === islandId)?.color;
+
+  return (
+    <Box>
+      <Typography variant="h6" gutterBottom>
+        Reachability
+      </Typography>
+
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Which visible islands a ship leaving now can reach within {maxDays} days at {speed} mph.
+        The contours on the map show how far it can get every {intervalDays} days from the island's current position.
+        Travel times in the table ride the wind and include climbs and descents; the contours leave both out.
+      </Typography>
+
+      <Grid container spacing={3} sx={{ mb: 2 }}>
+        <Grid size={{xs: 12, md: 6}}>
+          <Typography variant="subtitle1" gutterBottom>
+            Source Island
+          </Typography>
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+            {visibleIslands.map(island => (
+              <Chip
+                key={island.id}
+                label={island.name}
+                size="small"
+                clickable
+                variant={sourceIslandId === island.id ? 'filled' : 'outlined'}
+                onClick={() => updateSettings({ sourceIslandId: island.id })}
+                sx={sourceIslandId === island.id ? { bgcolor: island.color, color: 'white' } : { borderColor: island.color }}
+              />
+            ))}
+          </Box>
+        </Grid>
+
+        <Grid size={{xs: 12, md: 6}}>
+          <Stack direction="row" spacing={2} sx={{ mb: 1 }}>
+            <TextField
+              label="Speed (mph)"
+              type="number"
+              value={speed}
+              onChange={(e) => updateSettings({ speed: parsePositive(e.target.value, speed) })}
+              inputProps={{ min: 1 }}
+              size="small"
+            />
+            <TextField
+              label="Max days"
+              type="number"
+              value={maxDays}
+              onChange={(e) => updateSettings({ maxDays: parsePositive(e.target.value, maxDays) })}
+              inputProps={{ min: 0.5, step: 0.5 }}
+              size="small"
+            />
+            <TextField
+              label="Contour every (days)"
+              type="number"
+              value={intervalDays}
+              onChange={(e) => updateSettings({ intervalDays: parsePositive(e.target.value, intervalDays) })}
+              inputProps={{ min: 0.5, step: 0.5 }}
+              size="small"
+            />
+          </Stack>
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+            {JOURNEY_PATH_MODELS.map(model => (
+              <Chip
+                key={model.id}
+                label={model.name}
+                title={model.description}
+                size="small"
+                clickable
+                color={pathModel === model.id ? 'primary' : 'default'}
+                variant={pathModel === model.id ? 'filled' : 'outlined'}
+                onClick={() => updateSettings({ pathModel: model.id })}
+              />
+            ))}
+          </Box>
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={allowOneStop}
+                onChange={(e) => updateSettings({ allowOneStop: e.target.checked })}
+              />
+            }
+            label="Allow one stop on the way"
+          />
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={showIsochrones}
+                onChange={(e) => updateSettings({ showIsochrones: e.target.checked })}
+              />
+            }
+            label="Show isochrones"
+          />
+        </Grid>
+      </Grid>
+
+      <TableContainer component={Paper} sx={{ mb: 2 }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <StyledTableCell>Island</StyledTableCell>
+              <StyledTableCell>Arrival</StyledTableCell>
+              <StyledTableCell>Travel Time</StyledTableCell>
+              <StyledTableCell>Route</StyledTableCell>
+              <StyledTableCell>Distance</StyledTableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {reachable.length > 0 ? (
+              reachable.map(entry => (
+                <TableRow key={entry.islandId}>
+                  <TableCell>
+                    <Chip
+                      size="small"
+                      label={islandName(entry.islandId)}
+                      sx={{ bgcolor: islandColor(entry.islandId), color: 'white' }}
+                    />
+                  </TableCell>
+                  <TableCell>{formatTime(entry.arrivalTime)}</TableCell>
+                  <TableCell>{formatDuration(entry.duration)}</TableCell>
+                  <TableCell>
+                    {entry.viaIslandId === null ? 'Direct' : `via ${islandName(entry.viaIslandId)}`}
+                  </TableCell>
+                  <TableCell>{entry.distance.toFixed(0)} miles</TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={5} align="center">
+                  {sourceIslandId === null
+                    ? 'Select a source island'
+                    : `No islands can be reached within ${maxDays} days`}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+};
+
+export default ReachabilityPanel;
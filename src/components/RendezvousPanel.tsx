@@ -0,0 +1,243 @@
+import React from 'react';
+import {
+  Box,
+  Chip,
+  Grid,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Island, Journey, JourneyPathModel, JOURNEY_PATH_MODELS, Rendezvous } from '../utils/sim';
+import { formatTime, formatDuration } from '../utils/timeFormat';
+import { parseAtLeast } from '../utils/numberInput';
+import StyledTableCell from './StyledTableCell';
+
+// Colours of the two ships' courses, shared with the canvas
+export const RENDEZVOUS_COLORS = ["#e91e63", "#3f51b5"]; // MUI pink / indigo
+
+export interface RendezvousShipSettings {
+  islandId: number | null;
+  speed: number;      // mph
+  delayDays: number;  // Days from now until the ship leaves
+}
+
+export interface RendezvousSettings {
+  mode: 'ships' | 'intercept';
+  pathModel: JourneyPathModel;          // Two ships meeting fly straight or spiral paths
+  first: RendezvousShipSettings;        // The pursuer when intercepting
+  second: RendezvousShipSettings;
+  targetJourneyId: number | null;       // Journey to intercept
+}
+
+export const DEFAULT_RENDEZVOUS_SETTINGS: RendezvousSettings = {
+  mode: 'ships',
+  pathModel: 'spiral',
+  first: { islandId: null, speed: 8, delayDays: 0 },
+  second: { islandId: null, speed: 8, delayDays: 0 },
+  targetJourneyId: null
+};
+
+interface RendezvousPanelProps {
+  islands: Island[];
+  journeys: Journey[];
+  time: number;
+  settings: RendezvousSettings;
+  setSettings: (settings: RendezvousSettings) => void;
+  rendezvous: Rendezvous | null;
+}
+
+const RendezvousPanel: React.FC<RendezvousPanelProps> = ({
+  islands,
+  journeys,
+  time,
+  settings,
+  setSettings,
+  rendezvous
+}) => {
+  const visibleIslands = islands.filter(island => island.visible);
+  const { mode, pathModel, targetJourneyId } = settings;
+  const targets = journeys.filter(journey => journey.status === 'active' || journey.status === 'scheduled');
+
+  // Two ships meeting can only fly straight or spiral paths
+  const pathModels = JOURNEY_PATH_MODELS.filter(model => mode === 'intercept' || model.id !== 'current');
+
+  const updateSettings = (changes: Partial<RendezvousSettings>) => {
+    setSettings({ ...settings, ...changes });
+  };
+
+  const updateShip = (ship: 'first' | 'second', changes: Partial<RendezvousShipSettings>) => {
+    updateSettings({ [ship]: { ...settings[ship], ...changes } });
+  };
+
+  const islandName = (islandId: number) => islands.find(island => island.id === islandId)?.name ?? 'Unknown';
+
+  const renderShip = (ship: 'first' | 'second', title: string) => {
+    const shipSettings = settings[ship];
+    return (
+      <Grid size={{xs: 12, md: 6}}>
+        <Typography variant="subtitle1" gutterBottom sx={{ color: RENDEZVOUS_COLORS[ship === 'first' ? 0 : 1] }}>
+          {title}
+        </Typography>
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+          {visibleIslands.map(island => (
+            <Chip
+              key={island.id}
+              label={island.name}
+              size="small"
+              clickable
+              variant={shipSettings.islandId === island.id ? 'filled' : 'outlined'}
+              onClick={() => updateShip(ship, { islandId: island.id })}
+              sx={shipSettings.islandId === island.id ? { bgcolor: island.color, color: 'white' } : { borderColor: island.color }}
+            />
+          ))}
+        </Box>
+        <Stack direction="row" spacing={2}>
+          <TextField
+            label="Speed (mph)"
+            type="number"
+            value={shipSettings.speed}
+            onChange={(e) => updateShip(ship, { speed: parseAtLeast(e.target.value, 1, shipSettings.speed) })}
+            inputProps={{ min: 1 }}
+            size="small"
+          />
+          <TextField
+            label="Leaves in (days)"
+            type="number"
+            value={shipSettings.delayDays}
+            onChange={(e) => updateShip(ship, { delayDays: parseAtLeast(e.target.value, 0, shipSettings.delayDays) })}
+            inputProps={{ min: 0, step: 0.5 }}
+            size="small"
+          />
+        </Stack>
+      </Grid>
+    );
+  };
+
+  const describeJourney = (journey: Journey) =>
+    `${islandName(journey.sourceId)} → ${islandName(journey.destinationId)}`;
+
+  return (
+    <Box sx={{ mt: 3 }}>
+      <Typography variant="h6" gutterBottom>
+        Rendezvous
+      </Typography>
+
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Where and when two ships can meet: two ships setting out from different islands towards each other,
+        or a ship setting out to intercept one already on a journey. Wind and altitude are ignored.
+      </Typography>
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+        <Chip
+          label="Two ships"
+          size="small"
+          clickable
+          color={mode === 'ships' ? 'primary' : 'default'}
+          variant={mode === 'ships' ? 'filled' : 'outlined'}
+          onClick={() => updateSettings({ mode: 'ships', pathModel: pathModel === 'current' ? 'spiral' : pathModel })}
+        />
+        <Chip
+          label="Intercept a ship"
+          size="small"
+          clickable
+          color={mode === 'intercept' ? 'primary' : 'default'}
+          variant={mode === 'intercept' ? 'filled' : 'outlined'}
+          onClick={() => updateSettings({ mode: 'intercept' })}
+        />
+        <Box sx={{ width: 16 }} />
+        {pathModels.map(model => (
+          <Chip
+            key={model.id}
+            label={model.name}
+            title={model.description}
+            size="small"
+            clickable
+            color={pathModel === model.id ? 'primary' : 'default'}
+            variant={pathModel === model.id ? 'filled' : 'outlined'}
+            onClick={() => updateSettings({ pathModel: model.id })}
+          />
+        ))}
+      </Box>
+
+      <Grid container spacing={3} sx={{ mb: 2 }}>
+        {renderShip('first', mode === 'ships' ? 'First Ship' : 'Pursuer')}
+        {mode === 'ships' ? renderShip('second', 'Second Ship') : (
+          <Grid size={{xs: 12, md: 6}}>
+            <Typography variant="subtitle1" gutterBottom sx={{ color: RENDEZVOUS_COLORS[1] }}>
+              Ship to Intercept
+            </Typography>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+              {targets.length > 0 ? targets.map(journey => (
+                <Chip
+                  key={journey.id}
+                  label={`${describeJourney(journey)} (${journey.speed} mph)`}
+                  size="small"
+                  clickable
+                  color={targetJourneyId === journey.id ? 'primary' : 'default'}
+                  variant={targetJourneyId === journey.id ? 'filled' : 'outlined'}
+                  onClick={() => updateSettings({ targetJourneyId: journey.id })}
+                />
+              )) : (
+                <Typography variant="body2" color="text.secondary" sx={{ fontStyle: 'italic' }}>
+                  Add a journey in the planner above to have a ship to intercept
+                </Typography>
+              )}
+            </Box>
+          </Grid>
+        )}
+      </Grid>
+
+      {rendezvous && (rendezvous.feasible && rendezvous.meetingTime !== null ? (
+        <>
+          <Typography variant="body2" fontWeight="medium" sx={{ mb: 1 }}>
+            {`Meet at ${formatTime(rendezvous.meetingTime)}, in ${formatDuration((rendezvous.meetingTime - time) / 1000)}`}
+          </Typography>
+          <TableContainer component={Paper} sx={{ mb: 2 }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <StyledTableCell>Ship</StyledTableCell>
+                  <StyledTableCell>Course Starts</StyledTableCell>
+                  <StyledTableCell>Distance</StyledTableCell>
+                  <StyledTableCell>Flying Time</StyledTableCell>
+                  <StyledTableCell>Waits</StyledTableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {rendezvous.courses.map((course, index) => {
+                  const wait = (rendezvous.meetingTime as number - course.startTime) / 1000 - course.duration;
+                  return (
+                    <TableRow key={index}>
+                      <TableCell sx={{ color: RENDEZVOUS_COLORS[index] }}>
+                        {index === 0
+                          ? (mode === 'ships' ? 'First ship' : 'Pursuer')
+                          : (mode === 'ships' ? 'Second ship' : 'Target')}
+                      </TableCell>
+                      <TableCell>{formatTime(course.startTime)}</TableCell>
+                      <TableCell>{course.distance.toFixed(0)} miles</TableCell>
+                      <TableCell>{formatDuration(course.duration)}</TableCell>
+                      <TableCell>{wait > 0.001 ? formatDuration(wait) : '-'}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      ) : (
+        <Typography variant="body2" color="error">
+          {mode === 'ships' ? 'These ships cannot meet' : 'The pursuer cannot catch this ship within 60 days'}
+        </Typography>
+      ))}
+    </Box>
+  );
+};
+
+export default RendezvousPanel;
@@ -22,6 +22,8 @@ interface SettingsPanelProps {
   setTrailLength: (value: number) => void;
   trailTickFrequency: number;
   setTrailTickFrequency: (value: number) => void;
+  showWind: boolean;
+  setShowWind: (value: boolean) => void;
   
   // Journey settings
   journeyTickMarkDays: number;
@@ -37,6 +39,8 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
   setTrailLength,
   trailTickFrequency,
   setTrailTickFrequency,
+  showWind,
+  setShowWind,
   journeyTickMarkDays,
   setJourneyTickMarkDays
 }) => {
@@ -60,6 +64,17 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
               label="Show Orbits"
             />
             
+            {/* Wind */}
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={showWind}
+                  onChange={(e) => setShowWind(e.target.checked)}
+                />
+              }
+              label="Show Wind Field"
+            />
+            
             {/* Trail Settings */}
             <Box sx={{ mt: 2 }}>
               <FormControlLabel
@@ -154,6 +169,10 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
               <strong>Orbits:</strong> Shows the orbital paths of each island.
             </Typography>
             
+            <Typography variant="body2" paragraph>
+              <strong>Wind Field:</strong> Shows arrows for the sky currents that speed ships up or slow them down. Longer arrows are stronger winds.
+            </Typography>
+            
             <Typography variant="body2" paragraph>
               <strong>Trails:</strong> Shows the future path of each island for the specified number of days.
             </Typography>
@@ -46,7 +46,7 @@ const ShareSimulationButton: React.FC<ShareSimulationButtonProps> = ({
       // Add journeys parameter
       const activeJourneyParams = activeJourneys
         .filter(journey => journey && journey.sourceId && journey.destinationId)
-        .map(journey => `${journey.sourceId}_${journey.destinationId}_${journey.speed}`);
+        .map(journey => `${journey.sourceId}_${journey.destinationId}_${journey.speed}_${journey.pathModel}`);
       
       if (activeJourneyParams.length > 0) {
         shareUrl.searchParams.set('journeys', activeJourneyParams.join('-'));
@@ -1,7 +1,10 @@
 import React, { useEffect, useRef } from 'react';
 import { Box, styled } from '@mui/material';
 import { useTheme } from '@mui/material/styles';
-import SkydriftArchipelagoSimulator, { Island, Position, Journey, Conjunction } from '../utils/sim';
+import SkydriftArchipelagoSimulator, { Island, Position, Journey, Conjunction, Itinerary, Isochrone, JourneyPathModel, JOURNEY_PATH_MODELS, ClosePass, Rendezvous, LineOfSight } from '../utils/sim';
+import { RENDEZVOUS_COLORS } from './RendezvousPanel';
+import { SIGHT_LINE_COLORS } from './LineOfSightPanel';
+import { WindLayer, calculateWindVelocity } from '../utils/windField';
 
 // Custom styled component for the canvas container
 const CanvasContainer = styled(Box)(({ theme }) => ({
@@ -19,6 +22,13 @@ const CanvasContainer = styled(Box)(({ theme }) => ({
   minHeight: '400px'
 }));
 
+// Colors for journeys drawn to compare path models
+const PATH_MODEL_COLORS: Record<JourneyPathModel, string> = {
+  straight: "#2196f3", // MUI blue
+  spiral: "#795548",   // MUI brown, as for the predicted journey
+  current: "#00bcd4"   // MUI cyan
+};
+
 interface SimulationCanvasProps {
   simulator: SkydriftArchipelagoSimulator;
   islands: Island[];
@@ -29,6 +39,15 @@ interface SimulationCanvasProps {
   trailTickFrequency?: number;
   journeyTickMarkDays?: number; // Days between journey tick marks
   activeJourney: Journey | null;
+  plannedItinerary?: Itinerary | null;
+  roundTrip?: Itinerary | null;   // The predicted journey there and back
+  comparisonJourneys?: Journey[]; // The predicted journey under other path models, drawn for comparison
+  closePasses?: ClosePass[];      // Islands the predicted journey flies past
+  rendezvous?: Rendezvous | null; // Two ships' courses to a meeting
+  isochrones?: Isochrone[];
+  sightLines?: LineOfSight[];     // Lines of sight from one island to the others
+  windLayers?: WindLayer[];
+  showWind?: boolean;
   viewportScale: number;
   onResize: (width: number, height: number) => void;
   toggleIslandVisibility: (islandId: number) => void;
@@ -49,6 +68,15 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
   trailTickFrequency = 5,
   journeyTickMarkDays = 1, // Default to 1 day between tick marks
   activeJourney,
+  plannedItinerary = null,
+  roundTrip = null,
+  comparisonJourneys = [],
+  closePasses = [],
+  rendezvous = null,
+  isochrones = [],
+  sightLines = [],
+  windLayers = [],
+  showWind = false,
   viewportScale,
   onResize,
   toggleIslandVisibility,
@@ -63,6 +91,12 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
   const centerXRef = useRef<number>(400); // Default to 400
   const centerYRef = useRef<number>(400); // Default to 400
 
+  // Convert a position in miles to canvas pixels
+  const toCanvas = (point: Position) => ({
+    x: point.x * viewportScale + centerXRef.current,
+    y: point.y * viewportScale + centerYRef.current
+  });
+
   // Add a ref to store the legend item positions
   const legendItemPositionsRef = useRef<{ x: number, y: number, width: number, height: number, islandId: number }[]>([]);
 
@@ -154,16 +188,19 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
         ctx.lineWidth = 1;
         ctx.globalAlpha = 0.2;
         
-        // Draw a circle for each epicycle
+        // Draw the circle (or ellipse) for each epicycle
         for (let i = 0; i < island.cycles.length; i++) {
           const cycle = island.cycles[i];
           const center = positions[i]; // Current center for this epicycle
           
-          // Calculate radius in miles, then scale for rendering
-          const radius = simulator.calculateRenderRadius(cycle.period) * viewportScale;
+          // Calculate the ellipse axes in miles, then scale for rendering
+          const semiMajor = simulator.calculateCycleRadius(cycle) * viewportScale;
+          const semiMinor = simulator.calculateCycleSemiMinorAxis(cycle) * viewportScale;
+          const orientation = simulator.calculateOrientationRadians(cycle);
           
+          const canvasCenter = toCanvas(center);
           ctx.beginPath();
-          ctx.arc(center.x * viewportScale + centerXRef.current, center.y * viewportScale + centerYRef.current, radius, 0, 2 * Math.PI);
+          ctx.ellipse(canvasCenter.x, canvasCenter.y, semiMajor, semiMinor, orientation, 0, 2 * Math.PI);
           ctx.stroke();
         }
         
@@ -187,6 +224,21 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
       });
     }
     
+    // Draw the wind field
+    if (showWind && windLayers.length > 0) {
+      drawWindField(ctx, canvas.width, canvas.height);
+    }
+    
+    // Draw reachability contours beneath everything that moves
+    if (isochrones.length > 0) {
+      drawIsochrones(ctx);
+    }
+    
+    // Draw lines of sight, and the spire that can block them
+    if (sightLines.length > 0) {
+      drawSightLines(ctx);
+    }
+    
     // Draw active conjunctions
     drawActiveConjunctions(ctx);
     
@@ -199,17 +251,43 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
       });
     }
     
-    // Draw active journeys
+    // Draw active and scheduled journeys
     const activeJourneys = simulator.getActiveJourneys();
     activeJourneys.forEach(journey => {
-      if (journey.status === 'active') {
+      if (journey.status === 'active' || journey.status === 'scheduled') {
         drawActiveJourney(ctx, journey);
       }
     });
     
+    // Draw itineraries as continuous routes, then the one being planned
+    simulator.getItineraries().forEach(itinerary => {
+      if (itinerary.status !== 'completed') {
+        drawItinerary(ctx, itinerary);
+      }
+    });
+    if (plannedItinerary) {
+      drawItinerary(ctx, plannedItinerary);
+    }
+    if (roundTrip) {
+      drawItinerary(ctx, roundTrip);
+    }
+    
+    // Draw two ships converging on their meeting point
+    if (rendezvous && rendezvous.feasible) {
+      drawRendezvous(ctx, rendezvous);
+    }
+    
+    // Draw the other path models' routes underneath the predicted journey
+    comparisonJourneys.forEach(journey => {
+      if (!activeJourney || journey.pathModel !== activeJourney.pathModel) {
+        drawComparisonJourney(ctx, journey);
+      }
+    });
+    
     // Draw predicted journey path with MUI styling - only if it's actually a prediction
     if (activeJourney && activeJourney.status === 'predicted' && activeJourney.path.length > 1) {
       drawPredictedJourney(ctx, activeJourney);
+      drawClosePasses(ctx);
     }
     
     // Draw islands
@@ -228,10 +306,12 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
         ctx.fillStyle = "#000000"; // Black for print
       } else {
         // Regular styling with shadow effect
+        // Higher islands cast a softer, further offset shadow
+        const lift = Math.max(0, Math.min(position.z || 0, 5));
         ctx.shadowColor = 'rgba(0, 0, 0, 0.3)';
-        ctx.shadowBlur = 4;
-        ctx.shadowOffsetX = 1;
-        ctx.shadowOffsetY = 1;
+        ctx.shadowBlur = 4 + lift * 2;
+        ctx.shadowOffsetX = 1 + lift;
+        ctx.shadowOffsetY = 1 + lift;
         ctx.fillStyle = island.color;
       }
       
@@ -264,6 +344,15 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
       // Draw text
       ctx.fillStyle = "#212121"; // MUI default text color
       ctx.fillText(nameText, nameX, nameY);
+      
+      // Draw altitude badge for islands with a vertical oscillation
+      if (island.altitude) {
+        const altitude = position.z || 0;
+        const altitudeText = `${altitude >= 0 ? '↑' : '↓'}${Math.abs(altitude).toFixed(1)} mi`;
+        ctx.font = "400 10px Roboto, Arial, sans-serif";
+        ctx.fillStyle = customProps?.printMode ? "#000000" : theme.palette.text.secondary;
+        ctx.fillText(altitudeText, nameX, nameY + 14);
+      }
     });
     
     // Draw legend
@@ -271,7 +360,7 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
     if (shouldShowLegend) {
       drawLegend(ctx);
     }
-  }, [simulator, islands, time, showOrbits, showTrails, trailLength, activeJourney, viewportScale, theme, customProps]);
+  }, [simulator, islands, time, showOrbits, showTrails, trailLength, activeJourney, plannedItinerary, roundTrip, comparisonJourneys, closePasses, rendezvous, isochrones, sightLines, windLayers, showWind, viewportScale, theme, customProps]);
 
   // Helper function to draw active conjunctions
   const drawActiveConjunctions = (ctx: CanvasRenderingContext2D): void => {
@@ -299,7 +388,7 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
         const distance = simulator.calculateDistance(island1, island2);
         
         // Draw a circle with a radius proportional to the conjunction threshold
-        const conjunctionRadius = simulator.CONJUNCTION_THRESHOLD * viewportScale;
+        const conjunctionRadius = simulator.getConjunctionThreshold(island1, island2) * viewportScale;
         
         ctx.beginPath();
         ctx.arc(
@@ -369,22 +458,21 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
     const totalDays = trailLength / 1000; // 30 days
     const totalPoints = totalDays * pointsPerDay;
     
-    for (let i = 0; i <= totalPoints; i++) {
-      const futureTime = time + (i * trailLength / totalPoints);
-      const pos = simulator.calculatePosition(island, futureTime);
-      futureTrail.push({ 
-        x: pos.x * viewportScale + centerXRef.current, 
-        y: pos.y * viewportScale + centerYRef.current, 
-        time: futureTime 
-      });
+    // Evaluate all trail positions in one batch
+    const batch = simulator.calculatePositionsBatch([island], {
+      start: time,
+      step: trailLength / totalPoints,
+      count: totalPoints + 1
+    });
+    
+    for (let i = 0; i < batch.times.length; i++) {
+      const futureTime = batch.times[i];
+      const point = { ...toCanvas({ x: batch.x[i], y: batch.y[i] }), time: futureTime };
+      futureTrail.push(point);
       
       // Add tick mark points using trailTickFrequency
       if (i % (trailTickFrequency * pointsPerDay) === 0 && i > 0) {
-        tickPoints.push({ 
-          x: pos.x * viewportScale + centerXRef.current, 
-          y: pos.y * viewportScale + centerYRef.current, 
-          time: futureTime 
-        });
+        tickPoints.push(point);
       }
     }
     
@@ -425,7 +513,7 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
     
     if (sourceIsland && destIsland) {
       // Get the current position along the journey path
-      const currentPosition = simulator.getCurrentJourneyPosition(journey);
+      const currentPosition = simulator.getCurrentJourneyPosition(journey, time);
       
       // Get the destination position at arrival time
       const destPos = simulator.calculatePosition(destIsland, journey.arrivalTime);
@@ -441,17 +529,12 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
         ctx.globalAlpha = 0.75;
         
         ctx.beginPath();
-        ctx.moveTo(
-          currentPosition.x * viewportScale + centerXRef.current, 
-          currentPosition.y * viewportScale + centerYRef.current
-        );
+        const start = toCanvas(currentPosition);
+        ctx.moveTo(start.x, start.y);
         
         for (let i = 1; i < futurePath.length; i++) {
-          const point = futurePath[i];
-          ctx.lineTo(
-            point.x * viewportScale + centerXRef.current, 
-            point.y * viewportScale + centerYRef.current
-          );
+          const point = toCanvas(futurePath[i]);
+          ctx.lineTo(point.x, point.y);
         }
         
         ctx.stroke();
@@ -461,24 +544,17 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
         ctx.fillStyle = "#2e7d32"; // MUI green
         ctx.font = "bold 11px Roboto, Arial, sans-serif";
         
-        // Calculate remaining journey days
-        const remainingDays = Math.ceil((journey.arrivalTime - time) / 1000);
-        
-        if (remainingDays > 0) {
-          // Show one marker for each day of the journey, based on the journeyTickMarkDays setting
-          for (let day = journeyTickMarkDays; day <= remainingDays; day += journeyTickMarkDays) {
-            // Calculate what percentage of the remaining journey this day represents
-            const t = day / remainingDays;
-            // Find the corresponding index in the futurePath array
-            const markerIndex = Math.min(Math.floor(t * (futurePath.length - 1)), futurePath.length - 1);
-            const marker = futurePath[markerIndex];
-            
-            // Draw a square marker
-            const markerSize = 8;
-            const markerX = marker.x * viewportScale + centerXRef.current - markerSize/2;
-            const markerY = marker.y * viewportScale + centerYRef.current - markerSize/2;
-            ctx.fillRect(markerX, markerY, markerSize, markerSize);
-          }
+        // Count the days from now, or from departure for scheduled journeys that haven't left yet
+        const markerStart = Math.max(time, journey.startTime);
+        
+        // Show one marker for each day of the journey, based on the journeyTickMarkDays setting
+        for (let day = journeyTickMarkDays; markerStart + day * 1000 <= journey.arrivalTime; day += journeyTickMarkDays) {
+          const marker = simulator.getCurrentJourneyPosition(journey, markerStart + day * 1000);
+          
+          // Draw a square marker
+          const markerSize = 8;
+          const { x, y } = toCanvas(marker);
+          ctx.fillRect(x - markerSize/2, y - markerSize/2, markerSize, markerSize);
         }
       }
       
@@ -504,7 +580,196 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
     }
   };
   
+  // Draw the wind as a grid of arrows, longer for stronger winds
+  const drawWindField = (ctx: CanvasRenderingContext2D, width: number, height: number): void => {
+    const spacing = 48; // Pixels between arrows
+    const maxLength = spacing * 0.8;
+    const color = customProps?.printMode ? "#999999" : theme.palette.info.main;
+    
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
+    ctx.lineWidth = 1.2;
+    ctx.globalAlpha = 0.45;
+    
+    for (let px = spacing / 2; px < width; px += spacing) {
+      for (let py = spacing / 2; py < height; py += spacing) {
+        const wind = calculateWindVelocity(
+          windLayers,
+          (px - centerXRef.current) / viewportScale,
+          (py - centerYRef.current) / viewportScale,
+          time
+        );
+        const speed = Math.hypot(wind.x, wind.y);
+        if (speed < 0.05) continue;
+        
+        // 4 pixels per mph, capped so neighbouring arrows don't overlap
+        const length = Math.min(speed * 4, maxLength);
+        const dx = (wind.x / speed) * length;
+        const dy = (wind.y / speed) * length;
+        const tipX = px + dx / 2;
+        const tipY = py + dy / 2;
+        
+        ctx.beginPath();
+        ctx.moveTo(px - dx / 2, py - dy / 2);
+        ctx.lineTo(tipX, tipY);
+        ctx.stroke();
+        
+        // Arrowhead
+        const angle = Math.atan2(dy, dx);
+        ctx.beginPath();
+        ctx.moveTo(tipX, tipY);
+        ctx.lineTo(tipX - 5 * Math.cos(angle - 0.4), tipY - 5 * Math.sin(angle - 0.4));
+        ctx.lineTo(tipX - 5 * Math.cos(angle + 0.4), tipY - 5 * Math.sin(angle + 0.4));
+        ctx.closePath();
+        ctx.fill();
+      }
+    }
+    
+    ctx.globalAlpha = 1;
+  };
+  
+  // Draw the reachability contours, shaded more lightly the further out they are
+  const drawIsochrones = (ctx: CanvasRenderingContext2D): void => {
+    const contourColor = customProps?.printMode ? "#333333" : "#009688"; // MUI teal
+    
+    // Outermost first so inner contours shade on top
+    [...isochrones].reverse().forEach((isochrone, index) => {
+      if (isochrone.rings.length === 0) return;
+      
+      ctx.beginPath();
+      isochrone.rings.forEach(ring => {
+        ring.forEach((point, i) => {
+          const { x, y } = toCanvas(point);
+          if (i === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        });
+        ctx.closePath();
+      });
+      
+      // Even-odd filling leaves any unreachable hole inside the area empty
+      ctx.fillStyle = contourColor;
+      ctx.globalAlpha = 0.06;
+      ctx.fill('evenodd');
+      ctx.globalAlpha = 0.8;
+      ctx.strokeStyle = contourColor;
+      ctx.lineWidth = 1.5;
+      ctx.setLineDash(index === 0 ? [] : [5, 4]);
+      ctx.stroke();
+      ctx.setLineDash([]);
+      ctx.globalAlpha = 1;
+      
+      // Label the contour at its outermost point
+      const outermost = isochrone.rings[0].reduce((a, b) => 
+        Math.hypot(b.x, b.y) > Math.hypot(a.x, a.y) ? b : a
+      );
+      const label = toCanvas(outermost);
+      ctx.font = '11px Roboto, Arial, sans-serif';
+      ctx.fillStyle = contourColor;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'bottom';
+      ctx.fillText(`${Number(isochrone.days.toFixed(2))}d`, label.x, label.y - 3);
+    });
+    ctx.textAlign = 'start';
+    ctx.textBaseline = 'alphabetic';
+  };
+  
+  // Draw a line from the observer to each island it looks at: solid where the view is clear,
+  // dashed where something blocks it
+  const drawSightLines = (ctx: CanvasRenderingContext2D): void => {
+    // Outline the spire so it's clear what blocks the lines passing near the centre
+    const { spireRadius } = simulator.getSightModel();
+    if (spireRadius > 0) {
+      ctx.strokeStyle = customProps?.printMode ? "#333333" : theme.palette.text.secondary;
+      ctx.fillStyle = ctx.strokeStyle;
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.arc(centerXRef.current, centerYRef.current, spireRadius * viewportScale, 0, 2 * Math.PI);
+      ctx.globalAlpha = 0.1;
+      ctx.fill();
+      ctx.globalAlpha = 0.5;
+      ctx.stroke();
+      ctx.globalAlpha = 1;
+    }
+    
+    sightLines.forEach(sight => {
+      const observer = islands.find(island => island.id === sight.observerId);
+      const target = islands.find(island => island.id === sight.targetId);
+      if (!observer || !target) return;
+      
+      const from = toCanvas(simulator.calculatePosition(observer, sight.time));
+      const to = toCanvas(simulator.calculatePosition(target, sight.time));
+      ctx.strokeStyle = customProps?.printMode
+        ? "#333333"
+        : sight.visible ? SIGHT_LINE_COLORS.clear : SIGHT_LINE_COLORS.blocked;
+      ctx.lineWidth = sight.visible ? 1.5 : 1;
+      ctx.globalAlpha = sight.visible ? 0.8 : 0.6;
+      ctx.setLineDash(sight.visible ? [] : [4, 4]);
+      ctx.beginPath();
+      ctx.moveTo(from.x, from.y);
+      ctx.lineTo(to.x, to.y);
+      ctx.stroke();
+    });
+    ctx.setLineDash([]);
+    ctx.globalAlpha = 1;
+  };
+  
   // Helper function to draw the predicted journey
+  // Draw an itinerary as one continuous route with per-leg tick marks and a marker at each stop
+  const drawItinerary = (ctx: CanvasRenderingContext2D, itinerary: Itinerary): void => {
+    const isPrediction = itinerary.status === 'predicted';
+    const routeColor = customProps?.printMode ? "#333333" : isPrediction ? "#795548" : "#673ab7"; // MUI brown / deep purple
+    
+    const route = simulator.getItineraryRoute(itinerary);
+    if (route.length < 2) return;
+    
+    // Draw the route
+    ctx.strokeStyle = routeColor;
+    ctx.lineWidth = 2.5;
+    ctx.setLineDash([6, 4]);
+    ctx.globalAlpha = 0.75;
+    
+    ctx.beginPath();
+    const start = toCanvas(route[0]);
+    ctx.moveTo(start.x, start.y);
+    for (let i = 1; i < route.length; i++) {
+      const point = toCanvas(route[i]);
+      ctx.lineTo(point.x, point.y);
+    }
+    ctx.stroke();
+    ctx.setLineDash([]);
+    
+    // Draw tick marks along each leg, counted from that leg's departure
+    ctx.fillStyle = routeColor;
+    const markerSize = 7;
+    itinerary.legs.forEach(leg => {
+      for (let day = journeyTickMarkDays; day <= leg.duration; day += journeyTickMarkDays) {
+        const marker = toCanvas(simulator.getCurrentJourneyPosition(leg, leg.startTime + day * 1000));
+        ctx.fillRect(marker.x - markerSize/2, marker.y - markerSize/2, markerSize, markerSize);
+      }
+    });
+    
+    // Draw a marker at each stop: orange for layovers, red for the final destination
+    itinerary.legs.forEach((leg, index) => {
+      const stop = toCanvas(leg.path[leg.path.length - 1]);
+      const isFinal = index === itinerary.legs.length - 1;
+      ctx.fillStyle = isFinal ? "#f44336" : "#ff9800"; // MUI red / orange
+      ctx.beginPath();
+      ctx.arc(stop.x, stop.y, isFinal ? 8 : 6, 0, 2 * Math.PI);
+      ctx.fill();
+    });
+    
+    ctx.globalAlpha = 1;
+    
+    // Draw the ship's current position
+    if (!isPrediction) {
+      const current = toCanvas(simulator.getCurrentItineraryPosition(itinerary));
+      ctx.fillStyle = routeColor;
+      ctx.beginPath();
+      ctx.arc(current.x, current.y, 6, 0, 2 * Math.PI);
+      ctx.fill();
+    }
+  };
+
   const drawPredictedJourney = (ctx: CanvasRenderingContext2D, journey: Journey): void => {
     const sourceIsland = islands.find(island => island.id === journey.sourceId);
     const destIsland = islands.find(island => island.id === journey.destinationId);
@@ -550,28 +815,120 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
       ctx.font = "bold 11px Roboto, Arial, sans-serif";
       
       // Show one marker for each day of the journey, based on the journeyTickMarkDays setting
-      const journeyDays = Math.ceil(journey.duration);
-      
-      if (journeyDays > 0) {
-        for (let day = journeyTickMarkDays; day <= journeyDays; day += journeyTickMarkDays) {
-          // Calculate what percentage of the journey this day represents
-          const t = day / journey.duration;
-          // Find the corresponding index in the path array
-          const markerIndex = Math.min(Math.floor(t * (journey.path.length - 1)), journey.path.length - 1);
-          const marker = journey.path[markerIndex];
-          
-          // Draw a square marker instead of a circle
-          const markerSize = 8;
-          const markerX = marker.x * viewportScale + centerXRef.current - markerSize/2;
-          const markerY = marker.y * viewportScale + centerYRef.current - markerSize/2;
-          ctx.fillRect(markerX, markerY, markerSize, markerSize);
-        }
+      for (let day = journeyTickMarkDays; day <= journey.duration; day += journeyTickMarkDays) {
+        // Where the ship is that many days after departure
+        const marker = simulator.getCurrentJourneyPosition(journey, journey.startTime + day * 1000);
+        
+        // Draw a square marker instead of a circle
+        const markerSize = 8;
+        const { x, y } = toCanvas(marker);
+        ctx.fillRect(x - markerSize/2, y - markerSize/2, markerSize, markerSize);
       }
       
       ctx.globalAlpha = 1;
     }
   };
   
+  // Draw each ship's course to a rendezvous in its own colour, with the meeting point ringed
+  const drawRendezvous = (ctx: CanvasRenderingContext2D, meeting: Rendezvous): void => {
+    meeting.courses.forEach((course, index) => {
+      if (course.path.length < 2) return;
+      
+      const color = customProps?.printMode ? "#333333" : RENDEZVOUS_COLORS[index];
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 2.5;
+      ctx.globalAlpha = 0.85;
+      ctx.beginPath();
+      course.path.forEach((point, i) => {
+        const { x, y } = toCanvas(point);
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      });
+      ctx.stroke();
+      
+      // Mark where the ship sets out
+      const start = toCanvas(course.path[0]);
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.arc(start.x, start.y, 5, 0, 2 * Math.PI);
+      ctx.fill();
+    });
+    ctx.globalAlpha = 1;
+    
+    if (meeting.meetingPoint) {
+      const point = toCanvas(meeting.meetingPoint);
+      ctx.strokeStyle = customProps?.printMode ? "#000000" : "#ff9800"; // MUI orange
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.arc(point.x, point.y, 9, 0, 2 * Math.PI);
+      ctx.stroke();
+    }
+  };
+  
+  // Mark each close pass on the predicted route, tied to where the island will be at that moment
+  const drawClosePasses = (ctx: CanvasRenderingContext2D): void => {
+    closePasses.forEach(pass => {
+      const island = islands.find(i => i.id === pass.islandId);
+      if (!island) return;
+      
+      const color = customProps?.printMode ? "#333333" : island.color;
+      const ship = toCanvas(pass.position);
+      const islandPos = toCanvas(simulator.calculatePosition(island, pass.time));
+      
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 1;
+      ctx.setLineDash([2, 2]);
+      ctx.globalAlpha = 0.7;
+      ctx.beginPath();
+      ctx.moveTo(ship.x, ship.y);
+      ctx.lineTo(islandPos.x, islandPos.y);
+      ctx.stroke();
+      ctx.setLineDash([]);
+      
+      // A ring on the route, filled white so it stands out from the tick marks
+      ctx.globalAlpha = 1;
+      ctx.fillStyle = "#ffffff";
+      ctx.lineWidth = 2.5;
+      ctx.beginPath();
+      ctx.arc(ship.x, ship.y, 5, 0, 2 * Math.PI);
+      ctx.fill();
+      ctx.stroke();
+    });
+  };
+  
+  // Draw a journey under another path model as a thin line, labelled with the model and its travel time
+  const drawComparisonJourney = (ctx: CanvasRenderingContext2D, journey: Journey): void => {
+    if (journey.path.length < 2) return;
+    
+    const color = customProps?.printMode ? "#999999" : PATH_MODEL_COLORS[journey.pathModel];
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1.5;
+    ctx.setLineDash([2, 3]);
+    ctx.globalAlpha = 0.8;
+    
+    ctx.beginPath();
+    journey.path.forEach((point, i) => {
+      const { x, y } = toCanvas(point);
+      if (i === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    });
+    ctx.stroke();
+    ctx.setLineDash([]);
+    
+    // Label the middle of the path
+    const middle = toCanvas(journey.path[Math.floor(journey.path.length / 2)]);
+    const name = JOURNEY_PATH_MODELS.find(model => model.id === journey.pathModel)?.name ?? journey.pathModel;
+    ctx.fillStyle = color;
+    ctx.font = "11px Roboto, Arial, sans-serif";
+    ctx.fillText(
+      `${name} (${journey.duration.toFixed(2)}d)`, 
+      middle.x + 6, 
+      middle.y - 6
+    );
+    
+    ctx.globalAlpha = 1;
+  };
+  
   // Update the drawLegend function to store clickable areas and handle clicks
   const drawLegend = (ctx: CanvasRenderingContext2D): void => {
     const visibleIslands = islands.filter(island => island.visible);
@@ -0,0 +1,210 @@
+import React, { useEffect, useRef } from 'react';
+import { Box } from '@mui/material';
+import { useTheme } from '@mui/material/styles';
+import { Island, SkyView } from '../utils/sim';
+
+export type SkyViewMode = 'panorama' | 'polar';
+
+interface SkyViewChartProps {
+  view: SkyView;
+  islands: Island[];
+  mode: SkyViewMode;
+  height?: number;
+}
+
+// Chart margins in pixels (room for the compass labels)
+const MARGIN = { top: 24, right: 16, bottom: 24, left: 16 };
+
+// Names of the sixteen compass points, clockwise from north
+const COMPASS_POINTS = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
+
+// Nearest compass point to a bearing in degrees, shared with the sky view table
+export const compassPoint = (bearing: number): string =>
+  COMPASS_POINTS[Math.round((((bearing % 360) + 360) % 360) / 22.5) % 16];
+
+/**
+ * The sky around an island, either as a 360° panoramic strip of the horizon, with
+ * bearing across and elevation up at the same scale so islands show their true
+ * apparent size, or as a polar plot with north up, distance outwards and each
+ * island's disc growing with its apparent size. Islands hidden behind others or
+ * the spire are drawn faded with a dashed outline.
+ */
+const SkyViewChart: React.FC<SkyViewChartProps> = ({ view, islands, mode, height = 200 }) => {
+  const theme = useTheme();
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    // Match the canvas resolution to its displayed size
+    const width = canvas.clientWidth;
+    canvas.width = width;
+    canvas.height = height;
+
+    const plotWidth = width - MARGIN.left - MARGIN.right;
+    const plotHeight = height - MARGIN.top - MARGIN.bottom;
+    if (plotWidth <= 0 || plotHeight <= 0) return;
+
+    ctx.clearRect(0, 0, width, height);
+    ctx.font = '11px Roboto, Arial, sans-serif';
+
+    const spireColor = theme.palette.text.secondary;
+    const sightings = view.islands
+      .map(sighting => ({ sighting, island: islands.find(island => island.id === sighting.islandId) }))
+      .filter((entry): entry is { sighting: typeof entry.sighting, island: Island } => entry.island !== undefined);
+
+    // Draw an island's disc and name, faded and dashed when it can't be seen
+    const drawIsland = (island: Island, visible: boolean, x: number, y: number, radius: number) => {
+      ctx.globalAlpha = visible ? 1 : 0.35;
+      ctx.fillStyle = island.color;
+      ctx.beginPath();
+      ctx.arc(x, y, radius, 0, 2 * Math.PI);
+      ctx.fill();
+      if (!visible) {
+        ctx.strokeStyle = theme.palette.text.primary;
+        ctx.lineWidth = 1;
+        ctx.setLineDash([3, 2]);
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
+      ctx.fillStyle = theme.palette.text.primary;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'bottom';
+      ctx.fillText(island.name, x, y - radius - 2);
+      ctx.globalAlpha = 1;
+    };
+
+    if (mode === 'panorama') {
+      // Bearing across and elevation up, at the same number of pixels per degree
+      const pixelsPerDegree = plotWidth / 360;
+      const horizonY = MARGIN.top + plotHeight / 2;
+      const toX = (bearing: number) => MARGIN.left + bearing * pixelsPerDegree;
+
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(MARGIN.left, MARGIN.top, plotWidth, plotHeight);
+      ctx.clip();
+
+      // Sky above the horizon
+      ctx.fillStyle = theme.palette.info.light;
+      ctx.globalAlpha = 0.15;
+      ctx.fillRect(MARGIN.left, MARGIN.top, plotWidth, plotHeight / 2);
+      ctx.globalAlpha = 1;
+
+      // Things near north are drawn at both ends of the strip so they wrap around
+      const wrapped = (bearing: number) => [toX(bearing), toX(bearing) - plotWidth, toX(bearing) + plotWidth];
+
+      // The spire rises from the horizon across its apparent width
+      if (view.spire) {
+        const spireWidth = Math.max(view.spire.angularSize * pixelsPerDegree, 2);
+        ctx.fillStyle = spireColor;
+        ctx.globalAlpha = 0.4;
+        wrapped(view.spire.bearing).forEach(x => {
+          ctx.fillRect(x - spireWidth / 2, MARGIN.top, spireWidth, plotHeight / 2);
+        });
+        ctx.globalAlpha = 1;
+      }
+
+      // Farthest first, so nearer islands are drawn in front
+      [...sightings].sort((a, b) => b.sighting.distance - a.sighting.distance).forEach(({ sighting, island }) => {
+        const radius = Math.max(sighting.angularSize / 2 * pixelsPerDegree, 3);
+        const y = horizonY - sighting.elevation * pixelsPerDegree;
+        wrapped(sighting.bearing).forEach(x => drawIsland(island, sighting.visible, x, y, radius));
+      });
+      ctx.restore();
+
+      // Horizon and compass points
+      ctx.strokeStyle = theme.palette.divider;
+      ctx.lineWidth = 1;
+      ctx.strokeRect(MARGIN.left, MARGIN.top, plotWidth, plotHeight);
+      ctx.beginPath();
+      ctx.moveTo(MARGIN.left, horizonY);
+      ctx.lineTo(MARGIN.left + plotWidth, horizonY);
+      ctx.stroke();
+
+      ctx.fillStyle = theme.palette.text.secondary;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'top';
+      for (let bearing = 0; bearing <= 360; bearing += 45) {
+        ctx.fillText(compassPoint(bearing), toX(bearing), MARGIN.top + plotHeight + 6);
+      }
+    } else {
+      // North up, bearing clockwise and distance outwards from the observer in the middle
+      const plotRadius = Math.min(plotWidth, plotHeight) / 2;
+      const centreX = MARGIN.left + plotWidth / 2;
+      const centreY = MARGIN.top + plotHeight / 2;
+      const maxDistance = Math.max(1, ...view.islands.map(s => s.distance), view.spire ? view.spire.distance : 0);
+      const ringStep = [100, 250, 500, 1000, 2500, 5000].find(step => maxDistance / step <= 5) ?? 10000;
+      const outerDistance = Math.ceil(maxDistance / ringStep) * ringStep;
+      const toPoint = (bearing: number, distance: number) => {
+        const angle = bearing * Math.PI / 180;
+        const r = (distance / outerDistance) * plotRadius;
+        return { x: centreX + r * Math.sin(angle), y: centreY - r * Math.cos(angle) };
+      };
+
+      // Distance rings, labelled along the north line
+      ctx.strokeStyle = theme.palette.divider;
+      ctx.lineWidth = 1;
+      ctx.fillStyle = theme.palette.text.secondary;
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'middle';
+      for (let distance = ringStep; distance <= outerDistance; distance += ringStep) {
+        const r = (distance / outerDistance) * plotRadius;
+        ctx.beginPath();
+        ctx.arc(centreX, centreY, r, 0, 2 * Math.PI);
+        ctx.stroke();
+        ctx.fillText(`${distance} mi`, centreX + 3, centreY - r + 7);
+      }
+
+      // Compass points around the outside
+      ctx.textAlign = 'center';
+      for (let bearing = 0; bearing < 360; bearing += 45) {
+        const angle = bearing * Math.PI / 180;
+        ctx.fillText(
+          compassPoint(bearing),
+          centreX + (plotRadius + 12) * Math.sin(angle),
+          centreY - (plotRadius + 12) * Math.cos(angle)
+        );
+      }
+
+      // The spire at its true size on the scale of the plot
+      if (view.spire) {
+        const { x, y } = toPoint(view.spire.bearing, view.spire.distance);
+        const spireDistance = view.spire.distance;
+        const spireRadius = Math.sin(view.spire.angularSize / 2 * Math.PI / 180) * spireDistance;
+        ctx.fillStyle = spireColor;
+        ctx.globalAlpha = 0.4;
+        ctx.beginPath();
+        ctx.arc(x, y, Math.max((spireRadius / outerDistance) * plotRadius, 2), 0, 2 * Math.PI);
+        ctx.fill();
+        ctx.globalAlpha = 1;
+      }
+
+      // The observer
+      ctx.fillStyle = theme.palette.text.primary;
+      ctx.beginPath();
+      ctx.arc(centreX, centreY, 3, 0, 2 * Math.PI);
+      ctx.fill();
+
+      // Discs grow with apparent size, a pixel per degree on top of a minimum
+      [...sightings].sort((a, b) => b.sighting.distance - a.sighting.distance).forEach(({ sighting, island }) => {
+        const { x, y } = toPoint(sighting.bearing, sighting.distance);
+        drawIsland(island, sighting.visible, x, y, 3 + sighting.angularSize);
+      });
+    }
+
+    ctx.textAlign = 'start';
+    ctx.textBaseline = 'alphabetic';
+  }, [view, islands, mode, height, theme]);
+
+  return (
+    <Box sx={{ width: '100%' }}>
+      <canvas ref={canvasRef} style={{ width: '100%', height, display: 'block' }} />
+    </Box>
+  );
+};
+
+export default SkyViewChart;
@@ -0,0 +1,159 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Chip,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import SkydriftArchipelagoSimulator, { Island, SkyView } from '../utils/sim';
+import SkyViewChart, { SkyViewMode, compassPoint } from './SkyViewChart';
+import { SIGHT_LINE_COLORS } from './LineOfSightPanel';
+import StyledTableCell from './StyledTableCell';
+
+// Ways of drawing the sky, and the height of each chart
+const SKY_VIEW_MODES: { id: SkyViewMode, name: string, height: number }[] = [
+  { id: 'panorama', name: 'Panorama', height: 200 },
+  { id: 'polar', name: 'Polar plot', height: 400 }
+];
+
+interface SkyViewPanelProps {
+  simulator: SkydriftArchipelagoSimulator;
+  islands: Island[];
+  time: number;
+}
+
+const SkyViewPanel: React.FC<SkyViewPanelProps> = ({ simulator, islands, time }) => {
+  const visibleIslands = islands.filter(island => island.visible);
+  const visibleIds = visibleIslands.map(island => island.id).join(',');
+  const [observerId, setObserverId] = useState<number | null>(visibleIslands.length > 0 ? visibleIslands[0].id : null);
+  const [mode, setMode] = useState<SkyViewMode>('panorama');
+
+  // The sky follows the simulation time, so it moves while the simulation plays
+  const view = useMemo((): SkyView | null => {
+    const observer = islands.find(island => island.id === observerId);
+    if (!observer) return null;
+    return simulator.calculateSkyView(observer, time, visibleIds.split(',').map(Number));
+  }, [simulator, islands, observerId, time, visibleIds]);
+
+  const islandName = (islandId: number) => islands.find(island => island.id === islandId)?.name ?? 'Unknown';
+  const islandColor = (islandId: number) => islands.find(island => island.id === islandId)?.color;
+  const formatBearing = (bearing: number) => `${bearing.toFixed(0)}° ${compassPoint(bearing)}`;
+
+  return (
+    <Box>
+      <Typography variant="h6" gutterBottom>
+        Sky View
+      </Typography>
+
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        The sky as seen from an island: where each visible island lies on the horizon, how far away it is and how
+        large it looks. Bearings are measured clockwise from north, at the top of the map. Islands hidden behind
+        others or the central spire are faded.
+      </Typography>
+
+      <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 2, flexWrap: 'wrap' }}>
+        <Typography variant="body2">Seen from:</Typography>
+        {visibleIslands.map(island => (
+          <Chip
+            key={island.id}
+            label={island.name}
+            size="small"
+            clickable
+            variant={observerId === island.id ? 'filled' : 'outlined'}
+            onClick={() => setObserverId(island.id)}
+            sx={observerId === island.id ? { bgcolor: island.color, color: 'white' } : { borderColor: island.color }}
+          />
+        ))}
+      </Stack>
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+        {SKY_VIEW_MODES.map(entry => (
+          <Chip
+            key={entry.id}
+            label={entry.name}
+            size="small"
+            clickable
+            color={mode === entry.id ? 'primary' : 'default'}
+            variant={mode === entry.id ? 'filled' : 'outlined'}
+            onClick={() => setMode(entry.id)}
+          />
+        ))}
+      </Box>
+
+      {view ? (
+        <>
+          <Paper variant="outlined" sx={{ mb: 2, p: 1 }}>
+            <SkyViewChart
+              view={view}
+              islands={islands}
+              mode={mode}
+              height={SKY_VIEW_MODES.find(entry => entry.id === mode)?.height}
+            />
+          </Paper>
+
+          <TableContainer component={Paper} sx={{ mb: 2 }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <StyledTableCell>Island</StyledTableCell>
+                  <StyledTableCell>Bearing</StyledTableCell>
+                  <StyledTableCell>Elevation</StyledTableCell>
+                  <StyledTableCell>Distance</StyledTableCell>
+                  <StyledTableCell>Apparent Size</StyledTableCell>
+                  <StyledTableCell>View</StyledTableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {view.islands.map(sighting => (
+                  <TableRow key={sighting.islandId}>
+                    <TableCell>
+                      <Chip
+                        size="small"
+                        label={islandName(sighting.islandId)}
+                        sx={{ bgcolor: islandColor(sighting.islandId), color: 'white' }}
+                      />
+                    </TableCell>
+                    <TableCell>{formatBearing(sighting.bearing)}</TableCell>
+                    <TableCell>{`${sighting.elevation.toFixed(2)}°`}</TableCell>
+                    <TableCell>{sighting.distance.toFixed(0)} miles</TableCell>
+                    <TableCell>{`${sighting.angularSize.toFixed(2)}°`}</TableCell>
+                    <TableCell>
+                      <Chip
+                        size="small"
+                        label={sighting.visible ? 'Clear' : 'Blocked'}
+                        sx={{ bgcolor: sighting.visible ? SIGHT_LINE_COLORS.clear : SIGHT_LINE_COLORS.blocked, color: 'white' }}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {view.spire && (
+                  <TableRow>
+                    <TableCell>Central spire</TableCell>
+                    <TableCell>{formatBearing(view.spire.bearing)}</TableCell>
+                    <TableCell>-</TableCell>
+                    <TableCell>{view.spire.distance.toFixed(0)} miles</TableCell>
+                    <TableCell>{`${view.spire.angularSize.toFixed(2)}°`}</TableCell>
+                    <TableCell>-</TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      ) : (
+        <Typography variant="body2" color="text.secondary" sx={{ fontStyle: 'italic' }}>
+          Select an island to see the sky from
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default SkyViewPanel;
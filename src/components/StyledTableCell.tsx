@@ -0,0 +1,13 @@
+import { TableCell } from '@mui/material';
+import { styled } from '@mui/material/styles';
+
+// Table cell with the header styling shared by the panels' tables
+const StyledTableCell = styled(TableCell)(({ theme }) => ({
+  '&.MuiTableCell-head': {
+    backgroundColor: theme.palette.primary.main,
+    color: theme.palette.primary.contrastText,
+    fontWeight: 'bold'
+  }
+}));
+
+export default StyledTableCell;
@@ -0,0 +1,231 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  IconButton,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import { styled } from '@mui/material/styles';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import SkydriftArchipelagoSimulator, { Island } from '../utils/sim';
+import EventTimeline, { TimelineEventType, TIMELINE_EVENT_TYPES, UserEvent } from '../utils/eventTimeline';
+import { formatTime, formatDuration, parseTimeString } from '../utils/timeFormat';
+import StyledTableCell from './StyledTableCell';
+import RangePicker, { useDayRange } from './RangePicker';
+
+// Rows jump the simulation to their event when clicked
+const EventRow = styled(TableRow)(({ theme }) => ({
+  cursor: 'pointer',
+  '&:hover': {
+    backgroundColor: theme.palette.action.hover,
+  }
+}));
+
+// Most events listed at once; narrow the range or the types to see the rest
+const MAX_EVENTS = 200;
+
+interface TimelinePanelProps {
+  simulator: SkydriftArchipelagoSimulator;
+  islands: Island[];
+  time: number;
+  setTime: (time: number) => void;
+  setIsPlaying: (playing: boolean) => void;
+  userEvents: UserEvent[];
+  setUserEvents: (events: UserEvent[]) => void;
+}
+
+const TimelinePanel: React.FC<TimelinePanelProps> = ({
+  simulator,
+  islands,
+  time,
+  setTime,
+  setIsPlaying,
+  userEvents,
+  setUserEvents
+}) => {
+  const [range, setRange] = useDayRange(time, 60);
+  const [types, setTypes] = useState<TimelineEventType[]>(TIMELINE_EVENT_TYPES.map(type => type.id));
+
+  // New user event form
+  const [eventName, setEventName] = useState('');
+  const [eventDateInput, setEventDateInput] = useState('');
+  const [eventDateError, setEventDateError] = useState('');
+
+  // Journeys and itineraries are read from the simulator, and are planned in another tab,
+  // so they're up to date whenever this panel is shown
+  const events = useMemo(() => {
+    const visibleIds = islands.filter(island => island.visible).map(island => island.id);
+    const timeline = new EventTimeline(simulator, userEvents);
+    return timeline.getEvents({
+      startTime: range.start,
+      endTime: range.start + range.days * 1000,
+      types,
+      islandIds: visibleIds
+    });
+  }, [simulator, islands, userEvents, range, types]);
+
+  const toggleType = (type: TimelineEventType) => {
+    setTypes(types.includes(type) ? types.filter(t => t !== type) : [...types, type]);
+  };
+
+  const jumpTo = (eventTime: number) => {
+    setTime(eventTime);
+    setIsPlaying(false); // Pause the simulation
+  };
+
+  const addUserEvent = () => {
+    const parsedTime = parseTimeString(eventDateInput.trim());
+    if (parsedTime === null) {
+      setEventDateError('Invalid date format. Use yyyy-mm-dd [h]h');
+      return;
+    }
+
+    const id = userEvents.length > 0 ? Math.max(...userEvents.map(event => event.id)) + 1 : 1;
+    setUserEvents([...userEvents, { id, name: eventName.trim(), time: parsedTime }]);
+    setEventName('');
+    setEventDateInput('');
+    setEventDateError('');
+  };
+
+  const deleteUserEvent = (id: number) => {
+    setUserEvents(userEvents.filter(event => event.id !== id));
+  };
+
+  const typeName = (type: TimelineEventType) => TIMELINE_EVENT_TYPES.find(t => t.id === type)?.name ?? type;
+
+  return (
+    <Box>
+      <Typography variant="h6" gutterBottom>
+        Timeline
+      </Typography>
+
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Everything happening between the visible islands over a span of days: conjunctions, departures and
+        arrivals, each island's closest and farthest approach to the centre, oppositions and quadratures, line-ups of three or more
+        islands seen from the centre, and your own events.
+        Click an event to jump the simulation to it.
+      </Typography>
+
+      <Stack direction="row" spacing={2} alignItems="center" sx={{ mb: 2 }}>
+        <RangePicker time={time} range={range} setRange={setRange} />
+      </Stack>
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+        {TIMELINE_EVENT_TYPES.map(type => (
+          <Chip
+            key={type.id}
+            label={type.name}
+            size="small"
+            clickable
+            color={types.includes(type.id) ? 'primary' : 'default'}
+            variant={types.includes(type.id) ? 'filled' : 'outlined'}
+            onClick={() => toggleType(type.id)}
+          />
+        ))}
+      </Box>
+
+      <TableContainer component={Paper} sx={{ mb: 2, maxHeight: 480 }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              <StyledTableCell>Time</StyledTableCell>
+              <StyledTableCell>In</StyledTableCell>
+              <StyledTableCell>Type</StyledTableCell>
+              <StyledTableCell>Event</StyledTableCell>
+              <StyledTableCell>Distance</StyledTableCell>
+              <StyledTableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {events.length > 0 ? (
+              events.slice(0, MAX_EVENTS).map(event => {
+                const sinceNow = (event.time - time) / 1000;
+                return (
+                  <EventRow key={event.key} onClick={() => jumpTo(event.time)}>
+                    <TableCell>{formatTime(event.time)}</TableCell>
+                    <TableCell sx={{ color: sinceNow < 0 ? 'text.secondary' : undefined }}>
+                      {sinceNow < 0 ? `${formatDuration(-sinceNow)} ago` : formatDuration(sinceNow)}
+                    </TableCell>
+                    <TableCell>{typeName(event.type)}</TableCell>
+                    <TableCell>{event.title}</TableCell>
+                    <TableCell>{event.value !== undefined ? `${event.value.toFixed(0)} miles` : '-'}</TableCell>
+                    <TableCell>
+                      {event.type === 'user' && event.refId !== undefined && (
+                        <IconButton
+                          size="small"
+                          color="error"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            deleteUserEvent(event.refId as number);
+                          }}
+                        >
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      )}
+                    </TableCell>
+                  </EventRow>
+                );
+              })
+            ) : (
+              <TableRow>
+                <TableCell colSpan={6} align="center" sx={{ fontStyle: 'italic' }}>
+                  No events in this range
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {events.length > MAX_EVENTS && (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          {`Showing the first ${MAX_EVENTS} of ${events.length} events`}
+        </Typography>
+      )}
+
+      <Typography variant="subtitle1" gutterBottom>
+        Add an Event
+      </Typography>
+      <Stack direction="row" spacing={2} alignItems="flex-start">
+        <TextField
+          label="Name"
+          value={eventName}
+          onChange={(e) => setEventName(e.target.value)}
+          size="small"
+        />
+        <TextField
+          label="Date (yyyy-mm-dd [h]h)"
+          value={eventDateInput}
+          onChange={(e) => {
+            setEventDateInput(e.target.value);
+            setEventDateError('');
+          }}
+          error={!!eventDateError}
+          helperText={eventDateError || undefined}
+          size="small"
+        />
+        <Button
+          variant="outlined"
+          startIcon={<AddIcon />}
+          onClick={addUserEvent}
+          disabled={eventName.trim() === '' || eventDateInput.trim() === ''}
+        >
+          Event
+        </Button>
+      </Stack>
+    </Box>
+  );
+};
+
+export default TimelinePanel;
@@ -0,0 +1,127 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Divider,
+  IconButton,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { Vessel } from '../utils/vessels';
+
+interface VesselCatalogEditorProps {
+  vessels: Vessel[];
+  setVessels: (vessels: Vessel[]) => void;
+}
+
+// Numeric settings shown for each vessel, with the smallest value that makes sense
+const VESSEL_FIELDS: { key: keyof Vessel, label: string, min: number }[] = [
+  { key: 'speed', label: 'Speed (mph)', min: 1 },
+  { key: 'maxDays', label: 'Range (days)', min: 0.5 },
+  { key: 'costPerDay', label: 'Cost per day', min: 0 },
+  { key: 'capacity', label: 'Passengers', min: 0 }
+];
+
+const VesselCatalogEditor: React.FC<VesselCatalogEditorProps> = ({ vessels, setVessels }) => {
+  const addVessel = () => {
+    const id = vessels.length > 0 ? Math.max(...vessels.map(vessel => vessel.id)) + 1 : 1;
+    setVessels([...vessels, { id, name: 'New vessel', speed: 8, maxDays: 10, costPerDay: 20, capacity: 10 }]);
+  };
+
+  const updateVessel = (id: number, changes: Partial<Vessel>) => {
+    setVessels(vessels.map(vessel => (vessel.id === id ? { ...vessel, ...changes } : vessel)));
+  };
+
+  const deleteVessel = (id: number) => {
+    setVessels(vessels.filter(vessel => vessel.id !== id));
+  };
+
+  // Apply a numeric field, ignoring input that isn't a number yet or is too small
+  const updateNumber = (id: number, key: keyof Vessel, min: number, value: string) => {
+    const parsed = parseFloat(value);
+    if (!isNaN(parsed) && parsed >= min) {
+      updateVessel(id, { [key]: parsed });
+    }
+  };
+
+  return (
+    <Box sx={{ p: 2 }}>
+      <Paper elevation={2} sx={{ p: 2 }}>
+        <Typography variant="h6" gutterBottom>Vessels</Typography>
+        <Typography variant="body2" color="text.secondary">
+          The ships available in the journey planner. A vessel's range is the longest it can stay aloft
+          between islands, and supplies are paid for every day aloft.
+          The catalogue is saved with the islands when you export the world.
+        </Typography>
+        <Divider sx={{ my: 2 }} />
+
+        <TableContainer sx={{ mb: 2 }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Name</TableCell>
+                {VESSEL_FIELDS.map(field => (
+                  <TableCell key={field.key}>{field.label}</TableCell>
+                ))}
+                <TableCell>Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {vessels.length > 0 ? (
+                vessels.map(vessel => (
+                  <TableRow key={vessel.id}>
+                    <TableCell>
+                      <TextField
+                        value={vessel.name}
+                        onChange={(e) => updateVessel(vessel.id, { name: e.target.value })}
+                        size="small"
+                      />
+                    </TableCell>
+                    {VESSEL_FIELDS.map(field => (
+                      <TableCell key={field.key}>
+                        <TextField
+                          type="number"
+                          value={vessel[field.key]}
+                          onChange={(e) => updateNumber(vessel.id, field.key, field.min, e.target.value)}
+                          inputProps={{ min: field.min }}
+                          size="small"
+                          sx={{ width: 110 }}
+                        />
+                      </TableCell>
+                    ))}
+                    <TableCell>
+                      <IconButton size="small" color="error" onClick={() => deleteVessel(vessel.id)}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={VESSEL_FIELDS.length + 2} align="center" sx={{ fontStyle: 'italic' }}>
+                    No vessels. Journeys are planned with a speed set by hand.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+
+        <Button variant="outlined" startIcon={<AddIcon />} onClick={addVessel}>
+          Vessel
+        </Button>
+      </Paper>
+    </Box>
+  );
+};
+
+export default VesselCatalogEditor;
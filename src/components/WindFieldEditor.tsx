@@ -0,0 +1,152 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  Divider,
+  FormControlLabel,
+  IconButton,
+  Paper,
+  Stack,
+  TextField,
+  Typography
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { WindLayer, createWindLayer } from '../utils/windField';
+
+interface WindFieldEditorProps {
+  windLayers: WindLayer[];
+  setWindLayers: (layers: WindLayer[]) => void;
+}
+
+// Numeric settings shown for each kind of layer
+const LAYER_FIELDS: Record<WindLayer['type'], { key: string, label: string }[]> = {
+  uniform: [
+    { key: 'speed', label: 'Speed (mph)' },
+    { key: 'direction', label: 'Direction (°)' }
+  ],
+  vortex: [
+    { key: 'x', label: 'Centre X (mi)' },
+    { key: 'y', label: 'Centre Y (mi)' },
+    { key: 'radius', label: 'Core radius (mi)' },
+    { key: 'speed', label: 'Peak speed (mph)' }
+  ],
+  band: [
+    { key: 'innerRadius', label: 'Inner radius (mi)' },
+    { key: 'outerRadius', label: 'Outer radius (mi)' },
+    { key: 'speed', label: 'Peak speed (mph)' }
+  ]
+};
+
+const LAYER_TYPE_NAMES: Record<WindLayer['type'], string> = {
+  uniform: 'Uniform drift',
+  vortex: 'Vortex',
+  band: 'Circular band'
+};
+
+const WindFieldEditor: React.FC<WindFieldEditorProps> = ({ windLayers, setWindLayers }) => {
+  const addLayer = (type: WindLayer['type']) => {
+    const id = windLayers.length > 0 ? Math.max(...windLayers.map(layer => layer.id)) + 1 : 1;
+    setWindLayers([...windLayers, createWindLayer(type, id)]);
+  };
+
+  const updateLayer = (id: number, changes: Record<string, unknown>) => {
+    setWindLayers(windLayers.map(layer => (layer.id === id ? { ...layer, ...changes } as WindLayer : layer)));
+  };
+
+  const deleteLayer = (id: number) => {
+    setWindLayers(windLayers.filter(layer => layer.id !== id));
+  };
+
+  // Apply a numeric field, ignoring input that isn't a number yet
+  const updateNumber = (id: number, key: string, value: string) => {
+    const parsed = parseFloat(value);
+    if (!isNaN(parsed)) {
+      updateLayer(id, { [key]: parsed });
+    }
+  };
+
+  return (
+    <Box sx={{ p: 2 }}>
+      <Paper elevation={2} sx={{ p: 2 }}>
+        <Typography variant="h6" gutterBottom>Wind Field</Typography>
+        <Typography variant="body2" color="text.secondary">
+          Sky currents add up from these layers and change how fast ships make progress along their paths.
+          A rotation period turns a layer about the centre over time (negative turns the other way).
+          Layers are saved with the islands when you export the world.
+        </Typography>
+        <Divider sx={{ my: 2 }} />
+
+        {windLayers.length === 0 && (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2, fontStyle: 'italic' }}>
+            No wind. Ships travel at their set speed.
+          </Typography>
+        )}
+
+        {windLayers.map(layer => (
+          <Paper key={layer.id} variant="outlined" sx={{ p: 2, mb: 2 }}>
+            <Stack direction="row" spacing={2} alignItems="center" sx={{ mb: 2 }}>
+              <TextField
+                label="Name"
+                value={layer.name}
+                onChange={(e) => updateLayer(layer.id, { name: e.target.value })}
+                size="small"
+              />
+              <Typography variant="body2" color="text.secondary" sx={{ flexGrow: 1 }}>
+                {LAYER_TYPE_NAMES[layer.type]}
+              </Typography>
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={layer.enabled !== false}
+                    onChange={(e) => updateLayer(layer.id, { enabled: e.target.checked })}
+                  />
+                }
+                label="Enabled"
+              />
+              <IconButton size="small" color="error" onClick={() => deleteLayer(layer.id)}>
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Stack>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+              {LAYER_FIELDS[layer.type].map(field => (
+                <TextField
+                  key={field.key}
+                  label={field.label}
+                  type="number"
+                  value={(layer as unknown as Record<string, number>)[field.key]}
+                  onChange={(e) => updateNumber(layer.id, field.key, e.target.value)}
+                  size="small"
+                  sx={{ width: 150 }}
+                />
+              ))}
+              <TextField
+                label="Rotation period (days)"
+                type="number"
+                placeholder="None"
+                value={layer.rotationPeriod ?? ''}
+                onChange={(e) => updateLayer(layer.id, {
+                  rotationPeriod: e.target.value === '' ? undefined : parseFloat(e.target.value) || undefined
+                })}
+                InputLabelProps={{ shrink: true }}
+                size="small"
+                sx={{ width: 180 }}
+              />
+            </Box>
+          </Paper>
+        ))}
+
+        <Stack direction="row" spacing={2}>
+          {(Object.keys(LAYER_TYPE_NAMES) as WindLayer['type'][]).map(type => (
+            <Button key={type} variant="outlined" startIcon={<AddIcon />} onClick={() => addLayer(type)}>
+              {LAYER_TYPE_NAMES[type]}
+            </Button>
+          ))}
+        </Stack>
+      </Paper>
+    </Box>
+  );
+};
+
+export default WindFieldEditor;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import {
   Box,
   Paper,
@@ -11,15 +11,31 @@ import DirectionsBoatIcon from '@mui/icons-material/DirectionsBoat';
 import TerrainIcon from '@mui/icons-material/Terrain';
 import FilterCenterFocusIcon from '@mui/icons-material/FilterCenterFocus';
 import SettingsIcon from '@mui/icons-material/Settings';
-import SkydriftArchipelagoSimulator, { Island, Epicycle, Position, Journey, Conjunction } from '../utils/sim';
+import RadarIcon from '@mui/icons-material/Radar';
+import EventNoteIcon from '@mui/icons-material/EventNote';
+import VisibilityIcon from '@mui/icons-material/Visibility';
+import ExploreIcon from '@mui/icons-material/Explore';
+import SkydriftArchipelagoSimulator, { Island, Epicycle, AltitudeOscillation, Position, Journey, Conjunction, Itinerary, ItineraryPlan, JourneyPathModel, JOURNEY_PATH_MODELS, ClosePass, Rendezvous, LineOfSight } from '../utils/sim';
 import TimeControlPanel from './TimeControlPanel';
 import SimulationCanvas from './SimulationCanvas';
 import IslandEditor from './IslandEditor';
 import JourneyPlanner from './JourneyPlanner';
 import ConjunctionsPanel from './ConjunctionsPanel';
+import AlignmentsPanel from './AlignmentsPanel';
+import ReachabilityPanel, { ReachabilitySettings, DEFAULT_REACHABILITY_SETTINGS } from './ReachabilityPanel';
+import RendezvousPanel, { RendezvousSettings, DEFAULT_RENDEZVOUS_SETTINGS } from './RendezvousPanel';
+import LineOfSightPanel, { SightSettings, DEFAULT_SIGHT_SETTINGS } from './LineOfSightPanel';
+import SkyViewPanel from './SkyViewPanel';
 import PrintableSkyChartButton from './PrintableSkyChartButton';
 import ShareSimulationButton from './ShareSimulationButton';
 import SettingsPanel from './SettingsPanel';
+import WindFieldEditor from './WindFieldEditor';
+import VesselCatalogEditor from './VesselCatalogEditor';
+import TimelinePanel from './TimelinePanel';
+import { RepeatPeriod } from '../utils/rational';
+import { WindLayer } from '../utils/windField';
+import { Vessel, DEFAULT_VESSELS, findVessel } from '../utils/vessels';
+import { UserEvent } from '../utils/eventTimeline';
 // Import default islands from the JSON file
 import defaultIslandsData from '../data/defaultIslands.json';
 
@@ -76,12 +92,8 @@ const SkydriftArchipelagoSimulation = () => {
     let maxRadiusSum = 0;
     
     islands.forEach(island => {
-      let totalRadius = 0;
-      island.cycles.forEach(cycle => {
-        // Calculate radius in miles
-        const radius = simulatorRef.current.calculateMilesRadius(cycle.period);
-        totalRadius += radius;
-      });
+      // Farthest the island can be from the center, in miles
+      const totalRadius = simulatorRef.current.calculateRadialBounds(island).max;
       
       if (totalRadius > maxRadiusSum) {
         maxRadiusSum = totalRadius;
@@ -115,6 +127,13 @@ const SkydriftArchipelagoSimulation = () => {
   const [showTrails, setShowTrails] = useState(true);
   const [trailLength, setTrailLength] = useState(30000); // 30 days in milliseconds
   const [trailTickFrequency, setTrailTickFrequency] = useState(5); // Every 5 days by default
+  const [showWind, setShowWind] = useState(true);
+  
+  // Wind field layers, saved with the islands as part of the world
+  const [windLayers, setWindLayers] = useState<WindLayer[]>([]);
+  
+  // Vessel catalogue, also saved with the world
+  const [vessels, setVessels] = useState<Vessel[]>(DEFAULT_VESSELS);
   
   // Journey settings
   const [journeyTickMarkDays, setJourneyTickMarkDays] = useState(1); // Days between journey tick marks
@@ -122,9 +141,10 @@ const SkydriftArchipelagoSimulation = () => {
   // New island form state
   const [islandName, setIslandName] = useState("");
   const [islandColor, setIslandColor] = useState("");
+  const [islandAltitude, setIslandAltitude] = useState<AltitudeOscillation | undefined>(undefined);
   const [epicycles, setEpicycles] = useState<Epicycle[]>([
-    { period: 250 },
-    { period: -80 }  // Negative period for opposite direction
+    { period: 250, phase: 0 },
+    { period: -80, phase: 0 }  // Negative period for opposite direction
   ]);
   
   // Edit mode state
@@ -142,17 +162,39 @@ const SkydriftArchipelagoSimulation = () => {
   const [sourceIslandId, setSourceIslandId] = useState<number | null>(null);
   const [destinationIslandId, setDestinationIslandId] = useState<number | null>(null);
   const [journeySpeed, setJourneySpeed] = useState(8); // mph
+  const [vesselId, setVesselId] = useState<number | null>(3); // The trader, which cruises at 8 mph; null sets the speed by hand
+  const [departureTime, setDepartureTime] = useState<number | null>(null); // null departs at the current time
+  const [journeyPathModel, setJourneyPathModel] = useState<JourneyPathModel>('spiral');
+  const [comparePathModels, setComparePathModels] = useState(false);
+  const [closePassDistance, setClosePassDistance] = useState(100); // miles
+  const [roundTripStay, setRoundTripStay] = useState<number | null>(null); // days at the destination, null for one way
   const [activeJourney, setActiveJourney] = useState<Journey | null>(null);
   const [activeJourneys, setActiveJourneys] = useState<Journey[]>([]);
   
+  // Itinerary planning state
+  const [itineraryPlan, setItineraryPlan] = useState<ItineraryPlan | null>(null);
+  const [itineraries, setItineraries] = useState<Itinerary[]>([]);
+  
+  // Reachability state
+  const [reachabilitySettings, setReachabilitySettings] = useState<ReachabilitySettings>(DEFAULT_REACHABILITY_SETTINGS);
+  
+  // Rendezvous state
+  const [rendezvousSettings, setRendezvousSettings] = useState<RendezvousSettings>(DEFAULT_RENDEZVOUS_SETTINGS);
+  
+  // Line of sight state
+  const [sightSettings, setSightSettings] = useState<SightSettings>(DEFAULT_SIGHT_SETTINGS);
+  
+  // Events added to the timeline by the user
+  const [userEvents, setUserEvents] = useState<UserEvent[]>([]);
+  
   // Add state for tab management
-  const [activeTab, setActiveTab] = useState<'island' | 'journey' | 'conjunction' | 'settings'>('conjunction');
+  const [activeTab, setActiveTab] = useState<'island' | 'journey' | 'conjunction' | 'timeline' | 'reach' | 'sight' | 'sky' | 'settings'>('conjunction');
   
   // Add a throttle reference to limit journey updates
   const throttleRef = useRef<number | null>(null);
   
   // Add a ref to store the latest journey calculation function
-  const journeyCalculationRef = useRef<((srcId: number, destId: number) => void) | undefined>(undefined);
+  const journeyCalculationRef = useRef<((srcId: number, destId: number, departure?: number | null) => void) | undefined>(undefined);
 
   // Update epicycle value
   const updateEpicycle = (index: number, field: string, value: string): void => {
@@ -178,6 +220,11 @@ const SkydriftArchipelagoSimulation = () => {
   const calculateMilesRadius = (period: number): number => {
     return simulatorRef.current.calculateMilesRadius(period);
   };
+  
+  // Exact repeat periods shown in the island list
+  const calculateIslandRepeatPeriod = (island: Island): RepeatPeriod => {
+    return simulatorRef.current.calculateIslandRepeatPeriod(island);
+  };
 
   // Parse shared URL if present
   useEffect(() => {
@@ -245,7 +292,7 @@ const SkydriftArchipelagoSimulation = () => {
           let journeysAdded = 0;
           
           journeySpecs.forEach(spec => {
-            const [srcStr, dstStr, spdStr] = spec.split('_');
+            const [srcStr, dstStr, spdStr, modelStr] = spec.split('_');
             const sourceId = parseInt(srcStr, 10);
             const destId = parseInt(dstStr, 10);
             const speed = parseFloat(spdStr);
@@ -266,7 +313,9 @@ const SkydriftArchipelagoSimulation = () => {
               sourceId,
               destId,
               speed,
-              false // Don't just predict, add a real journey
+              false, // Don't just predict, add a real journey
+              undefined,
+              JOURNEY_PATH_MODELS.find(model => model.id === modelStr)?.id
             );
             
             if (calculatedJourney) {
@@ -332,13 +381,20 @@ const SkydriftArchipelagoSimulation = () => {
         const updatedJourneys = simulatorRef.current.updateJourneyStatuses();
         
         // Filter out completed journeys
-        const activeOnes = updatedJourneys.filter(journey => journey.status === 'active');
+        const activeOnes = updatedJourneys.filter(journey => journey.status !== 'completed');
         
         // Update state if there are any changes in journey statuses
         if (updatedJourneys.length !== activeOnes.length) {
           setActiveJourneys([...activeOnes]);
         }
         
+        // Likewise for itineraries
+        const updatedItineraries = simulatorRef.current.updateItineraryStatuses();
+        const activeItineraries = updatedItineraries.filter(itinerary => itinerary.status !== 'completed');
+        if (updatedItineraries.length !== activeItineraries.length) {
+          setItineraries(activeItineraries);
+        }
+        
         return newTime;
       });
       
@@ -366,12 +422,19 @@ const SkydriftArchipelagoSimulation = () => {
       const updatedJourneys = simulatorRef.current.updateJourneyStatuses();
       
       // Filter out completed journeys
-      const activeOnes = updatedJourneys.filter(journey => journey.status === 'active');
+      const activeOnes = updatedJourneys.filter(journey => journey.status !== 'completed');
       
       // Update state if there are any changes in journey statuses
       if (updatedJourneys.length !== activeOnes.length) {
         setActiveJourneys([...activeOnes]);
       }
+      
+      // Likewise for itineraries
+      const updatedItineraries = simulatorRef.current.updateItineraryStatuses();
+      const activeItineraries = updatedItineraries.filter(itinerary => itinerary.status !== 'completed');
+      if (updatedItineraries.length !== activeItineraries.length) {
+        setItineraries(activeItineraries);
+      }
     }
   }, [time, isPlaying]);
   
@@ -406,6 +469,127 @@ const SkydriftArchipelagoSimulation = () => {
     setActiveJourneys([...simulatorRef.current.getActiveJourneys()]);
   }, []);
   
+  // The planned itinerary, departing at the chosen departure time (or now)
+  const plannedItinerary = useMemo(() => {
+    if (!itineraryPlan || itineraryPlan.legs.length === 0) return null;
+    return simulatorRef.current.calculateItinerary(itineraryPlan, true, departureTime ?? time);
+  }, [itineraryPlan, departureTime, time]);
+  
+  // Reachability contours around the selected island, shown while the reachability tab is open
+  const isochrones = useMemo(() => {
+    const { sourceIslandId, speed, maxDays, intervalDays, pathModel, showIsochrones } = reachabilitySettings;
+    if (activeTab !== 'reach' || !showIsochrones || sourceIslandId === null) return [];
+    return simulatorRef.current.calculateIsochrones(sourceIslandId, speed, maxDays, intervalDays, time, pathModel);
+  }, [reachabilitySettings, activeTab, time]);
+  
+  // Sight lines from the selected island to every other visible island, shown while the line of sight tab is open
+  const sightLines = useMemo((): LineOfSight[] => {
+    const observer = islands.find(island => island.id === sightSettings.observerId);
+    if (activeTab !== 'sight' || !sightSettings.showSightLines || !observer) return [];
+    return islands
+      .filter(island => island.visible && island.id !== observer.id)
+      .map(island => simulatorRef.current.calculateLineOfSight(observer, island, time));
+  }, [sightSettings, islands, activeTab, time]);
+  
+  // The predicted journey under every path model, for comparison
+  const pathModelComparison = useMemo(() => {
+    if (!comparePathModels || !activeJourney || activeJourney.status !== 'predicted') return [];
+    return JOURNEY_PATH_MODELS
+      .map(model => model.id === activeJourney.pathModel ? activeJourney : simulatorRef.current.calculateJourney(
+        activeJourney.sourceId, activeJourney.destinationId, activeJourney.speed, true, activeJourney.startTime, model.id
+      ))
+      .filter((journey): journey is Journey => journey !== null);
+  }, [comparePathModels, activeJourney]);
+  
+  // Where two ships meet, shown while the journey tab is open. Ships leave their delay after now.
+  const rendezvous = useMemo((): Rendezvous | null => {
+    const { mode, pathModel, first, second, targetJourneyId } = rendezvousSettings;
+    if (activeTab !== 'journey' || first.islandId === null) return null;
+    
+    const departureTime = time + first.delayDays * 1000;
+    if (mode === 'intercept') {
+      const target = activeJourneys.find(journey => journey.id === targetJourneyId);
+      if (!target) return null;
+      return simulatorRef.current.calculateShipIntercept(first.islandId, first.speed, target, departureTime, pathModel);
+    }
+    
+    if (second.islandId === null) return null;
+    return simulatorRef.current.calculateRendezvous(
+      { islandId: first.islandId, departureTime, speed: first.speed },
+      { islandId: second.islandId, departureTime: time + second.delayDays * 1000, speed: second.speed },
+      pathModel === 'straight' ? 'straight' : 'spiral'
+    );
+  }, [rendezvousSettings, activeTab, activeJourneys, time]);
+  
+  // The predicted journey as a round trip, returning after the stay from where the islands are then
+  const roundTrip = useMemo(() => {
+    if (roundTripStay === null || !activeJourney || activeJourney.status !== 'predicted') return null;
+    return simulatorRef.current.calculateRoundTrip(
+      activeJourney.sourceId, activeJourney.destinationId, activeJourney.speed, roundTripStay, true,
+      activeJourney.startTime, activeJourney.pathModel, activeJourney.vesselId
+    );
+  }, [roundTripStay, activeJourney]);
+  
+  // Visible islands the predicted journey flies close to
+  const closePasses = useMemo((): ClosePass[] => {
+    if (!activeJourney || activeJourney.status !== 'predicted') return [];
+    const visibleIds = islands.filter(island => island.visible).map(island => island.id);
+    return simulatorRef.current.calculateClosePasses(activeJourney, closePassDistance, visibleIds);
+  }, [activeJourney, closePassDistance, islands]);
+  
+  // Append the selected source and destination to the itinerary plan as a new leg,
+  // then continue planning from the destination
+  const addItineraryLeg = (layoverDays: number): void => {
+    if (sourceIslandId === null || destinationIslandId === null) return;
+    
+    const plan = itineraryPlan || { sourceId: sourceIslandId, legs: [] };
+    setItineraryPlan({
+      ...plan,
+      legs: [...plan.legs, {
+        destinationId: destinationIslandId,
+        speed: journeySpeed,
+        layover: layoverDays,
+        pathModel: journeyPathModel,
+        vesselId: vesselId ?? undefined
+      }]
+    });
+    
+    const nextSourceId = destinationIslandId;
+    clearJourney();
+    setSourceIslandId(nextSourceId);
+  };
+  
+  // Replace the itinerary plan with a proposed route, departing at the given time
+  const proposeItinerary = (plan: ItineraryPlan, departure: number): void => {
+    setItineraryPlan(plan);
+    setDepartureTimeAndCalculate(departure);
+  };
+  
+  // Add the planned itinerary to the simulation
+  const addItinerary = (): void => {
+    if (!plannedItinerary) return;
+    
+    simulatorRef.current.addItinerary(plannedItinerary);
+    setItineraries([...simulatorRef.current.getItineraries()]);
+    setItineraryPlan(null);
+    clearJourney();
+  };
+  
+  // Add the predicted round trip as an itinerary
+  const addRoundTrip = (): void => {
+    if (!roundTrip) return;
+    
+    simulatorRef.current.addItinerary(roundTrip);
+    setItineraries([...simulatorRef.current.getItineraries()]);
+    clearJourney();
+  };
+  
+  // Delete an itinerary by ID
+  const deleteItinerary = useCallback((itineraryId: number) => {
+    simulatorRef.current.deleteItinerary(itineraryId);
+    setItineraries([...simulatorRef.current.getItineraries()]);
+  }, []);
+  
   // Update clearJourney to remove drawCanvas call
   const clearJourney = () => {
     setActiveJourney(null);
@@ -448,7 +632,8 @@ const SkydriftArchipelagoSimulation = () => {
         color: color,
         radius: 8,
         cycles: cycles,
-        visible: true
+        visible: true,
+        altitude: islandAltitude
       };
       
       simulatorRef.current.updateIsland(updatedIsland);
@@ -464,7 +649,8 @@ const SkydriftArchipelagoSimulation = () => {
         color: color,
         radius: 8,
         cycles: cycles,
-        visible: true
+        visible: true,
+        altitude: islandAltitude
       };
       
       simulatorRef.current.addIsland(newIsland);
@@ -499,7 +685,8 @@ const SkydriftArchipelagoSimulation = () => {
   const editIsland = (island: Island): void => {
     setIslandName(island.name);
     setIslandColor(island.color);
-    setEpicycles([...island.cycles]);
+    setEpicycles(island.cycles.map(cycle => ({ ...cycle, phase: cycle.phase || 0 })));
+    setIslandAltitude(island.altitude ? { ...island.altitude } : undefined);
     setEditMode(true);
     setEditingIslandId(island.id);
   };
@@ -507,7 +694,8 @@ const SkydriftArchipelagoSimulation = () => {
   // Add a new epicycle to the form
   const addEpicycle = (): void => {
     setEpicycles([...epicycles, {
-      period: 5
+      period: 5,
+      phase: 0
     }]);
   };
   
@@ -583,14 +771,78 @@ const SkydriftArchipelagoSimulation = () => {
   };
 
   // Memoize the journey calculation function for better performance
-  const calculateJourneyWithIds = useCallback((srcId: number, destId: number) => {
+  const calculateJourneyWithIds = useCallback((
+    srcId: number, 
+    destId: number, 
+    departure: number | null = departureTime, 
+    pathModel: JourneyPathModel = journeyPathModel
+  ) => {
     // Let the simulator calculate the journey as a prediction
-    const journey = simulatorRef.current.calculateJourney(srcId, destId, journeySpeed, true);
+    const journey = simulatorRef.current.calculateJourney(
+      srcId, destId, journeySpeed, true, departure ?? undefined, pathModel
+    );
     
     if (journey) {
+      journey.vesselId = vesselId ?? undefined;
       setActiveJourney(journey);
     }
-  }, [journeySpeed]);
+  }, [journeySpeed, vesselId, departureTime, journeyPathModel]);
+
+  // Set the departure time and recalculate the journey if both islands are selected
+  const setDepartureTimeAndCalculate = useCallback((departure: number | null): void => {
+    setDepartureTime(departure);
+    
+    if (sourceIslandId !== null && destinationIslandId !== null) {
+      calculateJourneyWithIds(sourceIslandId, destinationIslandId, departure);
+    }
+  }, [sourceIslandId, destinationIslandId, calculateJourneyWithIds]);
+  
+  // Update the line of sight settings, applying what blocks the view to the simulator
+  const updateSightSettings = (settings: SightSettings): void => {
+    simulatorRef.current.setSightModel(settings.model);
+    setSightSettings(settings);
+  };
+  
+  // Replace the wind layers and recalculate the journey, since the wind changes its timing
+  const updateWindLayers = (layers: WindLayer[]): void => {
+    simulatorRef.current.setWindLayers(layers);
+    setWindLayers(layers);
+    
+    if (sourceIslandId !== null && destinationIslandId !== null) {
+      calculateJourneyWithIds(sourceIslandId, destinationIslandId);
+    }
+  };
+  
+  // Fly a vessel from the catalogue at its cruise speed, or set the speed by hand when null
+  const selectVessel = (id: number | null): void => {
+    setVesselId(id);
+    
+    const vessel = findVessel(vessels, id);
+    if (vessel) {
+      setJourneySpeed(vessel.speed);
+    }
+  };
+  
+  // Replace the vessel catalogue, keeping the selected vessel's speed in step with any edits
+  const updateVessels = (newVessels: Vessel[]): void => {
+    setVessels(newVessels);
+    
+    const vessel = findVessel(newVessels, vesselId);
+    if (vessel) {
+      setJourneySpeed(vessel.speed);
+    } else {
+      setVesselId(null);
+    }
+  };
+  
+  // Set the path model and recalculate the journey if both islands are selected
+  const setJourneyPathModelAndCalculate = (pathModel: JourneyPathModel): void => {
+    setJourneyPathModel(pathModel);
+    
+    if (sourceIslandId !== null && destinationIslandId !== null) {
+      calculateJourneyWithIds(sourceIslandId, destinationIslandId, departureTime, pathModel);
+    }
+  };
   
   // Update the journey calculation ref when the function changes
   useEffect(() => {
@@ -603,9 +855,10 @@ const SkydriftArchipelagoSimulation = () => {
     setEditingIslandId(null);
     setIslandName("");
     setIslandColor("");
+    setIslandAltitude(undefined);
     setEpicycles([
-      { period: 250 },
-      { period: -80 }  // Negative period for opposite direction
+      { period: 250, phase: 0 },
+      { period: -80, phase: 0 }  // Negative period for opposite direction
     ]);
   };
 
@@ -748,6 +1001,15 @@ const SkydriftArchipelagoSimulation = () => {
           trailLength={trailLength}
           trailTickFrequency={trailTickFrequency}
           activeJourney={activeJourney}
+          plannedItinerary={plannedItinerary}
+          roundTrip={roundTrip}
+          comparisonJourneys={pathModelComparison}
+          closePasses={closePasses}
+          rendezvous={rendezvous}
+          isochrones={isochrones}
+          sightLines={sightLines}
+          windLayers={windLayers}
+          showWind={showWind}
           viewportScale={viewportScale}
           journeyTickMarkDays={journeyTickMarkDays}
           onResize={(width, height) => {
@@ -774,12 +1036,36 @@ const SkydriftArchipelagoSimulation = () => {
               label="Conjunctions" 
               value="conjunction" 
             />
+            <Tab 
+              icon={<EventNoteIcon />} 
+              iconPosition="start" 
+              label="Timeline" 
+              value="timeline" 
+            />
             <Tab 
               icon={<DirectionsBoatIcon />} 
               iconPosition="start" 
               label="Journey Planner" 
               value="journey" 
             />
+            <Tab 
+              icon={<RadarIcon />} 
+              iconPosition="start" 
+              label="Reachability" 
+              value="reach" 
+            />
+            <Tab 
+              icon={<VisibilityIcon />} 
+              iconPosition="start" 
+              label="Line of Sight" 
+              value="sight" 
+            />
+            <Tab 
+              icon={<ExploreIcon />} 
+              iconPosition="start" 
+              label="Sky View" 
+              value="sky" 
+            />
             <Tab 
               icon={<SettingsIcon />} 
               iconPosition="start" 
@@ -806,6 +1092,28 @@ const SkydriftArchipelagoSimulation = () => {
           />
         )}
 
+        {activeTab === 'conjunction' && (
+          <AlignmentsPanel
+            simulator={simulatorRef.current}
+            islands={islands}
+            currentTime={time}
+            setTime={setTime}
+            setIsPlaying={setIsPlaying}
+          />
+        )}
+
+        {activeTab === 'timeline' && (
+          <TimelinePanel
+            simulator={simulatorRef.current}
+            islands={islands}
+            time={time}
+            setTime={setTime}
+            setIsPlaying={setIsPlaying}
+            userEvents={userEvents}
+            setUserEvents={setUserEvents}
+          />
+        )}
+
         {activeTab === 'journey' && (
           <JourneyPlanner
             islands={islands}
@@ -816,6 +1124,23 @@ const SkydriftArchipelagoSimulation = () => {
             setDestinationIslandId={setDestinationIslandId}
             journeySpeed={journeySpeed}
             setJourneySpeed={setJourneySpeed}
+            vessels={vessels}
+            vesselId={vesselId}
+            setVesselId={selectVessel}
+            departureTime={departureTime}
+            setDepartureTime={setDepartureTimeAndCalculate}
+            journeyPathModel={journeyPathModel}
+            setJourneyPathModel={setJourneyPathModelAndCalculate}
+            comparePathModels={comparePathModels}
+            setComparePathModels={setComparePathModels}
+            pathModelComparison={pathModelComparison}
+            closePasses={closePasses}
+            closePassDistance={closePassDistance}
+            setClosePassDistance={setClosePassDistance}
+            roundTripStay={roundTripStay}
+            setRoundTripStay={setRoundTripStay}
+            roundTrip={roundTrip}
+            addRoundTrip={addRoundTrip}
             activeJourney={activeJourney}
             clearJourney={clearJourney}
             setSourceIslandIdAndCalculate={setSourceIslandIdAndCalculate}
@@ -823,11 +1148,60 @@ const SkydriftArchipelagoSimulation = () => {
             activeJourneys={activeJourneys}
             addActiveJourney={addActiveJourney}
             deleteJourney={deleteJourney}
+            itineraryPlan={itineraryPlan}
+            plannedItinerary={plannedItinerary}
+            addItineraryLeg={addItineraryLeg}
+            clearItineraryPlan={() => setItineraryPlan(null)}
+            proposeItinerary={proposeItinerary}
+            itineraries={itineraries}
+            addItinerary={addItinerary}
+            deleteItinerary={deleteItinerary}
             simulator={simulatorRef.current}
             time={time}
           />
         )}
         
+        {activeTab === 'journey' && (
+          <RendezvousPanel
+            islands={islands}
+            journeys={activeJourneys}
+            time={time}
+            settings={rendezvousSettings}
+            setSettings={setRendezvousSettings}
+            rendezvous={rendezvous}
+          />
+        )}
+        
+        {activeTab === 'reach' && (
+          <ReachabilityPanel
+            simulator={simulatorRef.current}
+            islands={islands}
+            time={time}
+            settings={reachabilitySettings}
+            setSettings={setReachabilitySettings}
+          />
+        )}
+        
+        {activeTab === 'sight' && (
+          <LineOfSightPanel
+            simulator={simulatorRef.current}
+            islands={islands}
+            time={time}
+            setTime={setTime}
+            setIsPlaying={setIsPlaying}
+            settings={sightSettings}
+            setSettings={updateSightSettings}
+          />
+        )}
+        
+        {activeTab === 'sky' && (
+          <SkyViewPanel
+            simulator={simulatorRef.current}
+            islands={islands}
+            time={time}
+          />
+        )}
+        
         {activeTab === 'settings' && (
           <SettingsPanel
             showOrbits={showOrbits}
@@ -838,13 +1212,31 @@ const SkydriftArchipelagoSimulation = () => {
             setTrailLength={setTrailLength}
             trailTickFrequency={trailTickFrequency}
             setTrailTickFrequency={setTrailTickFrequency}
+            showWind={showWind}
+            setShowWind={setShowWind}
             journeyTickMarkDays={journeyTickMarkDays}
             setJourneyTickMarkDays={setJourneyTickMarkDays}
           />
         )}
+        
+        {activeTab === 'settings' && (
+          <WindFieldEditor
+            windLayers={windLayers}
+            setWindLayers={updateWindLayers}
+          />
+        )}
+        
+        {activeTab === 'settings' && (
+          <VesselCatalogEditor
+            vessels={vessels}
+            setVessels={updateVessels}
+          />
+        )}
 
         {activeTab === 'island' && (
           <IslandEditor
+            simulator={simulatorRef.current}
+            time={time}
             islands={islands}
             islandName={islandName}
             setIslandName={setIslandName}
@@ -852,6 +1244,8 @@ const SkydriftArchipelagoSimulation = () => {
             setIslandColor={setIslandColor}
             epicycles={epicycles}
             setEpicycles={setEpicycles}
+            islandAltitude={islandAltitude}
+            setIslandAltitude={setIslandAltitude}
             addIsland={addIsland}
             editMode={editMode}
             resetIslandForm={resetIslandForm}
@@ -859,11 +1253,19 @@ const SkydriftArchipelagoSimulation = () => {
             editIsland={editIsland}
             deleteIsland={deleteIsland}
             calculateMilesRadius={calculateMilesRadius}
+            calculateIslandRepeatPeriod={calculateIslandRepeatPeriod}
+            archipelagoRepeatPeriod={simulatorRef.current.calculateArchipelagoRepeatPeriod(islands)}
             setIslands={(newIslands) => {
               simulatorRef.current.setIslands(newIslands);
               setIslands([...simulatorRef.current.getIslands()]);
               updateViewportScale();
             }}
+            windLayers={windLayers}
+            setWindLayers={updateWindLayers}
+            vessels={vessels}
+            setVessels={updateVessels}
+            userEvents={userEvents}
+            setUserEvents={setUserEvents}
           />
         )}
       </Paper>
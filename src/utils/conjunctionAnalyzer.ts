@@ -1,4 +1,4 @@
-import SkydriftArchipelagoSimulator, { Island, Conjunction } from './sim';
+import SkydriftArchipelagoSimulator, { Island, Conjunction, ConjunctionThresholdModel, Alignment, AlignmentOptions } from './sim';
 
 /**
  * Statistics about conjunctions between a pair of islands
@@ -21,6 +21,22 @@ export interface ConjunctionStats {
   allConjunctions: Conjunction[]; // all conjunctions found
 }
 
+/**
+ * Statistics about alignments of a group of islands
+ */
+export interface AlignmentStats {
+  islandIds: number[];
+  islandNames: string[];
+  totalAlignments: number;
+  avgAlignmentDuration: number;
+  minAlignmentDuration: number;
+  maxAlignmentDuration: number;
+  avgTimeBetweenAlignments: number | null; // days between starts (null if the group aligned only once)
+  minSpread: number;                       // tightest spread seen, in the tolerance's units
+  alignmentTimes: number[];                // timestamps of alignment start times
+  allAlignments: Alignment[];              // all alignments found
+}
+
 /**
  * Parameters for conjunction analysis
  */
@@ -28,6 +44,7 @@ export interface AnalysisParams {
   simulationDays: number;
   timeStepDays: number;
   startTimeMs?: number; // Optional start time in milliseconds
+  tier?: string;        // Optional conjunction tier (defaults to the threshold model's default tier)
 }
 
 /**
@@ -39,7 +56,7 @@ export interface IslandPair {
 }
 
 /**
- * A class that analyzes island conjunctions over an extended period
+ * A class that analyzes island conjunctions, and alignments of three or more islands, over an extended period
  */
 export default class ConjunctionAnalyzer {
   private simulator: SkydriftArchipelagoSimulator;
@@ -48,10 +65,14 @@ export default class ConjunctionAnalyzer {
   /**
    * Create a new conjunction analyzer
    * @param islands The islands to analyze
+   * @param thresholds Optional conjunction threshold model (tiers, radius scaling, pair overrides)
    */
-  constructor(islands: Island[]) {
+  constructor(islands: Island[], thresholds?: Partial<ConjunctionThresholdModel>) {
     this.islands = [...islands];
     this.simulator = new SkydriftArchipelagoSimulator(this.islands);
+    if (thresholds) {
+      this.simulator.setConjunctionThresholds(thresholds);
+    }
   }
   
   /**
@@ -149,7 +170,8 @@ export default class ConjunctionAnalyzer {
       const conjunctions = this.simulator.calculateUpcomingConjunctions(
         params.timeStepDays,
         time,
-        targetPairs
+        targetPairs,
+        params.tier
       );
       
       // Add to the accumulating list
@@ -243,6 +265,85 @@ export default class ConjunctionAnalyzer {
     return stats;
   }
   
+  /**
+   * Run an alignment analysis for a specified period
+   * @param options What counts as an alignment (line-up or cluster, how many islands, tolerance)
+   * @param params Analysis parameters (the conjunction tier is not used)
+   * @returns Object mapping groups of island IDs (in ID order, comma separated) to their alignment
+   *          statistics, for every group that aligned at least once
+   */
+  public analyzeAlignments(
+    options: AlignmentOptions,
+    params: AnalysisParams = { 
+      simulationDays: 3650, // 10 years by default
+      timeStepDays: 365     // Process in 1-year chunks
+    }
+  ): Map<string, AlignmentStats> {
+    const startTimeMs = params.startTimeMs || 0;
+    const endTimeMs = startTimeMs + params.simulationDays * 1000;
+    const chunkSizeMs = params.timeStepDays * 1000;
+    
+    // Collect all alignments. Those under way at the start of a chunk were found in the previous one.
+    const allAlignments: Alignment[] = [];
+    
+    for (let time = startTimeMs; time < endTimeMs; time += chunkSizeMs) {
+      const chunkDays = Math.min(chunkSizeMs, endTimeMs - time) / 1000;
+      const alignments = this.simulator.calculateUpcomingAlignments(options, chunkDays, time);
+      allAlignments.push(...alignments.filter(alignment => time === startTimeMs || alignment.startTime >= time));
+    }
+    
+    const stats = new Map<string, AlignmentStats>();
+    
+    for (const alignment of allAlignments) {
+      const groupKey = alignment.islandIds.join(',');
+      let groupStats = stats.get(groupKey);
+      
+      if (!groupStats) {
+        groupStats = {
+          islandIds: alignment.islandIds,
+          islandNames: alignment.islandIds.map(id => this.islands.find(island => island.id === id)?.name ?? 'Unknown'),
+          totalAlignments: 0,
+          avgAlignmentDuration: 0,
+          minAlignmentDuration: Infinity,
+          maxAlignmentDuration: 0,
+          avgTimeBetweenAlignments: null,
+          minSpread: Infinity,
+          alignmentTimes: [],
+          allAlignments: []
+        };
+        stats.set(groupKey, groupStats);
+      }
+      
+      // Track this alignment
+      groupStats.totalAlignments++;
+      groupStats.allAlignments.push(alignment);
+      groupStats.alignmentTimes.push(alignment.startTime);
+      
+      // Update min/max/avg duration
+      const duration = alignment.duration;
+      groupStats.avgAlignmentDuration = 
+        (groupStats.avgAlignmentDuration * (groupStats.totalAlignments - 1) + duration) / 
+        groupStats.totalAlignments;
+        
+      groupStats.minAlignmentDuration = Math.min(groupStats.minAlignmentDuration, duration);
+      groupStats.maxAlignmentDuration = Math.max(groupStats.maxAlignmentDuration, duration);
+      groupStats.minSpread = Math.min(groupStats.minSpread, alignment.minSpread);
+    }
+    
+    // Average interval between the starts of a group's alignments
+    for (const groupStats of Array.from(stats.values())) {
+      groupStats.alignmentTimes.sort((a: number, b: number) => a - b);
+      
+      const count = groupStats.alignmentTimes.length;
+      if (count > 1) {
+        groupStats.avgTimeBetweenAlignments = 
+          (groupStats.alignmentTimes[count - 1] - groupStats.alignmentTimes[0]) / 1000 / (count - 1);
+      }
+    }
+    
+    return stats;
+  }
+  
   /**
    * Create a unique key for an island pair (order doesn't matter)
    */
@@ -0,0 +1,47 @@
+import { AngularEvent } from './sim';
+import { serializeAngularEventsCsv } from './eventExport';
+
+const event: AngularEvent = {
+  id: 1,
+  aspect: 'opposition',
+  island1Id: 1,
+  island2Id: 2,
+  island1Name: 'Aerie',
+  island2Name: 'Brink',
+  startTime: 1500,
+  endTime: 3500,
+  time: 2500,
+  separation: 179.5,
+  distance: 1234.56,
+  duration: 2
+};
+
+describe('serializeAngularEventsCsv', () => {
+  test('writes a header row and one row per event', () => {
+    const lines = serializeAngularEventsCsv([event]).split('\n');
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toBe(
+      'Aspect,Island 1,Island 2,Start,Exact,End,Start (day),Exact (day),End (day),' +
+      'Duration (days),Separation (degrees),Distance (miles)'
+    );
+    expect(lines[1]).toBe(
+      'Opposition,Aerie,Brink,0000-01-02 12h,0000-01-03 12h,0000-01-04 12h,' +
+      '1.500,2.500,3.500,2.000,179.50,1234.6'
+    );
+    expect(lines[2]).toBe('');
+  });
+
+  test('quotes fields containing commas or quotes', () => {
+    const csv = serializeAngularEventsCsv([
+      { ...event, island1Name: 'Aerie, the High', island2Name: 'The "Brink"' }
+    ]);
+    expect(csv.split('\n')[1]).toMatch(/^Opposition,"Aerie, the High","The ""Brink""",0000-01-02 12h,/);
+  });
+
+  test('writes only the header when there are no events', () => {
+    expect(serializeAngularEventsCsv([])).toBe(
+      'Aspect,Island 1,Island 2,Start,Exact,End,Start (day),Exact (day),End (day),' +
+      'Duration (days),Separation (degrees),Distance (miles)\n'
+    );
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Exporting events as CSV
+ *
+ * Each event is written as one row, with its times both formatted as a date
+ * and given as a simulation day number so the file can be sorted or plotted
+ * in a spreadsheet. Fields containing commas or quotes are quoted.
+ */
+
+import { AngularEvent, ANGULAR_ASPECTS } from './sim';
+import { formatTime } from './timeFormat';
+
+/**
+ * Quote a CSV field if it needs it
+ */
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Join rows of fields into CSV text
+ */
+function toCsv(rows: (string | number)[][]): string {
+  return rows.map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Write oppositions and quadratures as CSV
+ *
+ * @param events Events to write, in the order given
+ * @returns CSV text with a header row
+ */
+export function serializeAngularEventsCsv(events: AngularEvent[]): string {
+  const header = [
+    'Aspect', 'Island 1', 'Island 2',
+    'Start', 'Exact', 'End', 'Start (day)', 'Exact (day)', 'End (day)',
+    'Duration (days)', 'Separation (degrees)', 'Distance (miles)'
+  ];
+
+  const rows = events.map(event => [
+    ANGULAR_ASPECTS.find(aspect => aspect.id === event.aspect)?.name ?? event.aspect,
+    event.island1Name,
+    event.island2Name,
+    formatTime(event.startTime),
+    formatTime(event.time),
+    formatTime(event.endTime),
+    (event.startTime / 1000).toFixed(3),
+    (event.time / 1000).toFixed(3),
+    (event.endTime / 1000).toFixed(3),
+    event.duration.toFixed(3),
+    event.separation.toFixed(2),
+    event.distance.toFixed(1)
+  ]);
+
+  return toCsv([header, ...rows]);
+}
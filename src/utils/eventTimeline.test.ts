@@ -0,0 +1,33 @@
+import SkydriftArchipelagoSimulator, { Island } from './sim';
+import EventTimeline from './eventTimeline';
+
+// Three islands on the same circle turning at different rates, so every pair meets within 60 days
+const islands: Island[] = [
+  { id: 1, name: 'Aerie', color: '#ff0000', radius: 0, cycles: [{ period: 30, radius: 1000, phase: 10 }], visible: true },
+  { id: 2, name: 'Brink', color: '#00ff00', radius: 0, cycles: [{ period: -45, radius: 1000 }], visible: true },
+  { id: 3, name: 'Cairn', color: '#0000ff', radius: 0, cycles: [{ period: 20, radius: 1000, phase: 200 }], visible: false }
+];
+
+describe('EventTimeline.getEvents', () => {
+  const simulator = new SkydriftArchipelagoSimulator(islands);
+  const timeline = new EventTimeline(simulator, [{ id: 1, name: 'Festival', time: 5000 }]);
+
+  test('leaves out events involving islands outside the query', () => {
+    const all = timeline.getEvents({ startTime: 0, endTime: 60 * 1000, types: ['conjunction-peak', 'opposition'] });
+    expect(all.some(event => event.islandIds.includes(3))).toBe(true);
+
+    const visible = timeline.getEvents({
+      startTime: 0,
+      endTime: 60 * 1000,
+      types: ['conjunction-peak', 'opposition'],
+      islandIds: [1, 2]
+    });
+    expect(visible.length).toBeGreaterThan(0);
+    visible.forEach(event => expect(event.islandIds).toEqual([1, 2]));
+  });
+
+  test('keeps user events whatever the islands', () => {
+    const events = timeline.getEvents({ startTime: 0, endTime: 60 * 1000, types: ['user'], islandIds: [1] });
+    expect(events.map(event => event.title)).toEqual(['Festival']);
+  });
+});
@@ -0,0 +1,313 @@
+import SkydriftArchipelagoSimulator, { Island, Journey, AngularAspect, DEFAULT_ALIGNMENT_OPTIONS } from './sim';
+
+/**
+ * Kinds of event on the timeline
+ */
+export type TimelineEventType =
+  | 'conjunction-start'
+  | 'conjunction-peak'
+  | 'conjunction-end'
+  | 'departure'
+  | 'arrival'
+  | 'periapsis'
+  | 'apoapsis'
+  | 'opposition'
+  | 'quadrature'
+  | 'alignment'
+  | 'user';
+
+/**
+ * Display names for each kind of event, in the order they are listed
+ */
+export const TIMELINE_EVENT_TYPES: { id: TimelineEventType, name: string }[] = [
+  { id: 'conjunction-start', name: 'Conjunction begins' },
+  { id: 'conjunction-peak', name: 'Conjunction peak' },
+  { id: 'conjunction-end', name: 'Conjunction ends' },
+  { id: 'departure', name: 'Departure' },
+  { id: 'arrival', name: 'Arrival' },
+  { id: 'periapsis', name: 'Closest to centre' },
+  { id: 'apoapsis', name: 'Farthest from centre' },
+  { id: 'opposition', name: 'Opposition' },
+  { id: 'quadrature', name: 'Quadrature' },
+  { id: 'alignment', name: 'Alignment' },
+  { id: 'user', name: 'User event' }
+];
+
+/**
+ * A single event on the timeline
+ */
+export interface TimelineEvent {
+  key: string;              // Unique within a timeline query
+  type: TimelineEventType;
+  time: number;             // Simulation time (ms)
+  title: string;
+  islandIds: number[];      // Islands involved, if any
+  value?: number;           // Distance in miles, where the event has one
+  refId?: number;           // ID of the journey or user event behind the event
+}
+
+/**
+ * An event added by the user, such as a festival or a deadline
+ */
+export interface UserEvent {
+  id: number;
+  name: string;
+  time: number;             // Simulation time (ms)
+  description?: string;
+}
+
+/**
+ * Time range and filters for a timeline query
+ */
+export interface TimelineQuery {
+  startTime: number;
+  endTime: number;
+  types?: TimelineEventType[];  // Defaults to every type
+  islandIds?: number[];         // Only events whose islands are all among these (user events always match)
+}
+
+/**
+ * Something that produces timeline events. Sources are only asked for events when the
+ * query wants one of their types.
+ */
+export interface TimelineEventSource {
+  types: TimelineEventType[];
+  collect: (query: TimelineQuery) => TimelineEvent[];
+}
+
+/**
+ * Check that a parsed object looks like a user event
+ *
+ * @param event Value read from a configuration file
+ * @returns True if the value can be used as a user event
+ */
+export function isUserEvent(event: unknown): event is UserEvent {
+  if (!event || typeof event !== 'object') return false;
+
+  const candidate = event as Record<string, unknown>;
+  return typeof candidate.id === 'number' &&
+    typeof candidate.name === 'string' &&
+    typeof candidate.time === 'number';
+}
+
+/**
+ * A class that merges everything that happens in the archipelago into one time-sorted stream:
+ * conjunctions, journey departures and arrivals, the islands' closest and farthest approaches
+ * to the centre, oppositions and quadratures, alignments of three or more islands, and events added
+ * by the user.
+ *
+ * Events are worked out from the simulator it is given, so journeys and itineraries added to the
+ * simulator appear on the timeline. Further kinds of event can be added with addSource.
+ */
+export default class EventTimeline {
+  private simulator: SkydriftArchipelagoSimulator;
+  private userEvents: UserEvent[] = [];
+  private sources: TimelineEventSource[];
+
+  /**
+   * Create a new event timeline
+   * @param simulator The simulator whose islands, journeys and itineraries produce the events
+   * @param userEvents Events added by the user
+   */
+  constructor(simulator: SkydriftArchipelagoSimulator, userEvents: UserEvent[] = []) {
+    this.simulator = simulator;
+    this.userEvents = [...userEvents];
+    this.sources = [
+      { types: ['conjunction-start', 'conjunction-peak', 'conjunction-end'], collect: query => this.collectConjunctions(query) },
+      { types: ['departure', 'arrival'], collect: query => this.collectJourneys(query) },
+      { types: ['periapsis', 'apoapsis'], collect: query => this.collectApsides(query) },
+      { types: ['opposition'], collect: query => this.collectAngularEvents(query, 'opposition') },
+      { types: ['quadrature'], collect: query => this.collectAngularEvents(query, 'quadrature') },
+      { types: ['alignment'], collect: query => this.collectAlignments(query) },
+      { types: ['user'], collect: query => this.collectUserEvents(query) }
+    ];
+  }
+
+  /**
+   * Replace the user's events
+   * @param userEvents Events added by the user
+   */
+  public setUserEvents(userEvents: UserEvent[]): void {
+    this.userEvents = [...userEvents];
+  }
+
+  /**
+   * Add another source of events
+   * @param source The types of event it produces and how to find them
+   */
+  public addSource(source: TimelineEventSource): void {
+    this.sources.push(source);
+  }
+
+  /**
+   * Find the events in a time range
+   * @param query Time range, and optionally the event types and islands to include
+   * @returns Events in time order
+   */
+  public getEvents(query: TimelineQuery): TimelineEvent[] {
+    const wanted = (type: TimelineEventType) => !query.types || query.types.includes(type);
+    const amongIslands = (event: TimelineEvent) =>
+      !query.islandIds || event.type === 'user' || event.islandIds.every(id => query.islandIds?.includes(id));
+
+    return this.sources
+      .filter(source => source.types.some(wanted))
+      .flatMap(source => source.collect(query))
+      .filter(event => wanted(event.type) && amongIslands(event) &&
+        event.time >= query.startTime && event.time <= query.endTime)
+      .sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * Islands a query applies to
+   */
+  private getIslands(query: TimelineQuery): Island[] {
+    return this.simulator.getIslands().filter(island => !query.islandIds || query.islandIds.includes(island.id));
+  }
+
+  /**
+   * Name of an island for event titles
+   */
+  private getIslandName(islandId: number): string {
+    return this.simulator.getIslands().find(island => island.id === islandId)?.name ?? 'Unknown';
+  }
+
+  /**
+   * Conjunction start, peak and end times, at the simulator's default tier, between the query's islands
+   */
+  private collectConjunctions(query: TimelineQuery): TimelineEvent[] {
+    const islands = this.getIslands(query);
+    const pairs = islands.flatMap((island1, i) =>
+      islands.slice(i + 1).map(island2 => ({ island1Id: island1.id, island2Id: island2.id }))
+    );
+    if (pairs.length === 0) return [];
+
+    const lookAheadDays = (query.endTime - query.startTime) / 1000;
+    const conjunctions = this.simulator.calculateUpcomingConjunctions(lookAheadDays, query.startTime, pairs);
+
+    return conjunctions.flatMap(conjunction => {
+      const names = `${conjunction.island1Name} and ${conjunction.island2Name}`;
+      const islandIds = [conjunction.island1Id, conjunction.island2Id];
+      const key = `conjunction-${conjunction.island1Id}-${conjunction.island2Id}-${conjunction.startTime}`;
+      return [
+        { key: `${key}-start`, type: 'conjunction-start', time: conjunction.startTime, title: `${names} come into conjunction`, islandIds },
+        {
+          key: `${key}-peak`,
+          type: 'conjunction-peak',
+          time: conjunction.minDistanceTime,
+          title: `${names} are closest (${conjunction.tier})`,
+          islandIds,
+          value: conjunction.minDistance
+        },
+        { key: `${key}-end`, type: 'conjunction-end', time: conjunction.endTime, title: `${names} leave conjunction`, islandIds }
+      ];
+    });
+  }
+
+  /**
+   * Departures and arrivals of the simulator's journeys and of each itinerary leg
+   */
+  private collectJourneys(query: TimelineQuery): TimelineEvent[] {
+    const journeys: { journey: Journey, label: string }[] = [
+      ...this.simulator.getActiveJourneys().map(journey => ({ journey, label: 'journey' })),
+      ...this.simulator.getItineraries().flatMap(itinerary =>
+        itinerary.legs.map((leg, index) => ({ journey: leg, label: `itinerary leg ${index + 1}` }))
+      )
+    ];
+
+    return journeys.flatMap(({ journey, label }) => {
+      const islandIds = [journey.sourceId, journey.destinationId];
+      const route = `${this.getIslandName(journey.sourceId)} → ${this.getIslandName(journey.destinationId)}`;
+      return [
+        {
+          key: `departure-${journey.id}`,
+          type: 'departure',
+          time: journey.startTime,
+          title: `Ship departs on ${label} ${route}`,
+          islandIds,
+          value: journey.distance,
+          refId: journey.id
+        },
+        {
+          key: `arrival-${journey.id}`,
+          type: 'arrival',
+          time: journey.arrivalTime,
+          title: `Ship arrives from ${label} ${route}`,
+          islandIds,
+          value: journey.distance,
+          refId: journey.id
+        }
+      ];
+    });
+  }
+
+  /**
+   * Each island's closest and farthest approaches to the centre
+   */
+  private collectApsides(query: TimelineQuery): TimelineEvent[] {
+    return this.getIslands(query).flatMap(island =>
+      this.simulator.calculateApsides(island, query.startTime, query.endTime).map(apsis => ({
+        key: `${apsis.type}-${island.id}-${apsis.time}`,
+        type: apsis.type,
+        time: apsis.time,
+        title: `${island.name} is ${apsis.type === 'periapsis' ? 'closest to' : 'farthest from'} the centre`,
+        islandIds: [island.id],
+        value: apsis.distance
+      }))
+    );
+  }
+
+  /**
+   * Pairs of islands on opposite sides of the centre, or at right angles, at the exact moment
+   */
+  private collectAngularEvents(query: TimelineQuery, aspect: AngularAspect): TimelineEvent[] {
+    const islandIds = this.getIslands(query).map(island => island.id);
+    const events = this.simulator.calculateAngularEvents(
+      aspect, query.startTime, query.endTime, this.simulator.ASPECT_TOLERANCE, islandIds
+    );
+
+    return events.map(event => ({
+      key: `${aspect}-${event.island1Id}-${event.island2Id}-${event.startTime}`,
+      type: aspect,
+      time: event.time,
+      title: `${event.island1Name} and ${event.island2Name} are in ${aspect} (${event.separation.toFixed(1)}°)`,
+      islandIds: [event.island1Id, event.island2Id],
+      value: event.distance
+    }));
+  }
+
+  /**
+   * Three or more islands lining up as seen from the centre, at their tightest
+   */
+  private collectAlignments(query: TimelineQuery): TimelineEvent[] {
+    const islandIds = this.getIslands(query).map(island => island.id);
+    const lookAheadDays = (query.endTime - query.startTime) / 1000;
+    const alignments = this.simulator.calculateUpcomingAlignments(
+      { ...DEFAULT_ALIGNMENT_OPTIONS, islandIds }, lookAheadDays, query.startTime
+    );
+
+    return alignments.map(alignment => {
+      const names = alignment.islandIds.map(id => this.getIslandName(id));
+      return {
+        key: `alignment-${alignment.islandIds.join('-')}-${alignment.startTime}`,
+        type: 'alignment',
+        time: alignment.minSpreadTime,
+        title: `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]} line up (${alignment.minSpread.toFixed(1)}°)`,
+        islandIds: alignment.islandIds
+      };
+    });
+  }
+
+  /**
+   * The user's own events
+   */
+  private collectUserEvents(query: TimelineQuery): TimelineEvent[] {
+    return this.userEvents.map(event => ({
+      key: `user-${event.id}`,
+      type: 'user',
+      time: event.time,
+      title: event.description ? `${event.name}: ${event.description}` : event.name,
+      islandIds: [],
+      refId: event.id
+    }));
+  }
+}
@@ -1,4 +1,4 @@
-import SkydriftArchipelagoSimulator, { Island, Epicycle } from './sim';
+import SkydriftArchipelagoSimulator, { Island, Epicycle, ConjunctionThresholdModel } from './sim';
 import ConjunctionAnalyzer, { ConjunctionStats, AnalysisParams } from './conjunctionAnalyzer';
 
 /**
@@ -10,6 +10,8 @@ export interface EpicycleBounds {
   minProportion?: number;  // Proportion of parent epicycle for minimum period
   maxProportion?: number;  // Proportion of parent epicycle for maximum period
   allowNegative?: boolean; // Whether to allow negative periods (counterclockwise rotation)
+  minPhase?: number;       // Minimum initial phase (degrees); phase is searched when min or max is set
+  maxPhase?: number;       // Maximum initial phase (degrees)
 }
 
 /**
@@ -19,6 +21,7 @@ export interface ConjunctionTarget {
   island1Id: number;
   island2Id: number;
   targetAvgGap?: number; // Target average gap between conjunctions (days)
+  tier?: string;         // Conjunction tier this target applies to (defaults to analysisParams.tier)
 }
 
 /**
@@ -51,6 +54,7 @@ export interface ConfigSearchParams {
   islandsToConfigure: Island[]; // Islands to configure (without epicycles)
   conjunctionTargets: ConjunctionTarget[]; // Target conjunction criteria
   analysisParams: AnalysisParams; // Parameters for conjunction analysis
+  thresholds?: Partial<ConjunctionThresholdModel>; // Conjunction threshold model (tiers, overrides)
   annealingParams?: {
     initialTemperature?: number; // Starting temperature for simulated annealing
     coolingRate?: number;       // Rate at which temperature decreases
@@ -70,6 +74,7 @@ export default class IslandConfigSearch {
   private islandsToConfigure: Island[];
   private conjunctionTargets: ConjunctionTarget[];
   private analysisParams: AnalysisParams;
+  private thresholds?: Partial<ConjunctionThresholdModel>;
   private annealingParams: {
     initialTemperature: number;
     coolingRate: number;
@@ -92,6 +97,7 @@ export default class IslandConfigSearch {
     this.islandsToConfigure = params.islandsToConfigure.map(i => ({ ...i }));
     this.conjunctionTargets = [...params.conjunctionTargets];
     this.analysisParams = { ...params.analysisParams };
+    this.thresholds = params.thresholds;
     
     // Set default annealing parameters if not provided
     this.annealingParams = {
@@ -197,12 +203,36 @@ export default class IslandConfigSearch {
         period = -period;
       }
       
-      island.cycles.push({ period });
+      // Generate a random phase if the phase is a free parameter for this epicycle
+      const phaseRange = this.getPhaseRange(bounds);
+      const phase = phaseRange
+        ? phaseRange.min + Math.random() * (phaseRange.max - phaseRange.min)
+        : 0;
+      
+      island.cycles.push({ period, phase });
     }
     
     return island;
   }
   
+  /**
+   * Get the phase search range for an epicycle, or null if its phase is fixed at 0
+   */
+  private getPhaseRange(bounds: EpicycleBounds): { min: number, max: number } | null {
+    if (bounds.minPhase === undefined && bounds.maxPhase === undefined) {
+      return null;
+    }
+    
+    const min = bounds.minPhase !== undefined ? bounds.minPhase : 0;
+    const max = bounds.maxPhase !== undefined ? bounds.maxPhase : 360;
+    
+    if (min > max) {
+      throw new Error(`Epicycle bounds have minPhase (${min}) greater than maxPhase (${max})`);
+    }
+    
+    return { min, max };
+  }
+  
   /**
    * Generate a random island configuration including fixed islands
    */
@@ -333,6 +363,17 @@ export default class IslandConfigSearch {
           } else {
             cycle.period = currentSign * newPeriod;
           }
+          
+          // Perturb the phase if it is a free parameter, scaled by temperature like the period
+          const phaseRange = this.getPhaseRange(bounds);
+          if (phaseRange) {
+            const maxPhasePerturbation = (phaseRange.max - phaseRange.min) * 0.2 * (temperature / this.annealingParams.initialTemperature);
+            const phasePerturbation = (Math.random() * 2 - 1) * maxPhasePerturbation;
+            const newPhase = (cycle.phase || 0) + phasePerturbation;
+            
+            // Keep within bounds
+            cycle.phase = Math.max(phaseRange.min, Math.min(phaseRange.max, newPhase));
+          }
         }
       }
     }
@@ -344,28 +385,19 @@ export default class IslandConfigSearch {
    * Calculate the score for a configuration (lower is better)
    */
   private evaluateConfig(islands: Island[]): ConfigSearchResult {
-    // Create a conjunction analyzer with the islands
-    const analyzer = new ConjunctionAnalyzer(islands);
-    
     // Choose a random start time within a 10,000 year range
     // Each evaluation uses a different random start time to ensure long-term stability
     // Days in 10,000 years = 10,000 * 365 = 3,650,000
     // Converting to milliseconds: 3,650,000 * 1000 = 3,650,000,000
     const randomStartTimeMs = Math.floor(Math.random() * 3650000000);
     
-    // Convert conjunction targets to target pairs format
-    const targetPairs = this.conjunctionTargets.map(target => ({
-      island1Id: target.island1Id,
-      island2Id: target.island2Id
-    }));
-    
     // Run the analysis with random start time while keeping other params
     const analysisParams = {
       ...this.analysisParams,
       startTimeMs: randomStartTimeMs
     };
     
-    const stats = analyzer.analyzeConjunctions(analysisParams, targetPairs);
+    const stats = this.analyzeTargets(islands, analysisParams);
     
     // Calculate error for each conjunction target
     let totalScore = 0;
@@ -373,16 +405,9 @@ export default class IslandConfigSearch {
     // Track errors for reporting
     const errors = new Map<string, number>();
     
-    // Local function to get pair key
-    const getPairKey = (island1Id: number, island2Id: number): string => {
-      return island1Id < island2Id ? 
-        `${island1Id}-${island2Id}` : 
-        `${island2Id}-${island1Id}`;
-    };
-    
     for (const target of this.conjunctionTargets) {
-      // Get the pair key for this target
-      const pairKey = getPairKey(target.island1Id, target.island2Id);
+      // Get the key for this target
+      const pairKey = IslandConfigSearch.getTargetKey(target);
       const pairStats = stats.get(pairKey);
       
       if (pairStats) {
@@ -425,6 +450,56 @@ export default class IslandConfigSearch {
     };
   }
   
+  /**
+   * Create a unique key for a conjunction target (order of islands doesn't matter).
+   * Targets for a specific tier are keyed separately from the default tier.
+   */
+  public static getTargetKey(target: ConjunctionTarget): string {
+    const pairKey = target.island1Id < target.island2Id ? 
+      `${target.island1Id}-${target.island2Id}` : 
+      `${target.island2Id}-${target.island1Id}`;
+    return target.tier ? `${pairKey}@${target.tier}` : pairKey;
+  }
+  
+  /**
+   * Analyze conjunctions for all targets, running one analysis per conjunction tier.
+   * @returns Statistics keyed by target key (see getTargetKey)
+   */
+  private analyzeTargets(islands: Island[], analysisParams: AnalysisParams): Map<string, ConjunctionStats> {
+    const analyzer = new ConjunctionAnalyzer(islands, this.thresholds);
+    const stats = new Map<string, ConjunctionStats>();
+    
+    // Group targets by the tier they are measured at
+    const targetsByTier = new Map<string | undefined, ConjunctionTarget[]>();
+    for (const target of this.conjunctionTargets) {
+      const tierTargets = targetsByTier.get(target.tier) || [];
+      tierTargets.push(target);
+      targetsByTier.set(target.tier, tierTargets);
+    }
+    
+    targetsByTier.forEach((targets, tier) => {
+      // Convert conjunction targets to target pairs format
+      const targetPairs = targets.map(target => ({
+        island1Id: target.island1Id,
+        island2Id: target.island2Id
+      }));
+      
+      const tierStats = analyzer.analyzeConjunctions(
+        { ...analysisParams, tier: tier || analysisParams.tier },
+        targetPairs
+      );
+      
+      for (const target of targets) {
+        const pairStats = tierStats.get(IslandConfigSearch.getTargetKey({ ...target, tier: undefined }));
+        if (pairStats) {
+          stats.set(IslandConfigSearch.getTargetKey(target), pairStats);
+        }
+      }
+    });
+    
+    return stats;
+  }
+  
   /**
    * Set fixed islands that will be included in all configurations
    */
@@ -695,19 +770,11 @@ export default class IslandConfigSearch {
     }
     
     // Perform final evaluation of the complete configuration
-    // Create a conjunction analyzer with all islands
-    const analyzer = new ConjunctionAnalyzer(currentIslands);
     const analysisParams = {
       ...this.analysisParams
     };
     
-    // Convert conjunction targets to target pairs format
-    const targetPairs = this.conjunctionTargets.map(target => ({
-      island1Id: target.island1Id,
-      island2Id: target.island2Id
-    }));
-    
-    const stats = analyzer.analyzeConjunctions(analysisParams, targetPairs);
+    const stats = this.analyzeTargets(currentIslands, analysisParams);
     
     // Calculate error for each conjunction target
     let totalScore = 0;
@@ -715,16 +782,9 @@ export default class IslandConfigSearch {
     // Track errors for reporting
     const errors = new Map<string, number>();
     
-    // Local function to get pair key
-    const getPairKey = (island1Id: number, island2Id: number): string => {
-      return island1Id < island2Id ? 
-        `${island1Id}-${island2Id}` : 
-        `${island2Id}-${island1Id}`;
-    };
-    
     for (const target of this.conjunctionTargets) {
-      // Get the pair key for this target
-      const pairKey = getPairKey(target.island1Id, target.island2Id);
+      // Get the key for this target
+      const pairKey = IslandConfigSearch.getTargetKey(target);
       const pairStats = stats.get(pairKey);
       
       if (pairStats) {
@@ -0,0 +1,14 @@
+import { parseAtLeast } from './numberInput';
+
+describe('parseAtLeast', () => {
+  test('parses numbers at or above the minimum', () => {
+    expect(parseAtLeast('2.5', 1, 7)).toBe(2.5);
+    expect(parseAtLeast('1', 1, 7)).toBe(1);
+  });
+
+  test('keeps the fallback for text that is not a number or is below the minimum', () => {
+    expect(parseAtLeast('', 1, 7)).toBe(7);
+    expect(parseAtLeast('-', 0, 7)).toBe(7);
+    expect(parseAtLeast('0.5', 1, 7)).toBe(7);
+  });
+});
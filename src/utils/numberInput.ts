@@ -0,0 +1,20 @@
+/**
+ * Number field parsing
+ *
+ * Panels update their settings as the user types into number fields, so a
+ * value that isn't a valid number yet (an empty field, a lone minus sign)
+ * or is out of range keeps the setting's previous value.
+ */
+
+/**
+ * Parse a number typed into a field
+ *
+ * @param value The field's text
+ * @param min Smallest value accepted
+ * @param fallback Value to keep if the text isn't a number of at least min
+ * @returns The parsed number, or the fallback
+ */
+export function parseAtLeast(value: string, min: number, fallback: number): number {
+  const parsed = parseFloat(value);
+  return !isNaN(parsed) && parsed >= min ? parsed : fallback;
+}
@@ -0,0 +1,63 @@
+import { calculateRepeatPeriod, gcd, lcmRational, toRational } from './rational';
+
+describe('gcd', () => {
+  test('handles negative input', () => {
+    expect(gcd(-12, 18)).toBe(6);
+    expect(gcd(7, 0)).toBe(7);
+  });
+});
+
+describe('toRational', () => {
+  test('converts terminating decimals exactly', () => {
+    expect(toRational(27.3)).toEqual({ rational: { numerator: 273, denominator: 10 }, exact: true });
+    expect(toRational(-1.5)).toEqual({ rational: { numerator: -3, denominator: 2 }, exact: true });
+    expect(toRational(4)).toEqual({ rational: { numerator: 4, denominator: 1 }, exact: true });
+  });
+
+  test('stops at the largest convergent within maxDenominator for irrational input', () => {
+    const { rational, exact } = toRational(Math.SQRT2, 1e-12);
+    expect(exact).toBe(false);
+    expect(rational).toEqual({ numerator: 8119, denominator: 5741 });
+  });
+
+  test('accepts an approximation within the tolerance', () => {
+    const { rational, exact } = toRational(Math.PI, 1e-6);
+    expect(exact).toBe(true);
+    expect(rational).toEqual({ numerator: 355, denominator: 113 });
+  });
+});
+
+describe('lcmRational', () => {
+  test('computes the least common multiple of two rationals', () => {
+    expect(lcmRational({ numerator: 3, denominator: 2 }, { numerator: 5, denominator: 4 }))
+      .toEqual({ numerator: 15, denominator: 2 });
+    expect(lcmRational({ numerator: 6, denominator: 1 }, { numerator: 4, denominator: 1 }))
+      .toEqual({ numerator: 12, denominator: 1 });
+  });
+
+  test('returns null when the result is not a safe integer', () => {
+    const large = { numerator: Number.MAX_SAFE_INTEGER, denominator: 1 };
+    expect(lcmRational(large, { numerator: 2, denominator: 1 })).toBeNull();
+  });
+});
+
+describe('calculateRepeatPeriod', () => {
+  test('finds the exact repeat period of decimal periods', () => {
+    const result = calculateRepeatPeriod([1.5, -2.5, 0]);
+    expect(result.repeating).toBe(true);
+    expect(result.period).toBe(7.5);
+    expect(result.approximated).toBe(false);
+  });
+
+  test('reports non-repeating periods', () => {
+    const result = calculateRepeatPeriod([1, Math.SQRT2], { tolerance: 1e-12 });
+    expect(result.repeating).toBe(false);
+    expect(result.period).toBeNull();
+    expect(result.approximated).toBe(true);
+  });
+
+  test('reports periods beyond maxRepeatDays as non-repeating', () => {
+    const result = calculateRepeatPeriod([10.01, 9.99], { maxRepeatDays: 1000 });
+    expect(result.repeating).toBe(false);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Rational arithmetic utilities
+ *
+ * Epicycle periods are entered as decimal numbers of days (e.g. 27.3), so an
+ * island's motion only repeats exactly after the least common multiple of its
+ * periods taken as rationals. These helpers convert periods to their best
+ * rational approximations and compute exact repeat periods from them.
+ */
+
+/**
+ * A rational number in lowest terms with a positive denominator
+ */
+export interface Rational {
+  numerator: number;
+  denominator: number;
+}
+
+/**
+ * Options controlling how periods are approximated and when a system is
+ * considered to never repeat
+ */
+export interface RepeatPeriodOptions {
+  tolerance?: number;       // Maximum error (days) allowed when approximating a period as a rational
+  maxDenominator?: number;  // Largest denominator allowed in a period's rational approximation
+  maxRepeatDays?: number;   // Repeat periods longer than this are reported as non-repeating
+}
+
+/**
+ * The exact repeat period of a set of periods
+ */
+export interface RepeatPeriod {
+  repeating: boolean;          // False when the periods never (or only after maxRepeatDays) line up again
+  period: number | null;       // Repeat period in days, or null when non-repeating
+  rational: Rational | null;   // Repeat period as an exact rational number of days
+  approximated: boolean;       // True when some period was not exactly representable and was rounded
+}
+
+export const DEFAULT_REPEAT_PERIOD_OPTIONS: Required<RepeatPeriodOptions> = {
+  tolerance: 1e-6,
+  maxDenominator: 10000,
+  maxRepeatDays: 365 * 10000 // 10,000 years
+};
+
+/**
+ * Greatest common divisor of two integers using the Euclidean algorithm
+ *
+ * @param a First integer
+ * @param b Second integer
+ * @returns The (non-negative) greatest common divisor
+ */
+export function gcd(a: number, b: number): number {
+  a = Math.abs(a);
+  b = Math.abs(b);
+  while (b) {
+    const t = b;
+    b = a % b;
+    a = t;
+  }
+  return a;
+}
+
+/**
+ * Find the best rational approximation of a number using continued fractions
+ *
+ * @param value The number to approximate
+ * @param tolerance Maximum absolute error of the approximation
+ * @param maxDenominator Largest denominator to consider
+ * @returns The approximation, and whether it is within the tolerance
+ */
+export function toRational(
+  value: number,
+  tolerance: number = DEFAULT_REPEAT_PERIOD_OPTIONS.tolerance,
+  maxDenominator: number = DEFAULT_REPEAT_PERIOD_OPTIONS.maxDenominator
+): { rational: Rational, exact: boolean } {
+  const sign = value < 0 ? -1 : 1;
+  let remainder = Math.abs(value);
+
+  // Convergents h/k of the continued fraction expansion
+  let prevNumerator = 1;
+  let prevDenominator = 0;
+  let numerator = Math.floor(remainder);
+  let denominator = 1;
+  remainder -= numerator;
+
+  while (Math.abs(Math.abs(value) - numerator / denominator) > tolerance && remainder > 0) {
+    remainder = 1 / remainder;
+    const term = Math.floor(remainder);
+    remainder -= term;
+
+    const nextDenominator = term * denominator + prevDenominator;
+    if (nextDenominator > maxDenominator) break;
+
+    const nextNumerator = term * numerator + prevNumerator;
+    prevNumerator = numerator;
+    prevDenominator = denominator;
+    numerator = nextNumerator;
+    denominator = nextDenominator;
+  }
+
+  return {
+    rational: { numerator: sign * numerator, denominator },
+    exact: Math.abs(Math.abs(value) - numerator / denominator) <= tolerance
+  };
+}
+
+/**
+ * Least common multiple of two positive rationals in lowest terms:
+ * lcm(a/b, c/d) = lcm(a, c) / gcd(b, d)
+ *
+ * @returns The least common multiple, or null if it is too large to represent exactly
+ */
+export function lcmRational(a: Rational, b: Rational): Rational | null {
+  const numerator = (Math.abs(a.numerator) / gcd(a.numerator, b.numerator)) * Math.abs(b.numerator);
+  if (!Number.isSafeInteger(numerator)) return null;
+
+  const denominator = gcd(a.denominator, b.denominator);
+  const divisor = gcd(numerator, denominator);
+  return { numerator: numerator / divisor, denominator: denominator / divisor };
+}
+
+/**
+ * Convert a rational to a floating point number
+ */
+export function rationalToNumber(rational: Rational): number {
+  return rational.numerator / rational.denominator;
+}
+
+/**
+ * Calculate the exact period after which a set of periodic motions all return to
+ * their starting state. Negative periods (reverse rotation) repeat after their
+ * absolute value, and zero periods are ignored.
+ *
+ * @param periods Periods in days
+ * @param options Approximation tolerance and non-repeating cut-off
+ * @returns The repeat period, or a non-repeating result
+ */
+export function calculateRepeatPeriod(periods: number[], options: RepeatPeriodOptions = {}): RepeatPeriod {
+  const { tolerance, maxDenominator, maxRepeatDays } = { ...DEFAULT_REPEAT_PERIOD_OPTIONS, ...options };
+  const nonRepeating = (approximated: boolean): RepeatPeriod => ({
+    repeating: false,
+    period: null,
+    rational: null,
+    approximated
+  });
+
+  let result: Rational | null = null;
+  let approximated = false;
+
+  for (const period of periods) {
+    if (!period || !isFinite(period)) continue;
+
+    const { rational, exact } = toRational(Math.abs(period), tolerance, maxDenominator);
+    if (!exact) {
+      // The period has no rational approximation within the tolerance
+      return nonRepeating(true);
+    }
+    if (rationalToNumber(rational) !== Math.abs(period)) {
+      approximated = true;
+    }
+
+    result = result ? lcmRational(result, rational) : rational;
+    if (!result || rationalToNumber(result) > maxRepeatDays) {
+      return nonRepeating(approximated);
+    }
+  }
+
+  if (!result) {
+    return nonRepeating(approximated);
+  }
+
+  return {
+    repeating: true,
+    period: rationalToNumber(result),
+    rational: result,
+    approximated
+  };
+}
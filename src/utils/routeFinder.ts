@@ -0,0 +1,216 @@
+import SkydriftArchipelagoSimulator, { Island, Itinerary, ItineraryPlan, DepartureOption, JourneyPathModel } from './sim';
+import { WindLayer } from './windField';
+
+/**
+ * Parameters for a fastest route search
+ */
+export interface RouteSearchParams {
+  sourceId: number;
+  targetId: number;
+  departureTime: number;  // Earliest departure from the source (ms)
+  speed: number;          // Ship speed in mph, used for every leg
+  maxHops?: number;       // Maximum number of legs (default 3)
+  maxWaitDays?: number;   // Longest wait at any island, including the source (default 10)
+  waitStepDays?: number;  // Spacing of the departure times tried while waiting (default 0.5)
+  pathModel?: JourneyPathModel; // Path model for every leg (default the polar spiral)
+  maxLegDays?: number;    // Longest time aloft on any one leg, e.g. a vessel's range (default no limit)
+  vesselId?: number;      // Vessel flying every leg, recorded on the plan
+}
+
+/**
+ * The fastest route found between two islands
+ */
+export interface RouteSearchResult {
+  found: boolean;
+  plan: ItineraryPlan | null;       // Legs to sail, with layovers for the waits at intermediate islands
+  departureTime: number | null;     // First departure from the source, after any wait there
+  arrivalTime: number | null;       // Arrival at the target
+  itinerary: Itinerary | null;      // The route as a predicted itinerary
+  direct: DepartureOption | null;   // Sailing straight to the target at the requested departure time
+}
+
+/**
+ * The best known way to reach an island with a given number of legs
+ */
+interface RouteLabel {
+  islandId: number;
+  hops: number;
+  arrivalTime: number;
+  previous: RouteLabel | null;  // Label of the island this leg departed from
+  departureTime: number;        // Departure time of the leg that reached this island
+}
+
+// Arrivals this close (ms) are treated as ties, and the route with fewer legs is preferred
+const ROUTE_TIE_TOLERANCE = 10;
+
+export const DEFAULT_ROUTE_SEARCH_PARAMS = {
+  maxHops: 3,
+  maxWaitDays: 10,
+  waitStepDays: 0.5,
+  pathModel: 'spiral' as JourneyPathModel,
+  maxLegDays: Infinity
+};
+
+/**
+ * A class that finds the fastest route between two islands, possibly hopping through other
+ * islands and waiting at them for a better alignment.
+ *
+ * Travel times depend on when a leg departs, so this is a time-dependent Dijkstra search over
+ * earliest arrival times. Each island and leg count is a separate node, which lets the hop limit
+ * be enforced exactly. From each node, the search tries every other island, departing at any time
+ * within the wait limit. Waiting is sampled every waitStepDays and refined, so a very brief
+ * alignment can be missed. With a leg limit, a leg is only used if the departure that reaches
+ * its island soonest stays within the limit.
+ */
+export default class RouteFinder {
+  private simulator: SkydriftArchipelagoSimulator;
+  private islands: Island[];
+
+  /**
+   * Create a new route finder
+   * @param islands The islands that may be visited
+   * @param windLayers The wind blowing between them
+   */
+  constructor(islands: Island[], windLayers: WindLayer[] = []) {
+    this.islands = [...islands];
+    this.simulator = new SkydriftArchipelagoSimulator(this.islands);
+    this.simulator.setWindLayers(windLayers);
+  }
+
+  /**
+   * Find the route that arrives at the target soonest
+   * @param params Search parameters
+   * @returns The fastest route, or a result with found = false if the target can't be reached
+   */
+  public findFastestRoute(params: RouteSearchParams): RouteSearchResult {
+    const { maxHops, maxWaitDays, waitStepDays, pathModel, maxLegDays } = { ...DEFAULT_ROUTE_SEARCH_PARAMS, ...params };
+    const { sourceId, targetId, departureTime, speed, vesselId } = params;
+
+    const direct = this.simulator.calculateEarliestArrival(
+      sourceId, targetId, speed, departureTime, 0, undefined, pathModel
+    );
+    const notFound: RouteSearchResult = {
+      found: false,
+      plan: null,
+      departureTime: null,
+      arrivalTime: null,
+      itinerary: null,
+      direct
+    };
+
+    if (sourceId === targetId || !this.islands.some(island => island.id === sourceId)) {
+      return notFound;
+    }
+
+    // Earliest known arrival for each island and leg count
+    const best = new Map<string, RouteLabel>();
+    const nodeKey = (islandId: number, hops: number) => `${islandId}:${hops}`;
+    const bestArrival = (islandId: number, hops: number) => best.get(nodeKey(islandId, hops))?.arrivalTime ?? Infinity;
+
+    const start: RouteLabel = { islandId: sourceId, hops: 0, arrivalTime: departureTime, previous: null, departureTime };
+    const open: RouteLabel[] = [start];
+    best.set(nodeKey(sourceId, 0), start);
+
+    while (open.length > 0) {
+      // Take the open label with the earliest arrival
+      let nextIndex = 0;
+      for (let i = 1; i < open.length; i++) {
+        if (open[i].arrivalTime < open[nextIndex].arrivalTime) {
+          nextIndex = i;
+        }
+      }
+      const label = open.splice(nextIndex, 1)[0];
+
+      // Skip labels that were improved after being queued
+      if (label.arrivalTime > bestArrival(label.islandId, label.hops)) {
+        continue;
+      }
+
+      // The first time the target comes off the queue is the earliest arrival.
+      // A route with fewer legs that arrives practically as soon is preferred.
+      if (label.islandId === targetId) {
+        for (let hops = 1; hops < label.hops; hops++) {
+          const shorter = best.get(nodeKey(targetId, hops));
+          if (shorter && shorter.arrivalTime <= label.arrivalTime + ROUTE_TIE_TOLERANCE) {
+            return this.buildResult(shorter, speed, pathModel, vesselId, direct);
+          }
+        }
+        return this.buildResult(label, speed, pathModel, vesselId, direct);
+      }
+
+      if (label.hops >= maxHops) {
+        continue;
+      }
+
+      for (const island of this.islands) {
+        if (island.id === label.islandId) continue;
+
+        const option = this.simulator.calculateEarliestArrival(
+          label.islandId,
+          island.id,
+          speed,
+          label.arrivalTime,
+          maxWaitDays,
+          waitStepDays,
+          pathModel
+        );
+        if (!option || option.duration > maxLegDays) continue;
+
+        if (option.arrivalTime < bestArrival(island.id, label.hops + 1)) {
+          const next: RouteLabel = {
+            islandId: island.id,
+            hops: label.hops + 1,
+            arrivalTime: option.arrivalTime,
+            previous: label,
+            departureTime: option.departureTime
+          };
+          best.set(nodeKey(island.id, next.hops), next);
+          open.push(next);
+        }
+      }
+    }
+
+    return notFound;
+  }
+
+  /**
+   * Turn the chain of labels that reached the target into an itinerary
+   */
+  private buildResult(
+    target: RouteLabel, 
+    speed: number, 
+    pathModel: JourneyPathModel, 
+    vesselId: number | undefined,
+    direct: DepartureOption | null
+  ): RouteSearchResult {
+    // Walk back to the source, collecting the labels in travel order
+    const labels: RouteLabel[] = [];
+    let source = target;
+    while (source.previous) {
+      labels.unshift(source);
+      source = source.previous;
+    }
+
+    const plan: ItineraryPlan = {
+      sourceId: source.islandId,
+      legs: labels.map((label, index) => ({
+        destinationId: label.islandId,
+        speed,
+        pathModel,
+        vesselId,
+        // Wait here until the next leg departs
+        layover: index < labels.length - 1 ? (labels[index + 1].departureTime - label.arrivalTime) / 1000 : 0
+      }))
+    };
+
+    const departureTime = labels[0].departureTime;
+    return {
+      found: true,
+      plan,
+      departureTime,
+      arrivalTime: target.arrivalTime,
+      itinerary: this.simulator.calculateItinerary(plan, true, departureTime),
+      direct
+    };
+  }
+}
@@ -0,0 +1,131 @@
+import SkydriftArchipelagoSimulator, { Island } from './sim';
+
+// Two islands on the same circle turning in opposite directions, which pass each other every 18 days
+const islands: Island[] = [
+  { id: 1, name: 'Aerie', color: '#ff0000', radius: 0, cycles: [{ period: 30, radius: 1000, phase: 10 }], visible: true },
+  { id: 2, name: 'Brink', color: '#00ff00', radius: 0, cycles: [{ period: -45, radius: 1000 }], visible: true }
+];
+
+// Find the intervals the islands spend within the threshold by sampling every millisecond
+function scanConjunctions(simulator: SkydriftArchipelagoSimulator, threshold: number, startTime: number, endTime: number) {
+  const intervals: { start: number, end: number }[] = [];
+  let start: number | null = null;
+  for (let t = startTime; t <= endTime; t++) {
+    const inside = simulator.calculateDistance(islands[0], islands[1], t) <= threshold;
+    if (inside && start === null) {
+      start = t;
+    } else if (!inside && start !== null) {
+      intervals.push({ start, end: t });
+      start = null;
+    }
+  }
+  return intervals;
+}
+
+describe('calculateUpcomingConjunctions', () => {
+  test.each(['approach', 'bridgeable'])('finds every %s conjunction to within CONJUNCTION_PRECISION', tier => {
+    const simulator = new SkydriftArchipelagoSimulator(islands);
+    const threshold = simulator.getConjunctionThreshold(islands[0], islands[1], tier);
+    const expected = scanConjunctions(simulator, threshold, 0, 100 * 1000);
+
+    const conjunctions = simulator.calculateUpcomingConjunctions(100, 0, undefined, tier);
+
+    expect(expected.length).toBeGreaterThan(4);
+    expect(conjunctions).toHaveLength(expected.length);
+    conjunctions.forEach((conjunction, i) => {
+      expect(Math.abs(conjunction.startTime - expected[i].start)).toBeLessThanOrEqual(simulator.CONJUNCTION_PRECISION + 1);
+      expect(Math.abs(conjunction.endTime - expected[i].end)).toBeLessThanOrEqual(simulator.CONJUNCTION_PRECISION + 1);
+      expect(conjunction.minDistance).toBeLessThanOrEqual(threshold);
+      expect(conjunction.minDistanceTime).toBeGreaterThanOrEqual(conjunction.startTime);
+      expect(conjunction.minDistanceTime).toBeLessThanOrEqual(conjunction.endTime);
+    });
+  });
+
+  test('finds the start of a conjunction already under way', () => {
+    const simulator = new SkydriftArchipelagoSimulator(islands);
+    const threshold = simulator.getConjunctionThreshold(islands[0], islands[1]);
+    const [first] = scanConjunctions(simulator, threshold, 0, 20 * 1000);
+    const during = (first.start + first.end) / 2;
+
+    const [conjunction] = simulator.calculateUpcomingConjunctions(1, during);
+
+    expect(conjunction.startTime).toBeLessThan(during);
+    expect(Math.abs(conjunction.startTime - first.start)).toBeLessThanOrEqual(simulator.CONJUNCTION_PRECISION + 1);
+    expect(Math.abs(conjunction.endTime - first.end)).toBeLessThanOrEqual(simulator.CONJUNCTION_PRECISION + 1);
+  });
+
+  test('skips pairs whose orbits never come within the threshold', () => {
+    const distant: Island = { ...islands[1], cycles: [{ period: -45, radius: 2000 }] };
+    const simulator = new SkydriftArchipelagoSimulator([islands[0], distant]);
+    expect(simulator.calculateUpcomingConjunctions(100, 0)).toEqual([]);
+  });
+});
+
+describe('calculatePositionsBatch', () => {
+  test('matches calculatePosition for every island and time', () => {
+    const elliptical: Island = {
+      id: 3, name: 'Cairn', color: '#0000ff', radius: 0, visible: true,
+      cycles: [{ period: 60, radius: 800, eccentricity: 0.4, orientation: 30 }, { period: -7, radius: 50, phase: 45 }],
+      altitude: { base: 2, amplitude: 1, period: 12, phase: 90 }
+    };
+    const simulator = new SkydriftArchipelagoSimulator([...islands, elliptical]);
+    const batch = simulator.calculatePositionsBatch([islands[0], elliptical], { start: 500, step: 750, count: 20 });
+
+    expect(batch.islandIds).toEqual([1, 3]);
+    [islands[0], elliptical].forEach((island, i) => {
+      batch.times.forEach((t, k) => {
+        const position = simulator.calculatePosition(island, t);
+        expect(batch.x[i * 20 + k]).toBeCloseTo(position.x, 6);
+        expect(batch.y[i * 20 + k]).toBeCloseTo(position.y, 6);
+        expect(batch.z[i * 20 + k]).toBeCloseTo(position.z ?? 0, 6);
+      });
+    });
+  });
+});
+
+describe('getCurrentJourneyPosition', () => {
+  test('follows a journey retimed by the wind', () => {
+    const simulator = new SkydriftArchipelagoSimulator(islands);
+    simulator.setWindLayers([{ id: 1, name: 'Gale', type: 'uniform', speed: 10, direction: 0 }]);
+    const journey = simulator.calculateJourney(1, 2, 20, true, 0, 'straight');
+    if (!journey) throw new Error('No journey');
+
+    // Each path point is where the ship is at that point's time
+    for (const point of journey.path.slice(1, -1)) {
+      const position = simulator.getCurrentJourneyPosition(journey, point.time as number);
+      expect(position.x).toBeCloseTo(point.x, 6);
+      expect(position.y).toBeCloseTo(point.y, 6);
+    }
+
+    // Before departure and after arrival the ship is on its source and destination islands
+    const before = simulator.getCurrentJourneyPosition(journey, -500);
+    const after = simulator.getCurrentJourneyPosition(journey, journey.arrivalTime + 500);
+    expect(before.x).toBeCloseTo(simulator.calculatePosition(islands[0], -500).x, 6);
+    expect(after.y).toBeCloseTo(simulator.calculatePosition(islands[1], journey.arrivalTime + 500).y, 6);
+  });
+});
+
+describe('getFutureJourneyPath', () => {
+  test('starts at the ship and measures the distance left along the rest of the path', () => {
+    const simulator = new SkydriftArchipelagoSimulator(islands);
+    simulator.setWindLayers([{ id: 1, name: 'Gale', type: 'uniform', speed: 10, direction: 0 }]);
+    const journey = simulator.calculateJourney(1, 2, 20, false, 0, 'straight');
+    if (!journey) throw new Error('No journey');
+    const t = journey.path[50].time as number;
+    simulator.setTime(t);
+    const active = { ...journey, status: 'active' as const };
+
+    const futurePath = simulator.getFutureJourneyPath(active);
+    const ship = simulator.getCurrentJourneyPosition(active);
+    expect(futurePath[0].x).toBeCloseTo(ship.x, 6);
+    expect(futurePath[0].y).toBeCloseTo(ship.y, 6);
+    expect(futurePath.slice(1)).toEqual(journey.path.slice(51));
+
+    // On a straight path the share of the distance left is the share of the line still ahead
+    const [start, end] = [journey.path[0], journey.path[journey.path.length - 1]];
+    const { remainingDistance } = simulator.getJourneyProgress(active);
+    expect(remainingDistance / journey.distance).toBeCloseTo(
+      Math.hypot(end.x - ship.x, end.y - ship.y) / Math.hypot(end.x - start.x, end.y - start.y), 6
+    );
+  });
+});
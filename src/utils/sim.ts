@@ -1,6 +1,24 @@
+import { calculateRepeatPeriod, RepeatPeriod, RepeatPeriodOptions } from './rational';
+import { WindLayer, WindVector, calculateWindVelocity } from './windField';
+
 // Define types for our data structures
 export interface Epicycle {
   period: number;
+  phase?: number;     // Initial phase offset in degrees (angle of this epicycle at day 0)
+  radius?: number;    // Explicit radius (semi-major axis) in miles; defaults to the Kepler-style radius from period
+  eccentricity?: number; // Eccentricity of the epicycle ellipse (0 = circle, up to MAX_ECCENTRICITY)
+  orientation?: number;  // Orientation of the ellipse's major axis in degrees
+}
+
+// Largest eccentricity an epicycle can have; higher values, such as from a configuration file, are clamped to it
+export const MAX_ECCENTRICITY = 0.95;
+
+// Vertical oscillation of an island (all distances in miles)
+export interface AltitudeOscillation {
+  base?: number;      // Mean altitude in miles
+  amplitude: number;  // Amplitude of the oscillation in miles
+  period: number;     // Period of the oscillation in days
+  phase?: number;     // Initial phase offset in degrees
 }
 
 export interface Island {
@@ -10,14 +28,25 @@ export interface Island {
   radius: number;
   cycles: Epicycle[];
   visible: boolean;
+  altitude?: AltitudeOscillation; // Optional vertical oscillation (islands without one stay at altitude 0)
 }
 
 export interface Position {
   x: number;
   y: number;
+  z?: number;     // Altitude in miles
   time?: number;
 }
 
+// How a ship's path between two islands is shaped
+export type JourneyPathModel = 'straight' | 'spiral' | 'current';
+
+export const JOURNEY_PATH_MODELS: { id: JourneyPathModel, name: string, description: string }[] = [
+  { id: 'straight', name: 'Straight line', description: 'Flies straight at the point where the destination will be' },
+  { id: 'spiral', name: 'Polar spiral', description: 'Sweeps round the centre, changing radius steadily' },
+  { id: 'current', name: 'Follow the current', description: 'Flies straight through the air while drifting with the orbital current' }
+];
+
 // Add Journey interface
 export interface Journey {
   id: number;         // Unique identifier for the journey
@@ -27,10 +56,124 @@ export interface Journey {
   path: Position[];   // Full path from source to destination
   distance: number;
   duration: number;   // in days
-  startTime: number;  // simulation time when journey started
+  startTime: number;  // simulation time of departure
   arrivalTime: number; // simulation time of arrival
   isClockwise: boolean;
-  status: 'active' | 'completed' | 'predicted'; // Status of the journey
+  pathModel: JourneyPathModel; // How the path was shaped
+  vesselId?: number;  // Vessel type flying the journey, if any
+  status: 'scheduled' | 'active' | 'completed' | 'predicted'; // Status of the journey
+}
+
+// One leg of an itinerary plan
+export interface ItineraryLegPlan {
+  destinationId: number;
+  speed: number;      // mph
+  layover?: number;   // days spent at the destination before the next leg departs
+  pathModel?: JourneyPathModel; // defaults to the polar spiral
+  vesselId?: number;  // Vessel type flying the leg, if any
+}
+
+// An ordered multi-leg trip, e.g. A→B→C→A
+export interface ItineraryPlan {
+  sourceId: number;
+  legs: ItineraryLegPlan[];
+}
+
+// A calculated itinerary. Each leg departs when the previous leg arrives plus its layover.
+export interface Itinerary {
+  id: number;
+  sourceId: number;
+  legs: Journey[];      // One journey per leg, in order
+  layovers: number[];   // Days spent at each leg's destination before the next leg (0 after the last)
+  distance: number;     // Total miles over all legs
+  duration: number;     // Total days, including layovers
+  startTime: number;    // simulation time of the first departure
+  arrivalTime: number;  // simulation time of the final arrival
+  status: Journey['status'];
+}
+
+// A candidate departure for a journey and the trip it gives
+export interface DepartureOption {
+  departureTime: number; // simulation time of departure
+  arrivalTime: number;   // simulation time of arrival
+  duration: number;      // in days
+  distance: number;      // miles
+}
+
+// Travel times for a range of departure times between two islands
+export interface DepartureWindow {
+  sourceId: number;
+  destinationId: number;
+  speed: number;                           // mph
+  samples: DepartureOption[];              // Evenly spaced departures across the window
+  minima: DepartureOption[];               // Refined local minima of the travel duration, in departure order
+  best: DepartureOption;                   // Shortest trip departing within the window
+  earliestArrival: DepartureOption;        // Departure that arrives soonest
+}
+
+// The latest departure that still arrives by a deadline
+export interface LatestDeparture {
+  feasible: boolean;                    // False when no departure in the search range arrives in time
+  deadline: number;                     // Required arrival time
+  departureTime: number | null;         // Latest departure time, or null when infeasible
+  journey: Journey | null;              // Predicted journey leaving at the latest departure time
+  earliestArrival: DepartureOption | null; // Earliest arrival among the departures searched
+}
+
+// An island a ship can reach within a time limit, and how
+export interface ReachableIsland {
+  islandId: number;
+  arrivalTime: number;
+  duration: number;              // in days
+  distance: number;              // miles sailed over all legs
+  viaIslandId: number | null;    // Intermediate stop for one-stop routes, null when direct
+}
+
+// Options for a reachability search
+export interface ReachabilityOptions {
+  departureTime?: number;   // Defaults to the current time
+  allowOneStop?: boolean;   // Also consider routes through one intermediate island
+  islandIds?: number[];     // Islands that may be reached or stopped at (defaults to all)
+  pathModel?: JourneyPathModel; // Shape of every leg (defaults to the spiral)
+}
+
+// The area a ship can cover in a given time from a departure point
+export interface Isochrone {
+  days: number;         // Travel time
+  reach: number;        // Path length covered in that time (miles)
+  rings: Position[][];  // Closed boundary rings; a second ring bounds an unreachable area inside the first
+}
+
+// The closest a journey comes to an island it flies past
+export interface ClosePass {
+  islandId: number;
+  distance: number;     // Closest map distance between the ship and the island (miles)
+  time: number;         // Simulation time of the closest approach
+  position: Position;   // Ship position at the closest approach
+  conjunctionIslandIds: number[]; // Other islands in conjunction with this one at that time
+}
+
+// A ship setting out from an island to meet another ship
+export interface RendezvousShip {
+  islandId: number;
+  departureTime: number;  // simulation time of departure
+  speed: number;          // mph
+}
+
+// One ship's course to a rendezvous
+export interface RendezvousCourse {
+  path: Position[];     // From the ship's position at startTime to the meeting point, with times
+  distance: number;     // miles
+  duration: number;     // in days
+  startTime: number;
+}
+
+// Where and when two ships meet
+export interface Rendezvous {
+  feasible: boolean;            // False when the ships can't meet
+  meetingTime: number | null;
+  meetingPoint: Position | null;
+  courses: RendezvousCourse[];  // Each ship's course to the meeting point, in the order given (empty when infeasible)
 }
 
 // Velocity interface
@@ -39,12 +182,14 @@ export interface Velocity {
   angle: number;
   x: number;
   y: number;
+  z?: number; // Vertical speed in miles per day
 }
 
 // Orbital position interface
 export interface OrbitalPosition {
   dayInCycle: number;
   percentage: number;
+  repeating: boolean; // False if the orbit never repeats (dayInCycle is then days since the epoch)
 }
 
 // Add Conjunction interface
@@ -59,6 +204,201 @@ export interface Conjunction {
   minDistance: number; // Minimum distance during conjunction
   minDistanceTime: number; // Time at which minimum distance occurs
   duration: number;   // Duration in days
+  tier: string;       // Closest conjunction tier reached during the conjunction
+}
+
+// The closest or farthest an island comes to the archipelago centre
+export interface Apsis {
+  islandId: number;
+  type: 'periapsis' | 'apoapsis';  // Closest / farthest approach
+  time: number;
+  distance: number;                // Miles from the centre
+}
+
+// Half of an island's orbit: nearer the centre than halfway between its closest and farthest, or beyond
+export type IslandSeasonType = 'inner' | 'outer';
+
+// A stretch of time an island spends in one season
+export interface IslandSeason {
+  islandId: number;
+  type: IslandSeasonType;
+  startTime: number;
+  endTime: number;
+}
+
+// Angle between two islands as seen from the centre: opposite sides, or at right angles
+export type AngularAspect = 'opposition' | 'quadrature';
+
+export const ANGULAR_ASPECTS: { id: AngularAspect, name: string, angle: number }[] = [
+  { id: 'opposition', name: 'Opposition', angle: 180 },
+  { id: 'quadrature', name: 'Quadrature', angle: 90 }
+];
+
+// Two islands at an aspect's angle from each other, within a tolerance, as seen from the centre
+export interface AngularEvent {
+  id: number;
+  aspect: AngularAspect;
+  island1Id: number;
+  island2Id: number;
+  island1Name: string;
+  island2Name: string;
+  startTime: number;    // When the angle between them comes within the tolerance
+  endTime: number;      // When it leaves the tolerance
+  time: number;         // When the angle is closest to the aspect's
+  separation: number;   // Angle between them at that time (degrees, 0-180)
+  distance: number;     // Miles between them at that time
+  duration: number;     // Duration in days
+}
+
+// What can block the view between two islands: the bodies of other islands, and the spire
+// rising from the centre
+export interface SightModel {
+  islandBodyScale: number;  // Miles of an island's body per unit of its radius
+  spireRadius: number;      // Radius of the central spire in miles (0 for none)
+}
+
+export const DEFAULT_SIGHT_MODEL: SightModel = {
+  islandBodyScale: 5,
+  spireRadius: 40
+};
+
+// Whether one island can see another at a moment, and what is in the way if not
+export interface LineOfSight {
+  observerId: number;
+  targetId: number;
+  time: number;
+  visible: boolean;
+  blockerIds: number[];     // Islands whose bodies block the view
+  blockedBySpire: boolean;
+  distance: number;         // Miles between the islands
+}
+
+// A stretch of time during which one island cannot see another
+export interface Occlusion {
+  observerId: number;
+  targetId: number;
+  startTime: number;
+  endTime: number;
+  duration: number;         // Duration in days
+  blockerIds: number[];     // Islands that block the view at some point during it
+  blockedBySpire: boolean;
+}
+
+// Where something appears in the sky as seen from an island
+export interface SkySighting {
+  bearing: number;      // Compass bearing in degrees clockwise from north (up the map), 0-360
+  distance: number;     // Miles
+  angularSize: number;  // Apparent diameter in degrees
+}
+
+// Another island as seen from an island
+export interface IslandSighting extends SkySighting {
+  islandId: number;
+  elevation: number;    // Degrees above (positive) or below the observer's altitude
+  visible: boolean;     // False if another island or the spire is in the way
+}
+
+// Everything in the sky around an island at a moment
+export interface SkyView {
+  observerId: number;
+  time: number;
+  islands: IslandSighting[];    // By bearing
+  spire: SkySighting | null;    // Null without a spire
+}
+
+// How islands come together in an alignment: lined up with a viewpoint, or gathered close together
+export type AlignmentType = 'collinear' | 'cluster';
+
+// What counts as an alignment
+export interface AlignmentOptions {
+  type: AlignmentType;
+  minIslands: number;          // Fewest islands in an alignment
+  tolerance: number;           // Widest spread: degrees across the line (collinear) or miles from the group's centre (cluster)
+  observerId?: number | null;  // Island a line-up is seen from (collinear only); null or missing for the centre
+  islandIds?: number[];        // Islands to consider (defaults to all)
+}
+
+// A group of islands lined up as seen from a viewpoint, or gathered within a radius, at once
+export interface Alignment {
+  id: number;
+  type: AlignmentType;
+  islandIds: number[];         // In ID order, not including the viewpoint
+  observerId: number | null;   // Island a line-up is seen from; null for the centre and for clusters
+  startTime: number;
+  endTime: number;
+  minSpread: number;           // Tightest spread during the alignment, in the tolerance's units
+  minSpreadTime: number;       // Time at which the tightest spread occurs
+  duration: number;            // Duration in days
+}
+
+export const DEFAULT_ALIGNMENT_OPTIONS: AlignmentOptions = {
+  type: 'collinear',
+  minIslands: 3,
+  tolerance: 5,
+  observerId: null
+};
+
+// A named conjunction tier: islands closer than the threshold are in conjunction at this tier
+export interface ConjunctionTier {
+  name: string;
+  threshold: number;  // Distance in miles
+}
+
+// Threshold override for a specific pair of islands (tier name -> distance in miles)
+export interface PairThresholdOverride {
+  island1Id: number;
+  island2Id: number;
+  thresholds: { [tierName: string]: number };
+}
+
+// How conjunction thresholds are determined for each pair of islands
+export interface ConjunctionThresholdModel {
+  tiers: ConjunctionTier[];
+  defaultTier: string;          // Tier used when none is specified
+  islandRadiusScale: number;    // Miles added to a pair's threshold per unit of each island's radius
+  pairOverrides: PairThresholdOverride[];
+}
+
+export const DEFAULT_CONJUNCTION_TIERS: ConjunctionTier[] = [
+  { name: 'visible', threshold: 200 },
+  { name: 'approach', threshold: 50 },
+  { name: 'bridgeable', threshold: 5 }
+];
+
+// A time vector given by its first time, the step between samples and the number of samples (ms)
+export interface TimeRange {
+  start: number;
+  step: number;
+  count: number;
+}
+
+// Positions of a set of islands over a time vector, stored island-major:
+// the position of islandIds[i] at times[k] is at index i * times.length + k
+export interface PositionBatch {
+  islandIds: number[];
+  times: Float64Array;
+  x: Float64Array;
+  y: Float64Array;
+  z: Float64Array;
+}
+
+// Epicycle parameters precomputed for repeated evaluation
+interface CompiledEpicycle {
+  semiMajor: number;        // miles
+  semiMinor: number;        // miles
+  angularVelocity: number;  // radians per day (negative for reverse rotation)
+  phase: number;            // radians
+  cosOrientation: number;
+  sinOrientation: number;
+}
+
+// Island motion precomputed for repeated evaluation
+interface CompiledIsland {
+  cycles: CompiledEpicycle[];
+  altitudeBase: number;             // miles
+  altitudeAmplitude: number;        // miles
+  altitudeAngularVelocity: number;  // radians per day
+  altitudePhase: number;            // radians
 }
 
 // Import IslandPair interface or define a local one
@@ -77,14 +417,113 @@ export default class SkydriftArchipelagoSimulator {
   private centerX: number = 400;
   private centerY: number = 400;
   private activeJourneys: Journey[] = [];
+  private itineraries: Itinerary[] = [];
+  private windLayers: WindLayer[] = [];
+  
+  // Reusable buffers for evaluating island states during conjunction scanning
+  private separationScratch = [new Float64Array(6), new Float64Array(6)];
+  
+  // Define what constitutes a conjunction (in miles) at each tier
+  private thresholdModel: ConjunctionThresholdModel = {
+    tiers: [...DEFAULT_CONJUNCTION_TIERS],
+    defaultTier: 'approach',
+    islandRadiusScale: 0,
+    pairOverrides: []
+  };
+  
+  // What blocks lines of sight between islands
+  private sightModel: SightModel = { ...DEFAULT_SIGHT_MODEL };
+  
+  // Precision of conjunction start and end times (in milliseconds)
+  public readonly CONJUNCTION_PRECISION = 1;
   
-  // Define what constitutes a conjunction (in miles)
-  public readonly CONJUNCTION_THRESHOLD = 50;
+  // How far outside a time range to look for the edges of conjunctions, alignments and other
+  // events that straddle it (in milliseconds)
+  public readonly EDGE_SEARCH_TIME = 30 * 1000;
+  
+  // Precision of optimal departure times (in milliseconds)
+  public readonly DEPARTURE_PRECISION = 10;
+  
+  // Spacing of departures tried when searching back from an arrival deadline (in milliseconds)
+  public readonly DEPARTURE_SCAN_STEP = 250;
+  
+  // Share of its airspeed a ship always makes good, even into a headwind stronger than itself
+  public readonly MIN_GROUND_SPEED_FRACTION = 0.05;
+  
+  // Default tolerance (in degrees) of oppositions and quadratures
+  public readonly ASPECT_TOLERANCE = 2;
+  
+  // Default distance within which a journey is said to pass an island (in miles)
+  public readonly CLOSE_PASS_DISTANCE = 100;
 
   constructor(islands: Island[] = []) {
     this.islands = [...islands];
   }
   
+  // Get the conjunction threshold model
+  getConjunctionThresholds(): ConjunctionThresholdModel {
+    return {
+      ...this.thresholdModel,
+      tiers: [...this.thresholdModel.tiers],
+      pairOverrides: [...this.thresholdModel.pairOverrides]
+    };
+  }
+  
+  // Update the conjunction threshold model (unspecified fields keep their current values)
+  setConjunctionThresholds(model: Partial<ConjunctionThresholdModel>): void {
+    const updated = { ...this.thresholdModel, ...model };
+    if (!updated.tiers.some(tier => tier.name === updated.defaultTier)) {
+      throw new Error(`Default conjunction tier "${updated.defaultTier}" is not one of the defined tiers`);
+    }
+    this.thresholdModel = updated;
+  }
+  
+  // Get the line of sight model
+  getSightModel(): SightModel {
+    return { ...this.sightModel };
+  }
+  
+  // Update the line of sight model (unspecified fields keep their current values)
+  setSightModel(model: Partial<SightModel>): void {
+    this.sightModel = { ...this.sightModel, ...model };
+  }
+  
+  // Get the conjunction tiers, widest threshold first
+  getConjunctionTiers(): ConjunctionTier[] {
+    return [...this.thresholdModel.tiers].sort((a, b) => b.threshold - a.threshold);
+  }
+  
+  // Get the conjunction threshold (in miles) for a pair of islands at a tier
+  // A pair override takes precedence; otherwise the tier threshold is widened by the islands' radii
+  getConjunctionThreshold(island1: Island, island2: Island, tierName: string = this.thresholdModel.defaultTier): number {
+    const tier = this.thresholdModel.tiers.find(t => t.name === tierName);
+    if (!tier) {
+      throw new Error(`Unknown conjunction tier "${tierName}"`);
+    }
+    
+    const override = this.thresholdModel.pairOverrides.find(pair =>
+      (pair.island1Id === island1.id && pair.island2Id === island2.id) ||
+      (pair.island1Id === island2.id && pair.island2Id === island1.id)
+    );
+    if (override && override.thresholds[tierName] !== undefined) {
+      return override.thresholds[tierName];
+    }
+    
+    return tier.threshold + this.thresholdModel.islandRadiusScale * (island1.radius + island2.radius);
+  }
+  
+  // Find the closest tier whose threshold a pair of islands came within at the given distance
+  private findReachedTier(island1: Island, island2: Island, distance: number): string | null {
+    let reached: { name: string, threshold: number } | null = null;
+    for (const tier of this.thresholdModel.tiers) {
+      const threshold = this.getConjunctionThreshold(island1, island2, tier.name);
+      if (distance <= threshold && (!reached || threshold < reached.threshold)) {
+        reached = { name: tier.name, threshold };
+      }
+    }
+    return reached ? reached.name : null;
+  }
+  
   // Get all islands
   getIslands(): Island[] {
     return [...this.islands];
@@ -97,18 +536,20 @@ export default class SkydriftArchipelagoSimulator {
   
   // Add a journey to active journeys list
   addJourney(journey: Journey): void {
-    // Make sure it's not a prediction
-    if (journey.status === 'predicted') {
-      journey.status = 'active';
+    // Keep the journey's own departure time; its path was computed against the
+    // island positions at that time. Only the status depends on the current time.
+    this.activeJourneys.push({...journey, status: this.getJourneyStatusAt(journey, this.time)});
+  }
+  
+  // Status of a (non-predicted) journey or itinerary at a given time
+  private getJourneyStatusAt(
+    trip: { startTime: number, arrivalTime: number }, 
+    time: number
+  ): 'scheduled' | 'active' | 'completed' {
+    if (time < trip.startTime) {
+      return 'scheduled';
     }
-    
-    // Set the start time to the current time
-    journey.startTime = this.time;
-    
-    // Recalculate arrival time based on the current start time
-    journey.arrivalTime = this.time + (journey.duration * 1000);
-    
-    this.activeJourneys.push({...journey});
+    return time >= trip.arrivalTime ? 'completed' : 'active';
   }
   
   // Delete a journey
@@ -119,9 +560,10 @@ export default class SkydriftArchipelagoSimulator {
   // Update journey statuses based on current time
   updateJourneyStatuses(): Journey[] {
     const updatedJourneys = this.activeJourneys.map(journey => {
-      // Check if journey is completed
-      if (journey.status === 'active' && this.time >= journey.arrivalTime) {
-        journey.status = 'completed';
+      // Scheduled journeys depart at their start time and complete on arrival.
+      // Moving the clock backwards can also return a journey to scheduled.
+      if (journey.status !== 'predicted') {
+        journey.status = this.getJourneyStatusAt(journey, this.time);
       }
       return journey;
     });
@@ -130,44 +572,33 @@ export default class SkydriftArchipelagoSimulator {
     return updatedJourneys;
   }
   
-  // Get current position along a journey path based on current time
-  getCurrentJourneyPosition(journey: Journey): Position {
-    if (journey.status === 'completed') {
-      // If completed, return the last point on the path
-      return journey.path[journey.path.length - 1];
-    }
-    
-    // If it's a prediction, we need to calculate from the start point
-    if (journey.status === 'predicted') {
-      // Return the appropriate point from the path based on calculation
-      // For predictions, path[0] is at the current point in time
-      return journey.path[0];
-    }
-    
-    // For active journeys, calculate elapsed time properly
-    const elapsedTime = this.time - journey.startTime;
-    
-    // If journey hasn't started yet (time travel), return first point
-    if (elapsedTime <= 0) {
-      return journey.path[0];
+  // Where a journey's ship is at a time (the current time by default), between its timed path points.
+  // Before departure it is on its source island and after arrival on its destination island.
+  getCurrentJourneyPosition(journey: Journey, t: number = this.time): Position {
+    const path = journey.path;
+    const first = path[0];
+    const last = path[path.length - 1];
+    
+    if (t <= (first.time ?? journey.startTime)) {
+      const source = this.islands.find(island => island.id === journey.sourceId);
+      return source && t < journey.startTime ? this.calculatePosition(source, t) : first;
     }
-    
-    // If journey is completed but status hasn't been updated, return last point
-    if (this.time >= journey.arrivalTime) {
-      return journey.path[journey.path.length - 1];
+    if (t >= (last.time ?? journey.arrivalTime)) {
+      const destination = this.islands.find(island => island.id === journey.destinationId);
+      return destination ? this.calculatePosition(destination, t) : last;
     }
     
-    // Calculate progress as percentage of total journey time
-    const totalJourneyTime = journey.arrivalTime - journey.startTime;
-    const journeyProgress = elapsedTime / totalJourneyTime;
-    
-    // Find the closest point in the path array
-    const pathIndex = Math.min(
-      Math.floor(journeyProgress * (journey.path.length - 1)),
-      journey.path.length - 1
-    );
-    
-    return journey.path[pathIndex];
+    const segment = this.findJourneySegment(journey, t);
+    const from = path[segment];
+    const to = path[segment + 1];
+    const span = (to.time as number) - (from.time as number);
+    const u = span > 0 ? (t - (from.time as number)) / span : 0;
+    return {
+      x: from.x + (to.x - from.x) * u,
+      y: from.y + (to.y - from.y) * u,
+      z: (from.z || 0) + ((to.z || 0) - (from.z || 0)) * u,
+      time: t
+    };
   }
   
   // Get remaining distance and time for an active journey
@@ -176,8 +607,8 @@ export default class SkydriftArchipelagoSimulator {
       return { remainingDistance: 0, remainingTime: 0, progress: 100 };
     }
     
-    // For predicted journeys, always show 0% progress
-    if (journey.status === 'predicted') {
+    // For predicted and scheduled journeys, always show 0% progress
+    if (journey.status === 'predicted' || journey.status === 'scheduled') {
       return { 
         remainingDistance: journey.distance, 
         remainingTime: journey.duration, 
@@ -206,9 +637,13 @@ export default class SkydriftArchipelagoSimulator {
     const totalJourneyTime = journey.arrivalTime - journey.startTime;
     const journeyProgress = elapsedTime / totalJourneyTime;
     
-    // Calculate remaining values
+    // Calculate remaining values. The distance left is the share of the path still ahead of the
+    // ship, since with wind or a curved path the ship doesn't cover it at an even rate.
     const remainingTime = (journey.arrivalTime - this.time) / 1000; // in days
-    const remainingDistance = journey.distance * (1 - journeyProgress);
+    const pathLength = this.calculatePathLength(journey.path);
+    const remainingDistance = pathLength > 0
+      ? journey.distance * this.calculatePathLength(this.getFutureJourneyPath(journey)) / pathLength
+      : journey.distance * (1 - journeyProgress);
     
     return {
       remainingDistance,
@@ -223,8 +658,8 @@ export default class SkydriftArchipelagoSimulator {
       return [];
     }
     
-    // For a predicted journey, return the entire path
-    if (journey.status === 'predicted') {
+    // For a predicted or scheduled journey, return the entire path
+    if (journey.status === 'predicted' || journey.status === 'scheduled') {
       return journey.path;
     }
     
@@ -241,18 +676,167 @@ export default class SkydriftArchipelagoSimulator {
       return [];
     }
     
-    // Calculate progress as percentage of total journey time
-    const totalJourneyTime = journey.arrivalTime - journey.startTime;
-    const journeyProgress = elapsedTime / totalJourneyTime;
+    // Return only the future part of the path, starting where the ship is now
+    const segment = this.findJourneySegment(journey, this.time);
+    return [this.getCurrentJourneyPosition(journey), ...journey.path.slice(segment + 1)];
+  }
+  
+  // Index of the path point starting the segment a journey's ship is on at time t, found by
+  // binary search on the points' times
+  private findJourneySegment(journey: Journey, t: number): number {
+    const path = journey.path;
+    let low = 0;
+    let high = path.length - 1;
+    while (high - low > 1) {
+      const mid = Math.floor((low + high) / 2);
+      if ((path[mid].time as number) <= t) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+  
+  // Length (miles) of a path through its points, including climbs and descents
+  private calculatePathLength(path: Position[]): number {
+    let length = 0;
+    for (let i = 1; i < path.length; i++) {
+      length += Math.hypot(path[i].x - path[i - 1].x, path[i].y - path[i - 1].y, (path[i].z || 0) - (path[i - 1].z || 0));
+    }
+    return length;
+  }
+  
+  // Get itineraries
+  getItineraries(): Itinerary[] {
+    return [...this.itineraries];
+  }
+  
+  // Add an itinerary, deriving its status and its legs' statuses from the current time
+  addItinerary(itinerary: Itinerary): void {
+    this.itineraries.push({
+      ...itinerary,
+      legs: itinerary.legs.map(leg => ({...leg, status: this.getJourneyStatusAt(leg, this.time)})),
+      status: this.getJourneyStatusAt(itinerary, this.time)
+    });
+  }
+  
+  // Delete an itinerary
+  deleteItinerary(itineraryId: number): void {
+    this.itineraries = this.itineraries.filter(itinerary => itinerary.id !== itineraryId);
+  }
+  
+  // Update itinerary and leg statuses based on current time
+  updateItineraryStatuses(): Itinerary[] {
+    this.itineraries.forEach(itinerary => {
+      if (itinerary.status === 'predicted') return;
+      
+      itinerary.status = this.getJourneyStatusAt(itinerary, this.time);
+      itinerary.legs.forEach(leg => {
+        leg.status = this.getJourneyStatusAt(leg, this.time);
+      });
+    });
     
-    // Find the closest point in the path array
-    const startIndex = Math.min(
-      Math.floor(journeyProgress * (journey.path.length - 1)),
-      journey.path.length - 1
-    );
+    return [...this.itineraries];
+  }
+  
+  // Index of the leg under way at the current time, or of the next leg to depart during a layover
+  getCurrentItineraryLeg(itinerary: Itinerary): number {
+    if (itinerary.status === 'predicted' || itinerary.status === 'scheduled') {
+      return 0;
+    }
+    
+    const index = itinerary.legs.findIndex(leg => this.time < leg.arrivalTime);
+    return index === -1 ? itinerary.legs.length - 1 : index;
+  }
+  
+  // Get current position along an itinerary. During a layover the ship waits at the island.
+  getCurrentItineraryPosition(itinerary: Itinerary): Position {
+    const legIndex = this.getCurrentItineraryLeg(itinerary);
+    const leg = itinerary.legs[legIndex];
+    
+    if (itinerary.status === 'active' && this.time < leg.startTime) {
+      const island = this.islands.find(island => island.id === leg.sourceId);
+      if (island) {
+        return this.calculatePosition(island);
+      }
+    }
+    
+    if (itinerary.status === 'completed') {
+      return leg.path[leg.path.length - 1];
+    }
+    
+    return this.getCurrentJourneyPosition(leg);
+  }
+  
+  // Get remaining distance and time for an itinerary, and which leg it is on.
+  // Progress is the fraction of the total time (including layovers) that has passed.
+  getItineraryProgress(itinerary: Itinerary): { 
+    remainingDistance: number, 
+    remainingTime: number, 
+    progress: number, 
+    legIndex: number, 
+    atLayover: boolean 
+  } {
+    if (itinerary.status === 'completed' || this.time >= itinerary.arrivalTime) {
+      return { remainingDistance: 0, remainingTime: 0, progress: 100, legIndex: itinerary.legs.length - 1, atLayover: false };
+    }
+    
+    if (itinerary.status === 'predicted' || itinerary.status === 'scheduled' || this.time < itinerary.startTime) {
+      return { 
+        remainingDistance: itinerary.distance, 
+        remainingTime: itinerary.duration, 
+        progress: 0, 
+        legIndex: 0, 
+        atLayover: false 
+      };
+    }
+    
+    const legIndex = this.getCurrentItineraryLeg(itinerary);
+    const leg = itinerary.legs[legIndex];
+    
+    // Distance left on the current leg plus every later leg
+    let remainingDistance = this.getJourneyProgress(leg).remainingDistance;
+    for (let i = legIndex + 1; i < itinerary.legs.length; i++) {
+      remainingDistance += itinerary.legs[i].distance;
+    }
+    
+    return {
+      remainingDistance,
+      remainingTime: (itinerary.arrivalTime - this.time) / 1000,
+      progress: ((this.time - itinerary.startTime) / (itinerary.arrivalTime - itinerary.startTime)) * 100,
+      legIndex,
+      atLayover: this.time < leg.startTime
+    };
+  }
+  
+  // The whole itinerary as one continuous route: each leg's path, joined by the track the
+  // ship follows while it waits at an island during a layover
+  getItineraryRoute(itinerary: Itinerary): Position[] {
+    const route: Position[] = [];
+    
+    itinerary.legs.forEach((leg, index) => {
+      if (index > 0) {
+        const previous = itinerary.legs[index - 1];
+        const island = this.islands.find(island => island.id === leg.sourceId);
+        const layoverTime = leg.startTime - previous.arrivalTime;
+        
+        if (island && layoverTime > 0) {
+          // Sample the island's motion about every 3 hours, within sensible bounds
+          const count = Math.min(200, Math.max(2, Math.ceil(layoverTime / 125) + 1));
+          const step = layoverTime / (count - 1);
+          const batch = this.calculatePositionsBatch([island], { start: previous.arrivalTime, step, count });
+          
+          for (let k = 0; k < count; k++) {
+            route.push({ x: batch.x[k], y: batch.y[k], z: batch.z[k], time: batch.times[k] });
+          }
+        }
+      }
+      
+      route.push(...leg.path);
+    });
     
-    // Return only the future part of the path
-    return journey.path.slice(startIndex);
+    return route;
   }
   
   // Set islands
@@ -286,6 +870,21 @@ export default class SkydriftArchipelagoSimulator {
     }
   }
   
+  // Get wind layers
+  getWindLayers(): WindLayer[] {
+    return [...this.windLayers];
+  }
+  
+  // Set wind layers
+  setWindLayers(layers: WindLayer[]): void {
+    this.windLayers = [...layers];
+  }
+  
+  // Calculate the wind (mph) at a point, in miles from the centre
+  calculateWind(x: number, y: number, t: number = this.time): WindVector {
+    return calculateWindVelocity(this.windLayers, x, y, t);
+  }
+  
   // Set time
   setTime(time: number): void {
     this.time = time;
@@ -323,7 +922,111 @@ export default class SkydriftArchipelagoSimulator {
     return this.calculateMilesRadius(period);
   }
   
+  // Calculate the radius (semi-major axis) of an epicycle in miles
+  // An explicit radius takes precedence over the Kepler-style radius derived from period
+  calculateCycleRadius(cycle: Epicycle): number {
+    if (cycle.radius !== undefined && cycle.radius > 0) {
+      return cycle.radius;
+    }
+    return this.calculateMilesRadius(cycle.period);
+  }
+  
+  // Calculate the semi-minor axis of an epicycle in miles
+  calculateCycleSemiMinorAxis(cycle: Epicycle): number {
+    const eccentricity = Math.min(Math.max(cycle.eccentricity || 0, 0), MAX_ECCENTRICITY);
+    return this.calculateCycleRadius(cycle) * Math.sqrt(1 - eccentricity * eccentricity);
+  }
+  
+  // Convert an epicycle's orientation (degrees) to radians
+  calculateOrientationRadians(cycle: Epicycle): number {
+    return ((cycle.orientation || 0) * Math.PI) / 180;
+  }
+  
+  // Calculate the offset of a single epicycle from its center at a given time
+  // The epicycle traces an ellipse centered on its parent, with the major axis rotated by its orientation
+  calculateCycleOffset(cycle: Epicycle, t: number = this.time): { x: number, y: number } {
+    const angle = this.calculateCycleAngle(cycle, t);
+    return this.calculateEllipsePoint(cycle, angle);
+  }
+  
+  // Calculate the point on an epicycle's ellipse at a given parametric angle
+  calculateEllipsePoint(cycle: Epicycle, angle: number): { x: number, y: number } {
+    const a = this.calculateCycleRadius(cycle);
+    const b = this.calculateCycleSemiMinorAxis(cycle);
+    const orientation = this.calculateOrientationRadians(cycle);
+    
+    // Point on the unrotated ellipse
+    const ex = a * Math.cos(angle);
+    const ey = b * Math.sin(angle);
+    
+    // Rotate by the orientation of the major axis
+    return {
+      x: ex * Math.cos(orientation) - ey * Math.sin(orientation),
+      y: ex * Math.sin(orientation) + ey * Math.cos(orientation)
+    };
+  }
+  
+  // Calculate the minimum and maximum possible distance of an island from the center (in miles)
+  // Used to rule out conjunctions analytically without scanning through time
+  calculateRadialBounds(island: Island): { min: number, max: number } {
+    const semiMajorAxes = island.cycles.map(cycle => this.calculateCycleRadius(cycle));
+    const max = semiMajorAxes.reduce((sum, a) => sum + a, 0);
+    
+    // The island is at least as far out as any single epicycle's nearest point
+    // minus the largest possible reach of all the other epicycles
+    let min = 0;
+    island.cycles.forEach((cycle, i) => {
+      const nearest = this.calculateCycleSemiMinorAxis(cycle);
+      const othersReach = max - semiMajorAxes[i];
+      min = Math.max(min, nearest - othersReach);
+    });
+    
+    return { min, max };
+  }
+  
+  // Convert an epicycle's phase offset (degrees) to radians
+  calculatePhaseRadians(cycle: Epicycle): number {
+    return ((cycle.phase || 0) * Math.PI) / 180;
+  }
+  
+  // Calculate the angle (radians) of a single epicycle at a given time
+  calculateCycleAngle(cycle: Epicycle, t: number = this.time): number {
+    // Convert period to angular velocity (speed)
+    // period = days for a full orbit (2π radians)
+    // angular velocity = 2π / period (radians per day)
+    const direction = Math.sign(cycle.period);
+    const angularVelocity = direction * (2 * Math.PI) / Math.abs(cycle.period);
+    
+    // Convert time from milliseconds to days for angle calculation
+    const timeInDays = t / 1000;
+    
+    return angularVelocity * timeInDays + this.calculatePhaseRadians(cycle);
+  }
+  
+  // Calculate island altitude (miles) at a given time from its vertical oscillation
+  calculateAltitude(island: Island, t: number = this.time): number {
+    const altitude = island.altitude;
+    if (!altitude) return 0;
+    
+    const base = altitude.base || 0;
+    if (!altitude.period || !altitude.amplitude) return base;
+    
+    const angle = (2 * Math.PI * (t / 1000)) / altitude.period + ((altitude.phase || 0) * Math.PI) / 180;
+    return base + altitude.amplitude * Math.sin(angle);
+  }
+  
+  // Calculate the rate of change of island altitude (miles per day)
+  calculateVerticalVelocity(island: Island, t: number = this.time): number {
+    const altitude = island.altitude;
+    if (!altitude || !altitude.period || !altitude.amplitude) return 0;
+    
+    const angularVelocity = (2 * Math.PI) / altitude.period;
+    const angle = angularVelocity * (t / 1000) + ((altitude.phase || 0) * Math.PI) / 180;
+    return altitude.amplitude * angularVelocity * Math.cos(angle);
+  }
+  
   // Calculate island position based on epicycles and time
+  // The full position (all levels) also includes the island's altitude as z
   calculatePosition(island: Island, t: number = this.time, level: number = -1): Position {
     let x = 0;
     let y = 0;
@@ -334,35 +1037,134 @@ export default class SkydriftArchipelagoSimulator {
     for (let i = 0; i < cycleLimit && i < island.cycles.length; i++) {
       const cycle = island.cycles[i];
       
-      // Calculate radius in miles
-      const radius = this.calculateMilesRadius(cycle.period);
-      
-      // Convert period to angular velocity (speed)
-      // period = days for a full orbit (2π radians)
-      // angular velocity = 2π / period (radians per day)
-      const direction = Math.sign(cycle.period);
-      const angularVelocity = direction * (2 * Math.PI) / Math.abs(cycle.period);
-      
-      // Convert time from milliseconds to days for angle calculation
-      const timeInDays = t / 1000;
-      
-      // Add the epicycle contribution (all islands start at phase 0)
-      x += radius * Math.cos(angularVelocity * timeInDays);
-      y += radius * Math.sin(angularVelocity * timeInDays);
+      // Add the epicycle contribution (elliptical if the epicycle has an eccentricity)
+      const offset = this.calculateCycleOffset(cycle, t);
+      x += offset.x;
+      y += offset.y;
     }
     
-    return { x, y };
+    // Intermediate epicycle centers have no altitude of their own
+    if (cycleLimit < island.cycles.length) {
+      return { x, y };
+    }
+    
+    return { x, y, z: this.calculateAltitude(island, t) };
   }
   
-  // Calculate intermediate positions for all epicycle levels
-  calculateAllPositions(island: Island, t: number = this.time): Position[] {
-    const positions: Position[] = [];
-    
-    // Add center position (0,0)
-    positions.push({ x: 0, y: 0 });
+  // Precompute the radii, angular velocities and orientations of an island's epicycles
+  private compileIsland(island: Island): CompiledIsland {
+    const cycles = island.cycles.map(cycle => {
+      const orientation = this.calculateOrientationRadians(cycle);
+      return {
+        semiMajor: this.calculateCycleRadius(cycle),
+        semiMinor: this.calculateCycleSemiMinorAxis(cycle),
+        angularVelocity: Math.sign(cycle.period) * (2 * Math.PI) / Math.abs(cycle.period),
+        phase: this.calculatePhaseRadians(cycle),
+        cosOrientation: Math.cos(orientation),
+        sinOrientation: Math.sin(orientation)
+      };
+    });
     
-    // Calculate position at each epicycle level
-    for (let level = 0; level < island.cycles.length; level++) {
+    // Only islands with both a period and an amplitude oscillate; the base altitude applies either way
+    const altitude = island.altitude;
+    const oscillation = altitude && altitude.period && altitude.amplitude ? altitude : null;
+    return {
+      cycles,
+      altitudeBase: altitude ? altitude.base || 0 : 0,
+      altitudeAmplitude: oscillation ? oscillation.amplitude : 0,
+      altitudeAngularVelocity: oscillation ? (2 * Math.PI) / oscillation.period : 0,
+      altitudePhase: oscillation ? ((oscillation.phase || 0) * Math.PI) / 180 : 0
+    };
+  }
+  
+  // Evaluate a compiled island at time t, writing [x, y, z, vx, vy, vz] into out
+  // (miles and miles per day)
+  private evaluateCompiledIsland(compiled: CompiledIsland, t: number, out: Float64Array): void {
+    const days = t / 1000;
+    let x = 0;
+    let y = 0;
+    let vx = 0;
+    let vy = 0;
+    
+    for (let i = 0; i < compiled.cycles.length; i++) {
+      const cycle = compiled.cycles[i];
+      const angle = cycle.angularVelocity * days + cycle.phase;
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      
+      // Position and velocity on the unrotated ellipse, then rotated by the orientation
+      const ex = cycle.semiMajor * cos;
+      const ey = cycle.semiMinor * sin;
+      const evx = -cycle.semiMajor * cycle.angularVelocity * sin;
+      const evy = cycle.semiMinor * cycle.angularVelocity * cos;
+      
+      x += ex * cycle.cosOrientation - ey * cycle.sinOrientation;
+      y += ex * cycle.sinOrientation + ey * cycle.cosOrientation;
+      vx += evx * cycle.cosOrientation - evy * cycle.sinOrientation;
+      vy += evx * cycle.sinOrientation + evy * cycle.cosOrientation;
+    }
+    
+    const altitudeAngle = compiled.altitudeAngularVelocity * days + compiled.altitudePhase;
+    
+    out[0] = x;
+    out[1] = y;
+    out[2] = compiled.altitudeBase + compiled.altitudeAmplitude * Math.sin(altitudeAngle);
+    out[3] = vx;
+    out[4] = vy;
+    out[5] = compiled.altitudeAmplitude * compiled.altitudeAngularVelocity * Math.cos(altitudeAngle);
+  }
+  
+  // Calculate the positions of several islands at many times at once
+  // Times are given either as a vector (ms) or as a start/step/count range
+  calculatePositionsBatch(islands: Island[], times: Float64Array | number[] | TimeRange): PositionBatch {
+    let timeVector: Float64Array;
+    if (times instanceof Float64Array) {
+      timeVector = times;
+    } else if (Array.isArray(times)) {
+      timeVector = Float64Array.from(times);
+    } else {
+      timeVector = new Float64Array(Math.max(0, Math.floor(times.count)));
+      for (let k = 0; k < timeVector.length; k++) {
+        timeVector[k] = times.start + k * times.step;
+      }
+    }
+    
+    const sampleCount = timeVector.length;
+    const x = new Float64Array(islands.length * sampleCount);
+    const y = new Float64Array(islands.length * sampleCount);
+    const z = new Float64Array(islands.length * sampleCount);
+    
+    const state = new Float64Array(6);
+    islands.forEach((island, i) => {
+      const compiled = this.compileIsland(island);
+      const offset = i * sampleCount;
+      
+      for (let k = 0; k < sampleCount; k++) {
+        this.evaluateCompiledIsland(compiled, timeVector[k], state);
+        x[offset + k] = state[0];
+        y[offset + k] = state[1];
+        z[offset + k] = state[2];
+      }
+    });
+    
+    return {
+      islandIds: islands.map(island => island.id),
+      times: timeVector,
+      x,
+      y,
+      z
+    };
+  }
+  
+  // Calculate intermediate positions for all epicycle levels
+  calculateAllPositions(island: Island, t: number = this.time): Position[] {
+    const positions: Position[] = [];
+    
+    // Add center position (0,0)
+    positions.push({ x: 0, y: 0 });
+    
+    // Calculate position at each epicycle level
+    for (let level = 0; level < island.cycles.length; level++) {
       const position = this.calculatePosition(island, t, level);
       positions.push(position);
     }
@@ -387,25 +1189,24 @@ export default class SkydriftArchipelagoSimulator {
       
       const cycle = island.cycles[cycleLevel];
       
-      // Calculate radius in miles, no longer scaling for rendering
-      const radius = this.calculateMilesRadius(cycle.period);
-      
       const stepSize = 2 * Math.PI / steps;
       
+      // Start each orbit at the epicycle's phase so the first point matches day 0
+      const startAngle = this.calculatePhaseRadians(cycle);
+      
       for (let i = 0; i <= steps; i++) {
-        const angle = i * stepSize;
+        const angle = startAngle + i * stepSize;
+        
+        // Point on this epicycle's ellipse, in miles (no scaling for rendering)
+        const point = this.calculateEllipsePoint(cycle, angle);
         
         if (cycleLevel === 0) {
           // First level epicycle - centered at origin (0,0) instead of CENTER_X, CENTER_Y
           // Let the component handle the centering and scaling
-          const x = radius * Math.cos(angle);
-          const y = radius * Math.sin(angle);
-          orbitPoints.push({ x, y });
+          orbitPoints.push({ x: point.x, y: point.y });
         } else if (basePosition) {
           // Higher level epicycles - centered at the previous level's position
-          const x = basePosition.x + radius * Math.cos(angle);
-          const y = basePosition.y + radius * Math.sin(angle);
-          orbitPoints.push({ x, y });
+          orbitPoints.push({ x: basePosition.x + point.x, y: basePosition.y + point.y });
         }
       }
       
@@ -415,11 +1216,23 @@ export default class SkydriftArchipelagoSimulator {
     return orbits;
   }
   
-  // Calculate distance between two islands at a given time (in miles)
+  // Calculate 3D distance between two islands at a given time (in miles)
   calculateDistance(island1: Island, island2: Island, t: number = this.time): number {
     const pos1 = this.calculatePosition(island1, t);
     const pos2 = this.calculatePosition(island2, t);
     
+    return Math.sqrt(
+      Math.pow(pos1.x - pos2.x, 2) + 
+      Math.pow(pos1.y - pos2.y, 2) +
+      Math.pow((pos1.z || 0) - (pos2.z || 0), 2)
+    );
+  }
+  
+  // Calculate horizontal (map) distance between two islands at a given time (in miles)
+  calculateHorizontalDistance(island1: Island, island2: Island, t: number = this.time): number {
+    const pos1 = this.calculatePosition(island1, t);
+    const pos2 = this.calculatePosition(island2, t);
+    
     return Math.sqrt(
       Math.pow(pos1.x - pos2.x, 2) + 
       Math.pow(pos1.y - pos2.y, 2)
@@ -452,37 +1265,60 @@ export default class SkydriftArchipelagoSimulator {
     }
   }
 
-  // Calculate GCD (Greatest Common Divisor) using Euclidean algorithm
-  private gcd(a: number, b: number): number {
-    a = Math.abs(a);
-    b = Math.abs(b);
-    while (b) {
-      const t = b;
-      b = a % b;
-      a = t;
+  // Calculate the exact repeat period of a set of epicycles using rational arithmetic
+  calculateEpicycleRepeatPeriod(cycles: Epicycle[], options?: RepeatPeriodOptions): RepeatPeriod {
+    return calculateRepeatPeriod(cycles.map(cycle => cycle.period), options);
+  }
+  
+  // All periods (days) that an island's motion depends on: its epicycles and its altitude oscillation
+  private getIslandPeriods(island: Island): number[] {
+    const periods = island.cycles.map(cycle => cycle.period);
+    if (island.altitude && island.altitude.amplitude && island.altitude.period) {
+      periods.push(island.altitude.period);
     }
-    return a;
+    return periods;
   }
-
-  // Calculate LCM (Least Common Multiple)
-  private lcm(a: number, b: number): number {
-    return Math.abs(a * b) / this.gcd(a, b);
+  
+  // Calculate the exact period after which an island returns to the same position and altitude
+  calculateIslandRepeatPeriod(island: Island, options?: RepeatPeriodOptions): RepeatPeriod {
+    return calculateRepeatPeriod(this.getIslandPeriods(island), options);
+  }
+  
+  // Calculate the exact period after which the whole archipelago repeats (the "grand cycle")
+  calculateArchipelagoRepeatPeriod(islands: Island[] = this.islands, options?: RepeatPeriodOptions): RepeatPeriod {
+    const periods: number[] = [];
+    islands.forEach(island => periods.push(...this.getIslandPeriods(island)));
+    return calculateRepeatPeriod(periods, options);
   }
 
-  // Calculate orbital period as LCM of all epicycle periods
-  calculateOrbitalPeriod(cycles: Epicycle[]): number {
+  // Calculate orbital period as the exact (rational) LCM of all epicycle periods
+  // Returns Infinity if the epicycles never line up again
+  calculateOrbitalPeriod(cycles: Epicycle[], options?: RepeatPeriodOptions): number {
     if (cycles.length === 0) return 0;
-    if (cycles.length === 1) return Math.abs(cycles[0].period);
     
-    return cycles.reduce((acc, cycle) => this.lcm(acc, Math.abs(cycle.period)), Math.abs(cycles[0].period));
+    const repeatPeriod = this.calculateEpicycleRepeatPeriod(cycles, options);
+    return repeatPeriod.period !== null ? repeatPeriod.period : Infinity;
   }
 
   // Calculate where in the orbital cycle the island currently is
   calculateOrbitalPosition(cycles: Epicycle[], currentTime: number = this.time): OrbitalPosition {
     const orbitalPeriod = this.calculateOrbitalPeriod(cycles);
     
-    // Convert time (in ms) to days
-    const currentTimeInDays = currentTime / 1000;
+    // Convert time (in ms) to days, shifted by the primary epicycle's phase so that
+    // day 0 of the cycle is when the primary epicycle is at angle 0
+    const primaryPhaseDays = cycles.length > 0
+      ? ((cycles[0].phase || 0) / 360) * cycles[0].period
+      : 0;
+    const currentTimeInDays = currentTime / 1000 + primaryPhaseDays;
+    
+    // A non-repeating orbit has no position within a cycle
+    if (!isFinite(orbitalPeriod) || orbitalPeriod <= 0) {
+      return {
+        dayInCycle: currentTimeInDays,
+        percentage: 0,
+        repeating: false
+      };
+    }
     
     // Normalize the time to the range [0, orbitalPeriod)
     // This handles negative time values correctly too
@@ -493,7 +1329,8 @@ export default class SkydriftArchipelagoSimulator {
     
     return { 
       dayInCycle: normalizedTime, 
-      percentage 
+      percentage,
+      repeating: true
     };
   }
 
@@ -505,8 +1342,10 @@ export default class SkydriftArchipelagoSimulator {
     for (let i = 0; i < island.cycles.length; i++) {
       const cycle = island.cycles[i];
       
-      // Calculate radius in miles
-      const radius = this.calculateMilesRadius(cycle.period);
+      // Semi-major and semi-minor axes in miles (equal for circular epicycles)
+      const a = this.calculateCycleRadius(cycle);
+      const b = this.calculateCycleSemiMinorAxis(cycle);
+      const orientation = this.calculateOrientationRadians(cycle);
       
       // Convert period to angular velocity (speed)
       const direction = Math.sign(cycle.period);
@@ -515,20 +1354,19 @@ export default class SkydriftArchipelagoSimulator {
       // ω = 2π / T where T is period in days
       const angularVelocityPerDay = direction * (2 * Math.PI) / Math.abs(cycle.period);
       
-      // Calculate the current angle for this epicycle
-      // We need to convert time (ms) to days for the angle calculation
-      const angle = angularVelocityPerDay * (t / 1000);
+      // Calculate the current angle for this epicycle, including its phase offset
+      const angle = this.calculateCycleAngle(cycle, t);
       
-      // Calculate the linear velocity components for this epicycle
-      // v = r * ω (miles per day)
-      // vx = -r * ω * sin(angle)  (negative because derivative of cos is -sin)
-      // vy = r * ω * cos(angle)   (derivative of sin is cos)
-      const vxi = -radius * angularVelocityPerDay * Math.sin(angle);
-      const vyi = radius * angularVelocityPerDay * Math.cos(angle);
+      // Calculate the linear velocity components for this epicycle on the unrotated ellipse
+      // (miles per day)
+      // ex = -a * ω * sin(angle)  (negative because derivative of cos is -sin)
+      // ey = b * ω * cos(angle)   (derivative of sin is cos)
+      const evx = -a * angularVelocityPerDay * Math.sin(angle);
+      const evy = b * angularVelocityPerDay * Math.cos(angle);
       
-      // Sum the velocity components
-      vx += vxi;
-      vy += vyi;
+      // Rotate by the orientation of the major axis and sum the velocity components
+      vx += evx * Math.cos(orientation) - evy * Math.sin(orientation);
+      vy += evx * Math.sin(orientation) + evy * Math.cos(orientation);
     }
     
     // Calculate the total speed and angle
@@ -542,7 +1380,8 @@ export default class SkydriftArchipelagoSimulator {
       speed: speed, 
       angle: angle,
       x: vx,
-      y: vy
+      y: vy,
+      z: this.calculateVerticalVelocity(island, t)
     };
   }
 
@@ -614,31 +1453,89 @@ export default class SkydriftArchipelagoSimulator {
     return Math.abs(F(theta1 + deltaTheta) - F(theta1)) / (2 * Math.abs(b));
   }
   
-  // Calculate journey between two islands
-  calculateJourney(sourceIslandId: number, destinationIslandId: number, journeySpeed: number, isPrediction: boolean = false): Journey | null {
-    if (journeySpeed <= 0) {
-      return null;
+  // Angular velocity (radians per day) of the orbital current at a radius: the rate of a
+  // circular orbit of that radius, from the same r ∝ T^(2/3) scale as the epicycles
+  calculateCurrentAngularVelocity(radius: number): number {
+    const period = Math.pow(Math.max(radius, 1) / this.MILES_SCALE_FACTOR, 3/2);
+    return (2 * Math.PI) / period;
+  }
+  
+  // Where the current would have carried a point over the given days, rotating it about the centre
+  private driftWithCurrent(point: Position, angularVelocity: number, days: number): Position {
+    const angle = angularVelocity * days;
+    return {
+      x: point.x * Math.cos(angle) - point.y * Math.sin(angle),
+      y: point.x * Math.sin(angle) + point.y * Math.cos(angle)
+    };
+  }
+  
+  // Angular velocity of the current a journey drifts with: the flow at its mean radius
+  private calculateJourneyCurrent(sourcePos: Position, destPos: Position): number {
+    return this.calculateCurrentAngularVelocity(
+      (Math.hypot(sourcePos.x, sourcePos.y) + Math.hypot(destPos.x, destPos.y)) / 2
+    );
+  }
+  
+  // Horizontal length (miles) of a path from sourcePos to destPos taking the given days.
+  // For the current model this is the distance flown through the air, which is what the
+  // ship's speed applies to: the straight line to the destination with the drift taken out.
+  private calculateHorizontalPathLength(
+    pathModel: JourneyPathModel, 
+    sourcePos: Position, 
+    destPos: Position, 
+    duration: number
+  ): number {
+    if (pathModel === 'straight') {
+      return Math.hypot(destPos.x - sourcePos.x, destPos.y - sourcePos.y);
     }
     
-    const sourceIsland = this.islands.find(island => island.id === sourceIslandId);
-    const destIsland = this.islands.find(island => island.id === destinationIslandId);
-    
-    if (!sourceIsland || !destIsland) {
-      return null;
+    if (pathModel === 'current') {
+      const angularVelocity = this.calculateJourneyCurrent(sourcePos, destPos);
+      const target = this.driftWithCurrent(destPos, angularVelocity, -duration);
+      return Math.hypot(target.x - sourcePos.x, target.y - sourcePos.y);
     }
     
-    // Get current positions
-    const sourcePos = this.calculatePosition(sourceIsland);
     const sourcePolar = this.cartesianToPolar(sourcePos.x, sourcePos.y);
-    
-    // Initial estimate: calculate journey based on current destination position
-    let destPos = this.calculatePosition(destIsland);
-    let destPolar = this.cartesianToPolar(destPos.x, destPos.y);
-    
-    // Calculate initial distance (straight line in Cartesian)
+    const destPolar = this.cartesianToPolar(destPos.x, destPos.y);
+    
+    // Determine if clockwise or counterclockwise is shorter
+    const isClockwise = this.normalizeAngle(destPolar.theta - sourcePolar.theta) > 0;
+    
+    // Calculate path length using analytical formula
+    return this.polarPathLength(
+      sourcePolar.r,
+      sourcePolar.theta,
+      destPolar.r,
+      destPolar.theta,
+      isClockwise
+    );
+  }
+  
+  // Iteratively find where the destination will be when a ship leaving the source at
+  // departureTime arrives, and the distance and duration (days) of that trip
+  private calculateIntercept(
+    sourceIsland: Island, 
+    destIsland: Island, 
+    journeySpeed: number, 
+    departureTime: number,
+    pathModel: JourneyPathModel = 'spiral'
+  ): { 
+    sourcePos: Position, 
+    destPos: Position, 
+    distance: number, 
+    duration: number 
+  } {
+    // Get positions at departure
+    const sourcePos = this.calculatePosition(sourceIsland, departureTime);
+    
+    // Initial estimate: calculate journey based on destination position at departure
+    let destPos = this.calculatePosition(destIsland, departureTime);
+    
+    // Calculate initial distance (straight line in Cartesian, including the climb or descent)
     let distance = Math.sqrt(
       Math.pow(destPos.x - sourcePos.x, 2) + 
-      Math.pow(destPos.y - sourcePos.y, 2)
+      Math.pow(destPos.y - sourcePos.y, 2) +
+      Math.pow((destPos.z || 0) - (sourcePos.z || 0), 2)
     );
     
     // Initial duration estimate
@@ -654,420 +1551,1343 @@ export default class SkydriftArchipelagoSimulator {
       prevDuration = duration;
       
       // Calculate destination position at estimated arrival time
-      const arrivalTime = this.time + (duration * 1000); // Convert days to milliseconds
+      const arrivalTime = departureTime + (duration * 1000); // Convert days to milliseconds
       destPos = this.calculatePosition(destIsland, arrivalTime);
-      destPolar = this.cartesianToPolar(destPos.x, destPos.y);
-      
-      // Calculate angular difference (consider both directions)
-      let angleDiff = destPolar.theta - sourcePolar.theta;
-      angleDiff = this.normalizeAngle(angleDiff);
-      
-      // Determine if clockwise or counterclockwise is shorter
-      const isClockwise = angleDiff > 0;
-      
-      // Calculate path length using analytical formula
-      distance = this.polarPathLength(
-        sourcePolar.r,
-        sourcePolar.theta,
-        destPolar.r,
-        destPolar.theta,
-        isClockwise
-      );
       
-      // Update duration based on new distance
-      duration = distance / (journeySpeed * 24); // Convert to days (speed is mph, so mph * 24 = miles per day)
+      const horizontalDistance = this.calculateHorizontalPathLength(pathModel, sourcePos, destPos, duration);
+      
+      // The ship climbs or descends evenly along the way, so the vertical change
+      // combines with the horizontal path length like the sides of a right triangle
+      const verticalDistance = (destPos.z || 0) - (sourcePos.z || 0);
+      distance = Math.sqrt(horizontalDistance * horizontalDistance + verticalDistance * verticalDistance);
+      
+      // Update duration based on new distance, riding the wind along the path if there is any
+      if (this.hasWind() && distance > 0) {
+        const airSpeed = journeySpeed * (horizontalDistance / distance);
+        const elapsed = this.calculateWindTiming(pathModel, sourcePos, destPos, departureTime, duration, airSpeed);
+        duration = elapsed[elapsed.length - 1];
+      } else {
+        duration = distance / (journeySpeed * 24); // Convert to days (speed is mph, so mph * 24 = miles per day)
+      }
       iterations++;
     }
     
-    // Create the journey object
-    const journey: Journey = {
-      id: Date.now(),
-      sourceId: sourceIslandId,
-      destinationId: destinationIslandId,
-      speed: journeySpeed,
-      path: [],
-      distance: distance,
-      duration: duration,
-      startTime: this.time,
-      arrivalTime: this.time + (duration * 1000),
-      isClockwise: this.normalizeAngle(destPolar.theta - sourcePolar.theta) > 0,
-      status: isPrediction ? 'predicted' : 'active'
-    };
-    
-    // Calculate the final path with more detail
-    const numPathPoints = 200;
-    const path: Position[] = [];
+    return { sourcePos, destPos, distance, duration };
+  }
+  
+  // Whether any wind layer is blowing
+  private hasWind(): boolean {
+    return this.windLayers.some(layer => layer.enabled !== false);
+  }
+  
+  // Ground speed (mph) along a direction for a ship flying at airSpeed that holds its course:
+  // it turns into the crosswind to cancel it and is pushed along by the tailwind
+  private calculateGroundSpeed(airSpeed: number, wind: WindVector, directionX: number, directionY: number): number {
+    const tailwind = wind.x * directionX + wind.y * directionY;
+    const crosswind = wind.x * directionY - wind.y * directionX;
+    const along = Math.abs(crosswind) < airSpeed ? Math.sqrt(airSpeed * airSpeed - crosswind * crosswind) : 0;
+    return Math.max(tailwind + along, airSpeed * this.MIN_GROUND_SPEED_FRACTION);
+  }
+  
+  // Days elapsed at each point of a journey path when flying it through the wind at airSpeed
+  // (the horizontal share of the ship's speed). The time on each segment comes from the ground
+  // speed at its midpoint when the ship reaches it. Ships following the current are carried by
+  // it as well as the wind.
+  private calculateWindTiming(
+    pathModel: JourneyPathModel, 
+    sourcePos: Position, 
+    destPos: Position, 
+    departureTime: number, 
+    duration: number, 
+    airSpeed: number, 
+    numSegments: number = 100
+  ): number[] {
+    const sourcePolar = this.cartesianToPolar(sourcePos.x, sourcePos.y);
+    const destPolar = this.cartesianToPolar(destPos.x, destPos.y);
+    const isClockwise = this.normalizeAngle(destPolar.theta - sourcePolar.theta) > 0;
+    const path = this.calculateJourneyPath(pathModel, sourcePos, destPos, departureTime, duration, isClockwise, numSegments);
+    const currentAngularVelocity = pathModel === 'current' ? this.calculateJourneyCurrent(sourcePos, destPos) : 0;
+    
+    const elapsed = [0];
+    for (let i = 1; i < path.length; i++) {
+      const dx = path[i].x - path[i - 1].x;
+      const dy = path[i].y - path[i - 1].y;
+      const length = Math.hypot(dx, dy);
+      if (length === 0) {
+        elapsed.push(elapsed[i - 1]);
+        continue;
+      }
+      
+      const midX = (path[i].x + path[i - 1].x) / 2;
+      const midY = (path[i].y + path[i - 1].y) / 2;
+      const wind = this.calculateWind(midX, midY, departureTime + elapsed[i - 1] * 1000);
+      
+      // The current turns about the centre: radians per day times miles, in mph
+      wind.x -= (currentAngularVelocity * midY) / 24;
+      wind.y += (currentAngularVelocity * midX) / 24;
+      
+      const groundSpeed = this.calculateGroundSpeed(airSpeed, wind, dx / length, dy / length);
+      elapsed.push(elapsed[i - 1] + length / (groundSpeed * 24));
+    }
     
-    // Get source and destination positions
-    const finalSourcePos = this.calculatePosition(sourceIsland);
-    const finalDestPos = this.calculatePosition(destIsland, journey.arrivalTime);
+    return elapsed;
+  }
+  
+  // Respace path points so they are evenly spaced in time again, given the days elapsed at each
+  private retimeJourneyPath(path: Position[], elapsed: number[], startTime: number, duration: number): Position[] {
+    const total = elapsed[elapsed.length - 1];
+    const retimed: Position[] = [];
+    let segment = 1;
+    
+    for (let i = 0; i < path.length; i++) {
+      const t = i / (path.length - 1);
+      const target = t * total;
+      while (segment < path.length - 1 && elapsed[segment] < target) {
+        segment++;
+      }
+      
+      const span = elapsed[segment] - elapsed[segment - 1];
+      const f = span > 0 ? Math.min(Math.max((target - elapsed[segment - 1]) / span, 0), 1) : 1;
+      const from = path[segment - 1];
+      const to = path[segment];
+      retimed.push({
+        x: from.x + f * (to.x - from.x),
+        y: from.y + f * (to.y - from.y),
+        z: (from.z || 0) + f * ((to.z || 0) - (from.z || 0)),
+        time: startTime + t * duration * 1000
+      });
+    }
     
-    // Convert to polar
-    const finalSourcePolar = this.cartesianToPolar(finalSourcePos.x, finalSourcePos.y);
-    const finalDestPolar = this.cartesianToPolar(finalDestPos.x, finalDestPos.y);
+    return retimed;
+  }
+  
+  // Points along a journey path, evenly spaced in time, under the given path model
+  private calculateJourneyPath(
+    pathModel: JourneyPathModel, 
+    sourcePos: Position, 
+    destPos: Position, 
+    startTime: number, 
+    duration: number, 
+    isClockwise: boolean, 
+    numPathPoints: number = 200
+  ): Position[] {
+    const sourcePolar = this.cartesianToPolar(sourcePos.x, sourcePos.y);
+    const destPolar = this.cartesianToPolar(destPos.x, destPos.y);
     
     // Calculate angular difference
-    let finalAngleDiff = finalDestPolar.theta - finalSourcePolar.theta;
-    finalAngleDiff = this.normalizeAngle(finalAngleDiff);
+    const angleDiff = this.normalizeAngle(destPolar.theta - sourcePolar.theta);
     
-    // Determine direction
-    const finalIsClockwise = journey.isClockwise;
+    // For the current model, the point the ship flies at through the air and the current's rate
+    const angularVelocity = this.calculateJourneyCurrent(sourcePos, destPos);
+    const airTarget = this.driftWithCurrent(destPos, angularVelocity, -duration);
     
-    // Generate path points
+    const path: Position[] = [];
     for (let i = 0; i <= numPathPoints; i++) {
       const t = i / numPathPoints;
+      let pos: { x: number, y: number };
       
-      // Linear interpolation of radius
-      const r = finalSourcePolar.r + t * (finalDestPolar.r - finalSourcePolar.r);
-      
-      // Angular interpolation (taking shortest path)
-      let theta;
-      if (finalIsClockwise) {
-        if (finalAngleDiff > 0) {
-          theta = finalSourcePolar.theta + t * finalAngleDiff;
-        } else {
-          theta = finalSourcePolar.theta + t * (finalAngleDiff + 2 * Math.PI);
-        }
+      if (pathModel === 'straight') {
+        pos = {
+          x: sourcePos.x + t * (destPos.x - sourcePos.x),
+          y: sourcePos.y + t * (destPos.y - sourcePos.y)
+        };
+      } else if (pathModel === 'current') {
+        // Straight through the air, carried round by the current so far
+        pos = this.driftWithCurrent({
+          x: sourcePos.x + t * (airTarget.x - sourcePos.x),
+          y: sourcePos.y + t * (airTarget.y - sourcePos.y)
+        }, angularVelocity, t * duration);
       } else {
-        if (finalAngleDiff < 0) {
-          theta = finalSourcePolar.theta + t * finalAngleDiff;
+        // Linear interpolation of radius
+        const r = sourcePolar.r + t * (destPolar.r - sourcePolar.r);
+        
+        // Angular interpolation (taking shortest path)
+        let theta;
+        if (isClockwise) {
+          if (angleDiff > 0) {
+            theta = sourcePolar.theta + t * angleDiff;
+          } else {
+            theta = sourcePolar.theta + t * (angleDiff + 2 * Math.PI);
+          }
         } else {
-          theta = finalSourcePolar.theta + t * (finalAngleDiff - 2 * Math.PI);
+          if (angleDiff < 0) {
+            theta = sourcePolar.theta + t * angleDiff;
+          } else {
+            theta = sourcePolar.theta + t * (angleDiff - 2 * Math.PI);
+          }
         }
+        
+        // Convert back to Cartesian for the path
+        pos = this.polarToCartesian(r, theta);
       }
       
-      // Convert back to Cartesian for the path
-      const pos = this.polarToCartesian(r, theta);
+      // Linear interpolation of altitude
+      const z = (sourcePos.z || 0) + t * ((destPos.z || 0) - (sourcePos.z || 0));
       
       // Calculate exact timestamp for this point along the journey path
-      const pointTime = journey.startTime + (t * duration * 1000);
+      const pointTime = startTime + (t * duration * 1000);
       
       path.push({
         x: pos.x,
         y: pos.y,
+        z: z,
         time: pointTime
       });
     }
     
-    journey.path = path;
+    return path;
+  }
+  
+  // Calculate journey between two islands, departing at the given time (defaults to now)
+  calculateJourney(
+    sourceIslandId: number,
+    destinationIslandId: number,
+    journeySpeed: number,
+    isPrediction: boolean = false,
+    departureTime: number = this.time,
+    pathModel: JourneyPathModel = 'spiral'
+  ): Journey | null {
+    if (journeySpeed <= 0) {
+      return null;
+    }
+    
+    const sourceIsland = this.islands.find(island => island.id === sourceIslandId);
+    const destIsland = this.islands.find(island => island.id === destinationIslandId);
+    
+    if (!sourceIsland || !destIsland) {
+      return null;
+    }
+    
+    const { sourcePos, destPos, distance, duration } = 
+      this.calculateIntercept(sourceIsland, destIsland, journeySpeed, departureTime, pathModel);
+    const sourcePolar = this.cartesianToPolar(sourcePos.x, sourcePos.y);
+    const destPolar = this.cartesianToPolar(destPos.x, destPos.y);
+    
+    // Create the journey object
+    const journey: Journey = {
+      id: Date.now(),
+      sourceId: sourceIslandId,
+      destinationId: destinationIslandId,
+      speed: journeySpeed,
+      path: [],
+      distance: distance,
+      duration: duration,
+      startTime: departureTime,
+      arrivalTime: departureTime + (duration * 1000),
+      isClockwise: this.normalizeAngle(destPolar.theta - sourcePolar.theta) > 0,
+      pathModel,
+      status: 'predicted'
+    };
+    if (!isPrediction) {
+      journey.status = this.getJourneyStatusAt(journey, this.time);
+    }
+    
+    // Calculate the final path with more detail
+    const finalSourcePos = this.calculatePosition(sourceIsland, departureTime);
+    const finalDestPos = this.calculatePosition(destIsland, journey.arrivalTime);
+    journey.path = this.calculateJourneyPath(
+      pathModel, finalSourcePos, finalDestPos, departureTime, duration, journey.isClockwise
+    );
+    
+    // In the wind the ship's ground speed varies, so respace the points to stay evenly spaced in time
+    if (this.hasWind() && distance > 0) {
+      const horizontalDistance = this.calculateHorizontalPathLength(pathModel, finalSourcePos, finalDestPos, duration);
+      const elapsed = this.calculateWindTiming(
+        pathModel, finalSourcePos, finalDestPos, departureTime, duration,
+        journeySpeed * (horizontalDistance / distance), journey.path.length - 1
+      );
+      journey.path = this.retimeJourneyPath(journey.path, elapsed, departureTime, duration);
+    }
     return journey;
   }
-
-  // Calculate all upcoming conjunctions for a specified time range
-  calculateUpcomingConjunctions(
-    lookAheadDays: number = 365, 
-    startFromTime?: number, 
-    targetPairs?: IslandPair[]
-  ): Conjunction[] {
-    if (this.islands.length < 2) return [];
+  
+  // Calculate an itinerary, chaining each leg's departure from the previous arrival plus its layover
+  calculateItinerary(
+    plan: ItineraryPlan, 
+    isPrediction: boolean = false, 
+    departureTime: number = this.time
+  ): Itinerary | null {
+    if (plan.legs.length === 0) {
+      return null;
+    }
     
-    const conjunctions: Conjunction[] = [];
-    const startTime = startFromTime !== undefined ? startFromTime : this.time;
-    const endTime = startTime + (lookAheadDays * 1000); // Convert days to milliseconds
-    const timeStep = 250; // Smaller step for more accurate initial detection
-    
-    // Binary search function to find exact time when distance crosses threshold
-    const findExactThresholdCrossing = (
-      island1: Island, 
-      island2: Island, 
-      startTime: number, 
-      endTime: number, 
-      isStartPoint: boolean // true for finding start, false for finding end
-    ): number => {
-      // Precision in milliseconds (0.05 days)
-      const precision = 0.05 * 1000;
-      
-      // If we've reached our precision, return the midpoint
-      if (endTime - startTime <= precision) {
-        return (startTime + endTime) / 2;
+    const id = Date.now();
+    const legs: Journey[] = [];
+    const layovers: number[] = [];
+    let sourceId = plan.sourceId;
+    let legDepartureTime = departureTime;
+    
+    for (let i = 0; i < plan.legs.length; i++) {
+      const legPlan = plan.legs[i];
+      const leg = this.calculateJourney(
+        sourceId, legPlan.destinationId, legPlan.speed, isPrediction, legDepartureTime, legPlan.pathModel
+      );
+      if (!leg) {
+        return null;
       }
       
-      const midTime = (startTime + endTime) / 2;
-      const distance = this.calculateDistance(island1, island2, midTime);
-      const distanceAtStart = this.calculateDistance(island1, island2, startTime);
-      const distanceAtEnd = this.calculateDistance(island1, island2, endTime);
-      
-      // Check if we've straddled the threshold
-      const startIsUnder = distanceAtStart <= this.CONJUNCTION_THRESHOLD;
-      const endIsUnder = distanceAtEnd <= this.CONJUNCTION_THRESHOLD;
-      const midIsUnder = distance <= this.CONJUNCTION_THRESHOLD;
-      
-      if (isStartPoint) {
-        // For entry point: we want the first point where distance crosses below threshold
-        // If mid point is under threshold but start is over, search between start and mid
-        if (midIsUnder && !startIsUnder) {
-          return findExactThresholdCrossing(island1, island2, startTime, midTime, isStartPoint);
-        }
-        // If mid point is over threshold but end is under, search between mid and end
-        else if (!midIsUnder && endIsUnder) {
-          return findExactThresholdCrossing(island1, island2, midTime, endTime, isStartPoint);
-        }
-        // If all points are on same side of threshold, no crossing was found
-        else if (startIsUnder && midIsUnder && endIsUnder) {
-          // All points under threshold - return the start time (earliest known point)
-          return startTime;
-        } else {
-          // All points over threshold - return the end time (furthest known point)
-          return endTime;
-        }
-      } else {
-        // For exit point: we want the first point where distance crosses above threshold
-        // If mid point is over threshold but start is under, search between start and mid
-        if (!midIsUnder && startIsUnder) {
-          return findExactThresholdCrossing(island1, island2, startTime, midTime, isStartPoint);
-        }
-        // If mid point is under threshold but end is over, search between mid and end
-        else if (midIsUnder && !endIsUnder) {
-          return findExactThresholdCrossing(island1, island2, midTime, endTime, isStartPoint);
-        }
-        // If all points are on same side of threshold, no crossing was found
-        else if (startIsUnder && midIsUnder && endIsUnder) {
-          // All points under threshold - return the end time (furthest known point)
-          return endTime;
-        } else {
-          // All points over threshold - return the start time (earliest known point)
-          return startTime;
-        }
-      }
+      // Give each leg its own ID so legs can be told apart
+      leg.id = id + i + 1;
+      leg.vesselId = legPlan.vesselId;
+      legs.push(leg);
+      
+      const layover = i < plan.legs.length - 1 ? Math.max(0, legPlan.layover || 0) : 0;
+      layovers.push(layover);
+      
+      sourceId = legPlan.destinationId;
+      legDepartureTime = leg.arrivalTime + layover * 1000;
+    }
+    
+    const arrivalTime = legs[legs.length - 1].arrivalTime;
+    const itinerary: Itinerary = {
+      id,
+      sourceId: plan.sourceId,
+      legs,
+      layovers,
+      distance: legs.reduce((total, leg) => total + leg.distance, 0),
+      duration: (arrivalTime - departureTime) / 1000,
+      startTime: departureTime,
+      arrivalTime,
+      status: 'predicted'
+    };
+    if (!isPrediction) {
+      itinerary.status = this.getJourneyStatusAt(itinerary, this.time);
+    }
+    
+    return itinerary;
+  }
+  
+  // Calculate a round trip: out to the destination, a stay of stayDays, then back to the source.
+  // The return leg is worked out from where the islands are when it departs, so it can take far
+  // longer than the outbound leg if they drift apart during the stay.
+  calculateRoundTrip(
+    sourceIslandId: number, 
+    destinationIslandId: number, 
+    journeySpeed: number, 
+    stayDays: number, 
+    isPrediction: boolean = false, 
+    departureTime: number = this.time, 
+    pathModel: JourneyPathModel = 'spiral', 
+    vesselId?: number
+  ): Itinerary | null {
+    return this.calculateItinerary({
+      sourceId: sourceIslandId,
+      legs: [
+        { destinationId: destinationIslandId, speed: journeySpeed, layover: stayDays, pathModel, vesselId },
+        { destinationId: sourceIslandId, speed: journeySpeed, pathModel, vesselId }
+      ]
+    }, isPrediction, departureTime);
+  }
+
+  // Travel time of a trip departing at the given time
+  private calculateDepartureOption(
+    sourceIsland: Island, 
+    destIsland: Island, 
+    journeySpeed: number, 
+    departureTime: number,
+    pathModel: JourneyPathModel = 'spiral'
+  ): DepartureOption {
+    const { distance, duration } = 
+      this.calculateIntercept(sourceIsland, destIsland, journeySpeed, departureTime, pathModel);
+    return {
+      departureTime,
+      arrivalTime: departureTime + duration * 1000,
+      duration,
+      distance
     };
+  }
+  
+  // Sweep departures from startTime over the next windowDays and find the best times to leave.
+  // Each local minimum of the sampled travel duration is refined with a ternary search between
+  // its neighbouring samples down to DEPARTURE_PRECISION.
+  calculateDepartureWindow(
+    sourceIslandId: number, 
+    destinationIslandId: number, 
+    journeySpeed: number, 
+    windowDays: number, 
+    startTime: number = this.time, 
+    sampleCount: number = 200,
+    pathModel: JourneyPathModel = 'spiral'
+  ): DepartureWindow | null {
+    if (journeySpeed <= 0 || windowDays <= 0 || sampleCount < 2) {
+      return null;
+    }
     
-    // Generate all possible island pairs or use the provided targetPairs
-    const pairsToCheck: { island1: Island, island2: Island }[] = [];
+    const sourceIsland = this.islands.find(island => island.id === sourceIslandId);
+    const destIsland = this.islands.find(island => island.id === destinationIslandId);
     
-    if (targetPairs && targetPairs.length > 0) {
-      // Use provided pairs
-      for (const pair of targetPairs) {
-        const island1 = this.islands.find(island => island.id === pair.island1Id);
-        const island2 = this.islands.find(island => island.id === pair.island2Id);
-        
-        if (island1 && island2) {
-          pairsToCheck.push({ island1, island2 });
-        }
-      }
-    } else {
-      // Generate all possible pairs
-      for (let i = 0; i < this.islands.length; i++) {
-        for (let j = i + 1; j < this.islands.length; j++) {
-          pairsToCheck.push({ 
-            island1: this.islands[i], 
-            island2: this.islands[j] 
-          });
-        }
-      }
+    if (!sourceIsland || !destIsland) {
+      return null;
     }
     
-    // Iterate over each pair to check
-    for (const { island1, island2 } of pairsToCheck) {
-      // Check if islands are already in conjunction at start time
-      const initialDistance = this.calculateDistance(island1, island2, startTime);
+    const evaluate = (departureTime: number): DepartureOption =>
+      this.calculateDepartureOption(sourceIsland, destIsland, journeySpeed, departureTime, pathModel);
+    
+    // Sample the window evenly, including both ends
+    const step = (windowDays * 1000) / (sampleCount - 1);
+    const samples: DepartureOption[] = [];
+    for (let i = 0; i < sampleCount; i++) {
+      samples.push(evaluate(startTime + i * step));
+    }
+    
+    // Refine every interior local minimum
+    const minima: DepartureOption[] = [];
+    for (let i = 1; i < samples.length - 1; i++) {
+      if (samples[i].duration > samples[i - 1].duration || samples[i].duration >= samples[i + 1].duration) {
+        continue;
+      }
       
-      if (initialDistance <= this.CONJUNCTION_THRESHOLD) {
-        // Islands are already in conjunction at start time
-        // Look backward to find when this conjunction started
-        const lookBackTime = startTime - (30 * 1000); // Look back 30 days
+      let low = samples[i - 1].departureTime;
+      let high = samples[i + 1].departureTime;
+      while (high - low > this.DEPARTURE_PRECISION) {
+        const mid1 = low + (high - low) / 3;
+        const mid2 = low + 2 * (high - low) / 3;
         
-        // Check if they were not in conjunction 30 days ago
-        const pastDistance = this.calculateDistance(island1, island2, lookBackTime);
-        
-        if (pastDistance > this.CONJUNCTION_THRESHOLD) {
-          // They weren't in conjunction in the past, so find the exact start
-          const exactStartTime = findExactThresholdCrossing(
-            island1, 
-            island2, 
-            lookBackTime, 
-            startTime, 
-            true
-          );
-          
-          // Now look forward to find when this conjunction ends
-          let foundEnd = false;
-          let exactEndTime = endTime;
-          
-          // Scan forward at a larger step to find potential end
-          for (let t = startTime; t <= endTime; t += timeStep * 4) {
-            const distance = this.calculateDistance(island1, island2, t);
-            
-            if (distance > this.CONJUNCTION_THRESHOLD) {
-              // Found potential end, now find exact end
-              exactEndTime = findExactThresholdCrossing(
-                island1, 
-                island2, 
-                t - timeStep * 4, 
-                t, 
-                false
-              );
-              foundEnd = true;
-              break;
-            }
-          }
-          
-          // Find more precise minimum distance during the conjunction
-          const minDistTime = this.findMinimumDistanceTime(
-            island1, 
-            island2, 
-            exactStartTime,
-            exactEndTime,
-            1 // 1ms precision
-          );
-          
-          const minDistance = this.calculateDistance(island1, island2, minDistTime);
-          
-          // Add the conjunction to the list
-          conjunctions.push({
-            id: Date.now() + conjunctions.length, // Unique ID
-            island1Id: island1.id,
-            island2Id: island2.id,
-            island1Name: island1.name,
-            island2Name: island2.name,
-            startTime: exactStartTime,
-            endTime: exactEndTime,
-            minDistance: minDistance,
-            minDistanceTime: minDistTime,
-            duration: (exactEndTime - exactStartTime) / 1000 // Convert to days
-          });
-          
-          // Skip checking this pair in the main loop if we already found the endpoint
-          if (foundEnd) {
-            continue;
-          }
+        if (evaluate(mid1).duration < evaluate(mid2).duration) {
+          high = mid2;
+        } else {
+          low = mid1;
         }
       }
       
-      // Track current conjunction to handle conjunction spanning multiple days
-      let currentConjunction: { 
-        start: number, 
-        minDist: number, 
-        minDistTime: number,
-        inConjunction: boolean 
-      } | null = null;
-      
-      // Scan through time to find potential conjunctions
-      for (let t = startTime; t <= endTime; t += timeStep) {
-        const distance = this.calculateDistance(island1, island2, t);
-        
-        // Check if islands are in conjunction
-        if (distance <= this.CONJUNCTION_THRESHOLD) {
-          // Start a new conjunction if not already in one
-          if (!currentConjunction || !currentConjunction.inConjunction) {
-            // Find exact start time using binary search
-            let exactStartTime = t;
-            if (t > startTime) {
-              // Only search for exact start if this isn't the first time point
-              exactStartTime = findExactThresholdCrossing(
-                island1, 
-                island2, 
-                t - timeStep, 
-                t, 
-                true
-              );
-            }
-            
-            currentConjunction = {
-              start: exactStartTime,
-              minDist: distance,
-              minDistTime: t,
-              inConjunction: true
-            };
-          } 
-          // Update minimum distance if needed
-          else if (distance < currentConjunction.minDist) {
-            currentConjunction.minDist = distance;
-            currentConjunction.minDistTime = t;
-          }
-        } 
-        // End of conjunction
-        else if (currentConjunction && currentConjunction.inConjunction) {
-          // Find exact end time using binary search
-          const exactEndTime = findExactThresholdCrossing(
-            island1, 
-            island2, 
-            t - timeStep, 
-            t, 
-            false
-          );
-          
-          // Find more precise minimum distance during the conjunction
-          const minDistTime = this.findMinimumDistanceTime(
-            island1, 
-            island2, 
-            currentConjunction.start,
-            exactEndTime,
-            1 // 1ms precision
-          );
-          
-          const minDistance = this.calculateDistance(island1, island2, minDistTime);
-          
-          // Add the conjunction to the list
-          conjunctions.push({
-            id: Date.now() + conjunctions.length, // Unique ID
-            island1Id: island1.id,
-            island2Id: island2.id,
-            island1Name: island1.name,
-            island2Name: island2.name,
-            startTime: currentConjunction.start,
-            endTime: exactEndTime,
-            minDistance: minDistance,
-            minDistanceTime: minDistTime,
-            duration: (exactEndTime - currentConjunction.start) / 1000 // Convert to days
-          });
+      const refined = evaluate((low + high) / 2);
+      minima.push(refined.duration < samples[i].duration ? refined : samples[i]);
+    }
+    
+    // The shortest trip may also be at either end of the window
+    const candidates = [samples[0], ...minima, samples[samples.length - 1]];
+    const best = candidates.reduce((a, b) => (b.duration < a.duration ? b : a));
+    const earliestArrival = [...samples, ...minima].reduce((a, b) => (b.arrivalTime < a.arrivalTime ? b : a));
+    
+    return {
+      sourceId: sourceIslandId,
+      destinationId: destinationIslandId,
+      speed: journeySpeed,
+      samples,
+      minima,
+      best,
+      earliestArrival
+    };
+  }
+  
+  // Find the departure between earliestDeparture and maxWaitDays later that arrives soonest.
+  // Departures are tried every waitStepDays and the best one is refined by ternary search
+  // between its neighbours down to DEPARTURE_PRECISION.
+  calculateEarliestArrival(
+    sourceIslandId: number, 
+    destinationIslandId: number, 
+    journeySpeed: number, 
+    earliestDeparture: number = this.time, 
+    maxWaitDays: number = 0, 
+    waitStepDays: number = 0.5,
+    pathModel: JourneyPathModel = 'spiral'
+  ): DepartureOption | null {
+    if (journeySpeed <= 0 || maxWaitDays < 0 || waitStepDays <= 0) {
+      return null;
+    }
+    
+    const sourceIsland = this.islands.find(island => island.id === sourceIslandId);
+    const destIsland = this.islands.find(island => island.id === destinationIslandId);
+    
+    if (!sourceIsland || !destIsland) {
+      return null;
+    }
+    
+    const evaluate = (departureTime: number): DepartureOption =>
+      this.calculateDepartureOption(sourceIsland, destIsland, journeySpeed, departureTime, pathModel);
+    
+    const latestDeparture = earliestDeparture + maxWaitDays * 1000;
+    const step = waitStepDays * 1000;
+    
+    let best = evaluate(earliestDeparture);
+    for (let departureTime = earliestDeparture + step; departureTime <= latestDeparture; departureTime += step) {
+      const option = evaluate(departureTime);
+      if (option.arrivalTime < best.arrivalTime) {
+        best = option;
+      }
+    }
+    
+    if (maxWaitDays === 0) {
+      return best;
+    }
+    
+    let low = Math.max(earliestDeparture, best.departureTime - step);
+    let high = Math.min(latestDeparture, best.departureTime + step);
+    while (high - low > this.DEPARTURE_PRECISION) {
+      const mid1 = low + (high - low) / 3;
+      const mid2 = low + 2 * (high - low) / 3;
+      
+      if (evaluate(mid1).arrivalTime < evaluate(mid2).arrivalTime) {
+        high = mid2;
+      } else {
+        low = mid1;
+      }
+    }
+    
+    const refined = evaluate((low + high) / 2);
+    return refined.arrivalTime < best.arrivalTime ? refined : best;
+  }
+  
+  // Find every island reachable from the source within maxDays, sorted by arrival time.
+  // Legs leave as soon as the ship arrives, with no waiting, and are timed like journeys:
+  // along the chosen path model, climbing or descending, and riding any wind.
+  calculateReachableIslands(
+    sourceIslandId: number, 
+    journeySpeed: number, 
+    maxDays: number, 
+    options: ReachabilityOptions = {}
+  ): ReachableIsland[] {
+    const sourceIsland = this.islands.find(island => island.id === sourceIslandId);
+    if (!sourceIsland || journeySpeed <= 0) {
+      return [];
+    }
+    
+    const departureTime = options.departureTime ?? this.time;
+    const pathModel = options.pathModel ?? 'spiral';
+    const deadline = departureTime + maxDays * 1000;
+    const candidates = this.islands.filter(island => 
+      island.id !== sourceIslandId && (!options.islandIds || options.islandIds.includes(island.id))
+    );
+    
+    // Direct legs from the source
+    const direct = candidates.map(island => ({
+      island,
+      option: this.calculateDepartureOption(sourceIsland, island, journeySpeed, departureTime, pathModel)
+    }));
+    
+    const reachable: ReachableIsland[] = [];
+    direct.forEach(({ island, option }) => {
+      let best: ReachableIsland = {
+        islandId: island.id,
+        arrivalTime: option.arrivalTime,
+        duration: option.duration,
+        distance: option.distance,
+        viaIslandId: null
+      };
+      
+      if (options.allowOneStop) {
+        direct.forEach(({ island: via, option: firstLeg }) => {
+          if (via.id === island.id || firstLeg.arrivalTime >= Math.min(deadline, best.arrivalTime)) return;
           
-          // Reset currentConjunction
-          currentConjunction.inConjunction = false;
+          const secondLeg = this.calculateDepartureOption(via, island, journeySpeed, firstLeg.arrivalTime, pathModel);
+          if (secondLeg.arrivalTime < best.arrivalTime - this.DEPARTURE_PRECISION) {
+            best = {
+              islandId: island.id,
+              arrivalTime: secondLeg.arrivalTime,
+              duration: (secondLeg.arrivalTime - departureTime) / 1000,
+              distance: firstLeg.distance + secondLeg.distance,
+              viaIslandId: via.id
+            };
+          }
+        });
+      }
+      
+      if (best.arrivalTime <= deadline) {
+        reachable.push(best);
+      }
+    });
+    
+    return reachable.sort((a, b) => a.arrivalTime - b.arrivalTime);
+  }
+  
+  // Contours of the area a ship leaving the source island can cover, every intervalDays up to maxDays.
+  // Ships follow the same paths as journeys under the path model, so each contour is the set of
+  // points whose horizontal path length from the departure point equals the distance sailed.
+  // Altitude and wind are ignored.
+  calculateIsochrones(
+    sourceIslandId: number, 
+    journeySpeed: number, 
+    maxDays: number, 
+    intervalDays: number, 
+    departureTime: number = this.time,
+    pathModel: JourneyPathModel = 'spiral'
+  ): Isochrone[] {
+    const sourceIsland = this.islands.find(island => island.id === sourceIslandId);
+    if (!sourceIsland || journeySpeed <= 0 || intervalDays <= 0) {
+      return [];
+    }
+    
+    const origin = this.calculatePosition(sourceIsland, departureTime);
+    const originPolar = this.cartesianToPolar(origin.x, origin.y);
+    
+    const isochrones: Isochrone[] = [];
+    for (let i = 1; i * intervalDays <= maxDays + 1e-9; i++) {
+      const days = i * intervalDays;
+      const reach = days * journeySpeed * 24; // mph * 24 = miles per day
+      const rings = pathModel === 'spiral' 
+        ? this.calculateReachRings(originPolar, reach) 
+        : [this.calculateAirReachRing(pathModel, origin, reach, days)];
+      isochrones.push({ days, reach, rings });
+    }
+    return isochrones;
+  }
+  
+  // Boundary of the points a ship flying straight through the air can reach: the circle of `reach`
+  // miles around the origin, with each point carried round by the current over the days for the
+  // current model (the current only depends on the radius, which it leaves unchanged)
+  private calculateAirReachRing(
+    pathModel: JourneyPathModel, 
+    origin: Position, 
+    reach: number, 
+    days: number, 
+    samples: number = 90
+  ): Position[] {
+    const ring: Position[] = [];
+    for (let i = 0; i <= samples; i++) {
+      const angle = (2 * Math.PI * i) / samples;
+      const point = { x: origin.x + reach * Math.cos(angle), y: origin.y + reach * Math.sin(angle) };
+      ring.push(pathModel === 'current' 
+        ? this.driftWithCurrent(point, this.calculateJourneyCurrent(origin, point), days) 
+        : point);
+    }
+    return ring;
+  }
+  
+  // Path length from the origin to radius r at an angular offset of deltaTheta
+  private reachPathLength(origin: { r: number, theta: number }, r: number, deltaTheta: number): number {
+    if (Math.abs(r - origin.r) < 1e-9) {
+      return origin.r * Math.abs(deltaTheta); // Circular arc
+    }
+    return this.polarPathLength(origin.r, origin.theta, r, origin.theta + deltaTheta, deltaTheta > 0);
+  }
+  
+  // Boundary of the points within `reach` miles of path length from the origin.
+  // For each angular offset the path length is smallest at one radius and grows either side of it,
+  // so the boundary has an outer and an inner radius, found by bisection.
+  private calculateReachRings(origin: { r: number, theta: number }, reach: number, samples: number = 90): Position[][] {
+    const maxRadius = origin.r + reach;
+    
+    // Radius with the shortest path at an angular offset (ternary search)
+    const closestRadius = (deltaTheta: number): number => {
+      let low = 0;
+      let high = maxRadius;
+      for (let i = 0; i < 60; i++) {
+        const mid1 = low + (high - low) / 3;
+        const mid2 = low + 2 * (high - low) / 3;
+        if (this.reachPathLength(origin, mid1, deltaTheta) < this.reachPathLength(origin, mid2, deltaTheta)) {
+          high = mid2;
+        } else {
+          low = mid1;
         }
       }
+      return (low + high) / 2;
+    };
+    
+    // Radius between inside and outside where the path length equals the reach
+    const boundaryRadius = (deltaTheta: number, inside: number, outside: number): number => {
+      for (let i = 0; i < 50; i++) {
+        const mid = (inside + outside) / 2;
+        if (this.reachPathLength(origin, mid, deltaTheta) <= reach) {
+          inside = mid;
+        } else {
+          outside = mid;
+        }
+      }
+      return (inside + outside) / 2;
+    };
+    
+    const canReach = (deltaTheta: number): boolean => 
+      this.reachPathLength(origin, closestRadius(deltaTheta), deltaTheta) <= reach;
+    
+    // Widest angular offset that can be reached (the same both ways round)
+    let maxDelta = Math.PI;
+    if (!canReach(Math.PI)) {
+      let low = 0;
+      let high = Math.PI;
+      for (let i = 0; i < 40; i++) {
+        const mid = (low + high) / 2;
+        if (canReach(mid)) {
+          low = mid;
+        } else {
+          high = mid;
+        }
+      }
+      maxDelta = low;
+    }
+    
+    const toPosition = (r: number, deltaTheta: number): Position => 
+      this.polarToCartesian(r, origin.theta + deltaTheta);
+    
+    const outer: Position[] = [];
+    const inner: Position[] = [];
+    let encloses = true; // Whether the reachable area includes the centre of the archipelago
+    for (let i = 0; i <= samples; i++) {
+      const deltaTheta = -maxDelta + (2 * maxDelta * i) / samples;
+      const closest = closestRadius(deltaTheta);
+      outer.push(toPosition(boundaryRadius(deltaTheta, closest, maxRadius), deltaTheta));
+      
+      const innerRadius = this.reachPathLength(origin, 0, deltaTheta) <= reach 
+        ? 0 
+        : boundaryRadius(deltaTheta, closest, 0);
+      if (innerRadius > 0) encloses = false;
+      inner.push(toPosition(innerRadius, deltaTheta));
+    }
+    
+    if (maxDelta < Math.PI) {
+      // The area doesn't wrap around the centre: one ring, out along the outer edge and back along the inner
+      return [[...outer, ...inner.reverse()]];
+    }
+    
+    // The area wraps all the way round, leaving an unreachable hole unless it covers the centre
+    return encloses ? [outer] : [outer, inner];
+  }
+  
+  // Find every time a journey passes within maxDistance miles of another island, in time order.
+  // Each path point is compared with the islands' positions at that point's time, and every
+  // closest approach is then refined along the path. Distances are measured on the map, and the
+  // journey's own source and destination are left out.
+  calculateClosePasses(
+    journey: Journey, 
+    maxDistance: number = this.CLOSE_PASS_DISTANCE, 
+    islandIds?: number[]
+  ): ClosePass[] {
+    const path = journey.path.filter(point => point.time !== undefined);
+    if (path.length < 2) {
+      return [];
+    }
+    
+    const passes: ClosePass[] = [];
+    this.islands.forEach(island => {
+      if (island.id === journey.sourceId || island.id === journey.destinationId) return;
+      if (islandIds && !islandIds.includes(island.id)) return;
       
-      // Handle conjunction that extends beyond the end time
-      if (currentConjunction && currentConjunction.inConjunction) {
-        // Look forward to see if conjunction ends within a reasonable time
-        const lookForwardTime = endTime + (30 * 1000); // Look forward 30 days
-        let foundEnd = false;
-        let exactEndTime = endTime;
+      const distances = path.map(point => this.calculateShipDistance(island, point));
+      distances.forEach((distance, i) => {
+        const isMinimum = (i === 0 || distance <= distances[i - 1]) && 
+          (i === distances.length - 1 || distance < distances[i + 1]);
+        if (!isMinimum) return;
         
-        // Check at a few points beyond our window
-        for (let t = endTime + timeStep; t <= lookForwardTime; t += timeStep * 4) {
-          const distance = this.calculateDistance(island1, island2, t);
-          
-          if (distance > this.CONJUNCTION_THRESHOLD) {
-            // Found the end point beyond our window, find the exact time
-            exactEndTime = findExactThresholdCrossing(
-              island1, 
-              island2, 
-              t - timeStep * 4, 
-              t, 
-              false
-            );
-            foundEnd = true;
-            break;
+        // The true closest approach lies on one of the segments either side of the point
+        let closest = { position: path[i], distance };
+        [path[i - 1], path[i + 1]].forEach(neighbour => {
+          if (!neighbour) return;
+          const refined = this.refineClosePass(island, path[i], neighbour);
+          if (refined.distance < closest.distance) {
+            closest = refined;
           }
+        });
+        if (closest.distance > maxDistance) return;
+        
+        const time = closest.position.time as number;
+        passes.push({
+          islandId: island.id,
+          distance: closest.distance,
+          time,
+          position: closest.position,
+          conjunctionIslandIds: this.islands
+            .filter(other => other.id !== island.id && 
+              this.calculateDistance(island, other, time) <= this.getConjunctionThreshold(island, other))
+            .map(other => other.id)
+        });
+      });
+    });
+    
+    return passes.sort((a, b) => a.time - b.time);
+  }
+  
+  // Map distance between a ship at a timed path point and an island at that time
+  private calculateShipDistance(island: Island, point: Position): number {
+    const islandPos = this.calculatePosition(island, point.time);
+    return Math.hypot(islandPos.x - point.x, islandPos.y - point.y);
+  }
+  
+  // Ternary search along the straight segment between two timed path points for the ship's
+  // closest approach to an island, down to CONJUNCTION_PRECISION
+  private refineClosePass(island: Island, from: Position, to: Position): { position: Position, distance: number } {
+    const fromTime = from.time as number;
+    const toTime = to.time as number;
+    const pointAt = (u: number): Position => ({
+      x: from.x + (to.x - from.x) * u,
+      y: from.y + (to.y - from.y) * u,
+      z: from.z !== undefined && to.z !== undefined ? from.z + (to.z - from.z) * u : from.z,
+      time: fromTime + (toTime - fromTime) * u
+    });
+    
+    let low = 0;
+    let high = 1;
+    while ((high - low) * Math.abs(toTime - fromTime) > this.CONJUNCTION_PRECISION) {
+      const mid1 = low + (high - low) / 3;
+      const mid2 = high - (high - low) / 3;
+      if (this.calculateShipDistance(island, pointAt(mid1)) < this.calculateShipDistance(island, pointAt(mid2))) {
+        high = mid2;
+      } else {
+        low = mid1;
+      }
+    }
+    
+    const position = pointAt((low + high) / 2);
+    return { position, distance: this.calculateShipDistance(island, position) };
+  }
+  
+  // Find the earliest meeting of two ships leaving different islands. Both fly towards each
+  // other along the path between their departure points, so they meet where their distances
+  // flown add up to its length. If one ship could reach the other's departure point before the
+  // other leaves, it waits there instead. Altitude and wind are ignored.
+  calculateRendezvous(
+    shipA: RendezvousShip, 
+    shipB: RendezvousShip, 
+    pathModel: 'straight' | 'spiral' = 'spiral'
+  ): Rendezvous {
+    const islandA = this.islands.find(island => island.id === shipA.islandId);
+    const islandB = this.islands.find(island => island.id === shipB.islandId);
+    const infeasible: Rendezvous = { feasible: false, meetingTime: null, meetingPoint: null, courses: [] };
+    if (!islandA || !islandB || shipA.speed <= 0 || shipB.speed <= 0) {
+      return infeasible;
+    }
+    
+    const startA = this.calculatePosition(islandA, shipA.departureTime);
+    const startB = this.calculatePosition(islandB, shipB.departureTime);
+    const length = this.calculateHorizontalPathLength(pathModel, startA, startB, 0);
+    
+    // Miles each ship has flown by a given time (speed is mph, so mph * 24 = miles per day)
+    const flown = (ship: RendezvousShip, t: number) => Math.max(0, t - ship.departureTime) / 1000 * ship.speed * 24;
+    
+    // Neither ship can meet the other before both have set out
+    const bothDeparted = Math.max(shipA.departureTime, shipB.departureTime);
+    const headStart = flown(shipA, bothDeparted) + flown(shipB, bothDeparted);
+    
+    let meetingTime: number;
+    let meetingPoint: Position;
+    if (headStart >= length) {
+      // The first ship to leave waits at the other's departure point
+      meetingTime = bothDeparted;
+      meetingPoint = shipA.departureTime <= shipB.departureTime ? startB : startA;
+    } else {
+      const closingSpeed = (shipA.speed + shipB.speed) * 24 / 1000; // miles per millisecond
+      meetingTime = bothDeparted + (length - headStart) / closingSpeed;
+      meetingPoint = this.findPathPoint(pathModel, startA, startB, flown(shipA, meetingTime));
+    }
+    meetingPoint = { ...meetingPoint, time: meetingTime };
+    
+    return {
+      feasible: true,
+      meetingTime,
+      meetingPoint,
+      courses: [
+        this.calculateRendezvousCourse(pathModel, startA, meetingPoint, shipA),
+        this.calculateRendezvousCourse(pathModel, startB, meetingPoint, shipB)
+      ]
+    };
+  }
+  
+  // Find the earliest point at which a ship leaving an island can intercept a ship already
+  // on a journey. A ship that has arrived stays on its destination island. This solves the
+  // same intercept as calculateJourney with the other ship as the moving destination, but
+  // the ship may be faster than its pursuer, so the earliest interception is found by scanning
+  // ahead every DEPARTURE_SCAN_STEP and bisecting rather than by iterating. Altitude and wind
+  // are ignored.
+  calculateShipIntercept(
+    sourceIslandId: number, 
+    journeySpeed: number, 
+    target: Journey, 
+    departureTime: number = this.time, 
+    pathModel: JourneyPathModel = 'spiral', 
+    maxDays: number = 60
+  ): Rendezvous {
+    const sourceIsland = this.islands.find(island => island.id === sourceIslandId);
+    const infeasible: Rendezvous = { feasible: false, meetingTime: null, meetingPoint: null, courses: [] };
+    if (!sourceIsland || journeySpeed <= 0 || target.path.length === 0) {
+      return infeasible;
+    }
+    
+    const sourcePos = this.calculatePosition(sourceIsland, departureTime);
+    
+    // How far the pursuer can still fly beyond the target's position at time t (miles)
+    const margin = (t: number) => {
+      const duration = (t - departureTime) / 1000;
+      const targetPos = this.getCurrentJourneyPosition(target, t);
+      return duration * journeySpeed * 24 - this.calculateHorizontalPathLength(pathModel, sourcePos, targetPos, duration);
+    };
+    
+    const deadline = departureTime + maxDays * 1000;
+    let low = departureTime;
+    let high = departureTime;
+    while (margin(high) < 0) {
+      low = high;
+      high += this.DEPARTURE_SCAN_STEP;
+      if (high > deadline) {
+        return infeasible;
+      }
+    }
+    
+    while (high - low > this.DEPARTURE_PRECISION) {
+      const mid = (low + high) / 2;
+      if (margin(mid) >= 0) {
+        high = mid;
+      } else {
+        low = mid;
+      }
+    }
+    
+    const meetingTime = high;
+    const meetingPoint = { ...this.getCurrentJourneyPosition(target, meetingTime), time: meetingTime };
+    const pursuer: RendezvousShip = { islandId: sourceIslandId, departureTime, speed: journeySpeed };
+    
+    // The target's course is the rest of its own path up to the meeting
+    const targetStart = { ...this.getCurrentJourneyPosition(target, departureTime), time: departureTime };
+    const targetPath = [
+      targetStart,
+      ...target.path.filter(point => point.time !== undefined && point.time > departureTime && point.time < meetingTime),
+      meetingPoint
+    ];
+    let targetDistance = 0;
+    for (let i = 1; i < targetPath.length; i++) {
+      targetDistance += Math.hypot(targetPath[i].x - targetPath[i - 1].x, targetPath[i].y - targetPath[i - 1].y);
+    }
+    
+    return {
+      feasible: true,
+      meetingTime,
+      meetingPoint,
+      courses: [
+        this.calculateRendezvousCourse(pathModel, sourcePos, meetingPoint, pursuer),
+        {
+          path: targetPath,
+          distance: targetDistance,
+          duration: (meetingTime - departureTime) / 1000,
+          startTime: departureTime
+        }
+      ]
+    };
+  }
+  
+  // The point a given distance (miles) along the path between two points, found by bisection
+  private findPathPoint(pathModel: 'straight' | 'spiral', from: Position, to: Position, distance: number): Position {
+    const fromPolar = this.cartesianToPolar(from.x, from.y);
+    const toPolar = this.cartesianToPolar(to.x, to.y);
+    const angleDiff = this.normalizeAngle(toPolar.theta - fromPolar.theta);
+    
+    const pointAt = (u: number): Position => pathModel === 'straight'
+      ? { x: from.x + (to.x - from.x) * u, y: from.y + (to.y - from.y) * u }
+      : this.polarToCartesian(fromPolar.r + (toPolar.r - fromPolar.r) * u, fromPolar.theta + angleDiff * u);
+    
+    let low = 0;
+    let high = 1;
+    for (let i = 0; i < 50; i++) {
+      const mid = (low + high) / 2;
+      if (this.calculateHorizontalPathLength(pathModel, from, pointAt(mid), 0) < distance) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    
+    const point = pointAt((low + high) / 2);
+    return { ...point, z: (from.z || 0) + ((to.z || 0) - (from.z || 0)) * ((low + high) / 2) };
+  }
+  
+  // A ship's course from its departure point to a meeting point, arriving at the meeting time.
+  // A ship that gets there early waits, so it flies at its full speed and then holds position.
+  private calculateRendezvousCourse(
+    pathModel: JourneyPathModel, 
+    startPos: Position, 
+    meetingPoint: Position, 
+    ship: RendezvousShip
+  ): RendezvousCourse {
+    const meetingTime = meetingPoint.time as number;
+    const startPolar = this.cartesianToPolar(startPos.x, startPos.y);
+    const meetingPolar = this.cartesianToPolar(meetingPoint.x, meetingPoint.y);
+    const isClockwise = this.normalizeAngle(meetingPolar.theta - startPolar.theta) > 0;
+    
+    const totalDays = Math.max(0, meetingTime - ship.departureTime) / 1000;
+    const distance = this.calculateHorizontalPathLength(pathModel, startPos, meetingPoint, totalDays);
+    const duration = Math.min(totalDays, distance / (ship.speed * 24));
+    
+    const path = this.calculateJourneyPath(
+      pathModel, startPos, meetingPoint, ship.departureTime, pathModel === 'current' ? totalDays : duration, isClockwise
+    );
+    if (duration < totalDays && pathModel !== 'current') {
+      path.push({ ...meetingPoint, time: meetingTime });
+    }
+    
+    return { path, distance, duration, startTime: ship.departureTime };
+  }
+  
+  // Find the latest departure between earliestDeparture and the deadline that arrives by the
+  // deadline. Departures are tried backwards from the deadline every DEPARTURE_SCAN_STEP, since
+  // leaving later does not always mean arriving later, and the first one that makes it is then
+  // refined by bisection down to DEPARTURE_PRECISION.
+  calculateLatestDeparture(
+    sourceIslandId: number, 
+    destinationIslandId: number, 
+    journeySpeed: number, 
+    deadline: number, 
+    earliestDeparture: number = this.time,
+    pathModel: JourneyPathModel = 'spiral'
+  ): LatestDeparture | null {
+    if (journeySpeed <= 0) {
+      return null;
+    }
+    
+    const sourceIsland = this.islands.find(island => island.id === sourceIslandId);
+    const destIsland = this.islands.find(island => island.id === destinationIslandId);
+    
+    if (!sourceIsland || !destIsland) {
+      return null;
+    }
+    
+    const evaluate = (departureTime: number): DepartureOption =>
+      this.calculateDepartureOption(sourceIsland, destIsland, journeySpeed, departureTime, pathModel);
+    
+    let earliestArrival: DepartureOption | null = null;
+    let tooLate = deadline; // A departure known to miss the deadline (or the deadline itself)
+    
+    let departureTime = deadline;
+    while (departureTime >= earliestDeparture) {
+      const option = evaluate(departureTime);
+      if (!earliestArrival || option.arrivalTime < earliestArrival.arrivalTime) {
+        earliestArrival = option;
+      }
+      
+      if (option.arrivalTime > deadline) {
+        // Step back, finishing exactly on the earliest allowed departure
+        tooLate = departureTime;
+        departureTime = departureTime > earliestDeparture
+          ? Math.max(departureTime - this.DEPARTURE_SCAN_STEP, earliestDeparture)
+          : -Infinity;
+        continue;
+      }
+      
+      // Refine between this departure, which makes it, and the later one, which doesn't
+      let onTime = departureTime;
+      while (tooLate - onTime > this.DEPARTURE_PRECISION) {
+        const mid = (onTime + tooLate) / 2;
+        if (evaluate(mid).arrivalTime <= deadline) {
+          onTime = mid;
+        } else {
+          tooLate = mid;
+        }
+      }
+      
+      return {
+        feasible: true,
+        deadline,
+        departureTime: onTime,
+        journey: this.calculateJourney(sourceIslandId, destinationIslandId, journeySpeed, true, onTime, pathModel),
+        earliestArrival
+      };
+    }
+    
+    return {
+      feasible: false,
+      deadline,
+      departureTime: null,
+      journey: null,
+      earliestArrival
+    };
+  }
+
+  // Upper bounds on how far apart two islands can be and how fast their separation can change
+  // (miles, miles per day and miles per day squared). Each elliptical epicycle contributes
+  // at most a·|ω| to the speed and a·ω² to the acceleration, and likewise for the altitude oscillation.
+  private calculatePairMotionBounds(island1: CompiledIsland, island2: CompiledIsland): { 
+    maxDistance: number, 
+    maxSpeed: number, 
+    maxAcceleration: number 
+  } {
+    let maxDistance = 0;
+    let maxSpeed = 0;
+    let maxAcceleration = 0;
+    
+    for (const island of [island1, island2]) {
+      for (const cycle of island.cycles) {
+        const angularVelocity = Math.abs(cycle.angularVelocity);
+        maxDistance += cycle.semiMajor;
+        maxSpeed += cycle.semiMajor * angularVelocity;
+        maxAcceleration += cycle.semiMajor * angularVelocity * angularVelocity;
+      }
+      
+      const amplitude = Math.abs(island.altitudeAmplitude);
+      maxDistance += Math.abs(island.altitudeBase) + amplitude;
+      maxSpeed += amplitude * island.altitudeAngularVelocity;
+      maxAcceleration += amplitude * island.altitudeAngularVelocity * island.altitudeAngularVelocity;
+    }
+    
+    return { maxDistance, maxSpeed, maxAcceleration };
+  }
+  
+  // Evaluate g(t) = |p1 - p2|² - threshold² and its derivative (per day) for a pair of islands
+  private calculateSeparationExcess(
+    island1: CompiledIsland, 
+    island2: CompiledIsland, 
+    threshold: number, 
+    t: number
+  ): { value: number, slope: number } {
+    const state1 = this.separationScratch[0];
+    const state2 = this.separationScratch[1];
+    this.evaluateCompiledIsland(island1, t, state1);
+    this.evaluateCompiledIsland(island2, t, state2);
+    
+    const dx = state1[0] - state2[0];
+    const dy = state1[1] - state2[1];
+    const dz = state1[2] - state2[2];
+    
+    return {
+      value: dx * dx + dy * dy + dz * dz - threshold * threshold,
+      slope: 2 * (dx * (state1[3] - state2[3]) + dy * (state1[4] - state2[4]) + dz * (state1[5] - state2[5]))
+    };
+  }
+  
+  // Find the time of closest approach of two islands between startTime and endTime
+  // using ternary search on the squared distance (assumes a single minimum)
+  private findMinimumSeparationTime(
+    island1: CompiledIsland, 
+    island2: CompiledIsland, 
+    startTime: number, 
+    endTime: number, 
+    precision = 1
+  ): number {
+    while (endTime - startTime > precision) {
+      const midTime1 = startTime + (endTime - startTime) / 3;
+      const midTime2 = startTime + 2 * (endTime - startTime) / 3;
+      
+      if (this.calculateSeparationExcess(island1, island2, 0, midTime1).value < 
+          this.calculateSeparationExcess(island1, island2, 0, midTime2).value) {
+        endTime = midTime2;
+      } else {
+        startTime = midTime1;
+      }
+    }
+    return (startTime + endTime) / 2;
+  }
+  
+  // Find the first time between fromTime and toTime (searching in either direction) at which
+  // the pair crosses the threshold, or null if they stay on the same side throughout.
+  //
+  // The squared distance S(t) is a sum of sinusoids, so |S''| is bounded by
+  // M = 2(maxSpeed² + maxDistance·maxAcceleration). From any point where g = S - threshold²
+  // is non-zero, g cannot change sign within h = (g' + sqrt(g'² + 2M|g|)) / M (with g' taken
+  // towards the side being left), so we can step that far without skipping a crossing.
+  // Once a step straddles the threshold the crossing is bisected down to CONJUNCTION_PRECISION.
+  // The returned time lies on the far side of the crossing (within the precision).
+  private findThresholdCrossing(
+    island1: CompiledIsland, 
+    island2: CompiledIsland, 
+    threshold: number, 
+    fromTime: number, 
+    toTime: number
+  ): number | null {
+    const direction = toTime >= fromTime ? 1 : -1;
+    const { maxDistance, maxSpeed, maxAcceleration } = this.calculatePairMotionBounds(island1, island2);
+    const curvatureBound = 2 * (maxSpeed * maxSpeed + maxDistance * maxAcceleration);
+    
+    // Smallest step taken (ms); only crossings shorter than this can be stepped over
+    const minStep = this.CONJUNCTION_PRECISION;
+    
+    const startSample = this.calculateSeparationExcess(island1, island2, threshold, fromTime);
+    const startsInside = startSample.value <= 0;
+    
+    let t = fromTime;
+    let sample = startSample;
+    
+    while (direction * (toTime - t) > 0) {
+      // Distance from the threshold and its rate of change away from it, in the search direction
+      const margin = Math.abs(sample.value);
+      const slope = (startsInside ? -sample.slope : sample.slope) * direction;
+      
+      // Safe step in days, converted to ms
+      const safeStep = curvatureBound > 0
+        ? ((slope + Math.sqrt(slope * slope + 2 * curvatureBound * margin)) / curvatureBound) * 1000
+        : Infinity;
+      
+      const step = Math.min(Math.max(safeStep, minStep), direction * (toTime - t));
+      const nextTime = t + direction * step;
+      const nextSample = this.calculateSeparationExcess(island1, island2, threshold, nextTime);
+      
+      if ((nextSample.value <= 0) !== startsInside) {
+        // Bisect the bracket [t, nextTime] down to the stated precision
+        let near = t;
+        let far = nextTime;
+        while (Math.abs(far - near) > this.CONJUNCTION_PRECISION) {
+          const mid = (near + far) / 2;
+          const midInside = this.calculateSeparationExcess(island1, island2, threshold, mid).value <= 0;
+          if (midInside === startsInside) {
+            near = mid;
+          } else {
+            far = mid;
+          }
+        }
+        return far;
+      }
+      
+      t = nextTime;
+      sample = nextSample;
+    }
+    
+    return null;
+  }
+  
+  // Calculate all upcoming conjunctions for a specified time range at a conjunction tier
+  // Every conjunction lasting longer than CONJUNCTION_PRECISION is found, and its start and
+  // end times are accurate to within CONJUNCTION_PRECISION
+  calculateUpcomingConjunctions(
+    lookAheadDays: number = 365, 
+    startFromTime?: number, 
+    targetPairs?: IslandPair[],
+    tier: string = this.thresholdModel.defaultTier
+  ): Conjunction[] {
+    if (this.islands.length < 2) return [];
+    
+    const conjunctions: Conjunction[] = [];
+    const startTime = startFromTime !== undefined ? startFromTime : this.time;
+    const endTime = startTime + (lookAheadDays * 1000); // Convert days to milliseconds
+    
+    // Generate all possible island pairs or use the provided targetPairs
+    const pairsToCheck: { island1: Island, island2: Island }[] = [];
+    
+    if (targetPairs && targetPairs.length > 0) {
+      // Use provided pairs
+      for (const pair of targetPairs) {
+        const island1 = this.islands.find(island => island.id === pair.island1Id);
+        const island2 = this.islands.find(island => island.id === pair.island2Id);
+        
+        if (island1 && island2) {
+          pairsToCheck.push({ island1, island2 });
+        }
+      }
+    } else {
+      // Generate all possible pairs
+      for (let i = 0; i < this.islands.length; i++) {
+        for (let j = i + 1; j < this.islands.length; j++) {
+          pairsToCheck.push({ 
+            island1: this.islands[i], 
+            island2: this.islands[j] 
+          });
+        }
+      }
+    }
+    
+    // Sample every island over the range in one batch, at a sixteenth of the fastest epicycle
+    const scannedIslands = Array.from(new Set(pairsToCheck.flatMap(pair => [pair.island1, pair.island2])));
+    const scanStep = this.calculateScanStep(scannedIslands);
+    const batch = this.calculatePositionsBatch(scannedIslands, {
+      start: startTime,
+      step: scanStep,
+      count: Math.ceil((endTime - startTime) / scanStep) + 1
+    });
+    const sampleCount = batch.times.length;
+    
+    // Precompute each island's epicycles once for the whole scan
+    const compiledIslands = new Map<number, CompiledIsland>();
+    const compile = (island: Island): CompiledIsland => {
+      let compiled = compiledIslands.get(island.id);
+      if (!compiled) {
+        compiled = this.compileIsland(island);
+        compiledIslands.set(island.id, compiled);
+      }
+      return compiled;
+    };
+    
+    // Iterate over each pair to check
+    for (const { island1, island2 } of pairsToCheck) {
+      const threshold = this.getConjunctionThreshold(island1, island2, tier);
+      
+      // Skip pairs whose orbits can never come within the threshold of each other
+      // (the nearest one island can be to the center is beyond the farthest the other can reach)
+      const bounds1 = this.calculateRadialBounds(island1);
+      const bounds2 = this.calculateRadialBounds(island2);
+      const minPossibleDistance = Math.max(bounds1.min - bounds2.max, bounds2.min - bounds1.max);
+      if (minPossibleDistance > threshold) {
+        continue;
+      }
+      
+      const compiled1 = compile(island1);
+      const compiled2 = compile(island2);
+      
+      // The separation changes by at most maxSpeed, so between two samples it stays above
+      // (d1 + d2 - maxSpeed·step) / 2. Conjunctions can only happen in windows of samples
+      // where that bound reaches the threshold, and only those are searched.
+      const { maxSpeed } = this.calculatePairMotionBounds(compiled1, compiled2);
+      const slack = maxSpeed * scanStep / 1000;
+      const offset1 = scannedIslands.indexOf(island1) * sampleCount;
+      const offset2 = scannedIslands.indexOf(island2) * sampleCount;
+      const separation = (k: number) => Math.hypot(
+        batch.x[offset1 + k] - batch.x[offset2 + k],
+        batch.y[offset1 + k] - batch.y[offset2 + k],
+        batch.z[offset1 + k] - batch.z[offset2 + k]
+      );
+      
+      const windows: { start: number, end: number }[] = [];
+      let previous = separation(0);
+      for (let k = 1; k < sampleCount; k++) {
+        const current = separation(k);
+        if ((previous + current - slack) / 2 <= threshold) {
+          const windowStart = batch.times[k - 1];
+          const windowEnd = Math.min(batch.times[k], endTime);
+          const last = windows[windows.length - 1];
+          if (last && last.end === windowStart) {
+            last.end = windowEnd;
+          } else {
+            windows.push({ start: windowStart, end: windowEnd });
+          }
+        }
+        previous = current;
+      }
+      
+      // Find the first crossing of the threshold after fromTime and before the end of the range
+      const findCrossing = (fromTime: number): number | null => {
+        for (const window of windows) {
+          if (window.end <= fromTime) continue;
+          const crossing = this.findThresholdCrossing(compiled1, compiled2, threshold, Math.max(fromTime, window.start), window.end);
+          if (crossing !== null) return crossing;
+        }
+        return null;
+      };
+      
+      // Find the first entry into conjunction. If the islands are already in conjunction
+      // at the start time, look backward to find when this conjunction started.
+      let conjunctionStart: number | null;
+      if (this.calculateSeparationExcess(compiled1, compiled2, threshold, startTime).value <= 0) {
+        const entryBefore = this.findThresholdCrossing(compiled1, compiled2, threshold, startTime, startTime - this.EDGE_SEARCH_TIME);
+        conjunctionStart = entryBefore !== null ? entryBefore : startTime;
+      } else {
+        conjunctionStart = findCrossing(startTime);
+      }
+      
+      while (conjunctionStart !== null) {
+        // Find when this conjunction ends, looking past the end of the range if necessary
+        const searchFrom = Math.max(conjunctionStart, startTime);
+        let conjunctionEnd = findCrossing(searchFrom);
+        const endsInRange = conjunctionEnd !== null;
+        if (conjunctionEnd === null) {
+          conjunctionEnd = this.findThresholdCrossing(compiled1, compiled2, threshold, endTime, endTime + this.EDGE_SEARCH_TIME);
         }
         
         // If we couldn't find the end, just use the endTime
-        if (!foundEnd) {
-          exactEndTime = endTime;
+        if (conjunctionEnd === null) {
+          conjunctionEnd = endTime;
         }
         
-        const minDistTime = this.findMinimumDistanceTime(
-          island1, 
-          island2, 
-          currentConjunction.start,
-          exactEndTime,
+        // Find more precise minimum distance during the conjunction
+        const minDistTime = this.findMinimumSeparationTime(
+          compiled1, 
+          compiled2, 
+          conjunctionStart,
+          conjunctionEnd,
           1 // 1ms precision
         );
         
-        const minDistance = this.calculateDistance(island1, island2, minDistTime);
+        const minDistance = Math.sqrt(this.calculateSeparationExcess(compiled1, compiled2, 0, minDistTime).value);
         
+        // Add the conjunction to the list
         conjunctions.push({
           id: Date.now() + conjunctions.length, // Unique ID
           island1Id: island1.id,
           island2Id: island2.id,
           island1Name: island1.name,
           island2Name: island2.name,
-          startTime: currentConjunction.start,
-          endTime: exactEndTime,
+          startTime: conjunctionStart,
+          endTime: conjunctionEnd,
           minDistance: minDistance,
           minDistanceTime: minDistTime,
-          duration: (exactEndTime - currentConjunction.start) / 1000 // Convert to days
+          duration: (conjunctionEnd - conjunctionStart) / 1000, // Convert to days
+          tier: this.findReachedTier(island1, island2, minDistance) || tier
         });
+        
+        if (!endsInRange) break;
+        
+        // Look for the next entry after this conjunction ends
+        conjunctionStart = findCrossing(conjunctionEnd);
       }
     }
     
@@ -1076,21 +2896,645 @@ export default class SkydriftArchipelagoSimulator {
   }
   
   // Get active conjunctions at the current time
-  getActiveConjunctions(): Conjunction[] {
-    const allConjunctions = this.calculateUpcomingConjunctions(0.1); // Look just slightly ahead
+  getActiveConjunctions(tier: string = this.thresholdModel.defaultTier): Conjunction[] {
+    const allConjunctions = this.calculateUpcomingConjunctions(0.1, undefined, undefined, tier); // Look just slightly ahead
     return allConjunctions.filter(conj => 
       conj.startTime <= this.time && conj.endTime >= this.time
     );
   }
   
   // Check if two islands are currently in conjunction
-  isInConjunction(island1Id: number, island2Id: number): boolean {
+  isInConjunction(island1Id: number, island2Id: number, tier: string = this.thresholdModel.defaultTier): boolean {
     const island1 = this.islands.find(island => island.id === island1Id);
     const island2 = this.islands.find(island => island.id === island2Id);
     
     if (!island1 || !island2) return false;
     
     const distance = this.calculateDistance(island1, island2);
-    return distance <= this.CONJUNCTION_THRESHOLD;
+    return distance <= this.getConjunctionThreshold(island1, island2, tier);
+  }
+  
+  // Find every time options.minIslands or more islands line up as seen from the centre or an
+  // island, or gather within a radius, over the look-ahead period, sorted by start time. A line
+  // runs through its viewpoint, so islands on opposite sides of it are lined up too.
+  // The islands are scanned for groups that are not part of a larger group, and each group is then
+  // followed until it breaks up. Line-ups can be brief, so the scan steps through a 256th of the
+  // fastest epicycle at a time. Start and end times are bisected to CONJUNCTION_PRECISION, and
+  // alignments already under way at the start time are traced back to when they began.
+  calculateUpcomingAlignments(
+    options: AlignmentOptions,
+    lookAheadDays: number = 365,
+    startFromTime?: number
+  ): Alignment[] {
+    const { type, tolerance, observerId } = options;
+    const observer = type === 'collinear' && observerId !== undefined && observerId !== null
+      ? this.islands.find(island => island.id === observerId) ?? null
+      : null;
+    const islands = this.islands.filter(island =>
+      (!options.islandIds || options.islandIds.includes(island.id)) && island.id !== observer?.id
+    );
+    if (islands.length < options.minIslands) return [];
+    
+    const startTime = startFromTime !== undefined ? startFromTime : this.time;
+    const endTime = startTime + (lookAheadDays * 1000);
+    const step = this.calculateScanStep(islands, 256);
+    
+    const spreadAt = (group: Island[], t: number) => this.calculateAlignmentSpread(type, group, observer, t);
+    const isAligned = (group: Island[], t: number) => spreadAt(group, t) <= tolerance;
+    
+    // Bisect between a time when the group is aligned and one when it isn't
+    const findEdge = (group: Island[], alignedTime: number, unalignedTime: number): number => {
+      let aligned = alignedTime;
+      let unaligned = unalignedTime;
+      while (Math.abs(unaligned - aligned) > this.CONJUNCTION_PRECISION) {
+        const mid = (aligned + unaligned) / 2;
+        if (isAligned(group, mid)) {
+          aligned = mid;
+        } else {
+          unaligned = mid;
+        }
+      }
+      return (aligned + unaligned) / 2;
+    };
+    
+    // Step from a time when the group is aligned towards the limit until it breaks up,
+    // or null if it stays aligned all the way
+    const traceEdge = (group: Island[], from: number, limit: number): number | null => {
+      const direction = limit > from ? 1 : -1;
+      let t = from;
+      while ((limit - t) * direction > 0) {
+        const next = direction > 0 ? Math.min(t + step, limit) : Math.max(t - step, limit);
+        if (!isAligned(group, next)) {
+          return findEdge(group, t, next);
+        }
+        t = next;
+      }
+      return null;
+    };
+    
+    const alignments: Alignment[] = [];
+    const active = new Map<string, { group: Island[], startTime: number }>();
+    
+    const finishAlignment = (key: string, alignmentEnd: number) => {
+      const tracked = active.get(key);
+      if (!tracked) return;
+      active.delete(key);
+      
+      // Sample the whole alignment for its tightest spread, then refine it by ternary search
+      // between the samples either side
+      let sampleTime = tracked.startTime;
+      let sampleSpread = spreadAt(tracked.group, sampleTime);
+      for (let t = tracked.startTime + step; t < alignmentEnd + step; t += step) {
+        const spread = spreadAt(tracked.group, Math.min(t, alignmentEnd));
+        if (spread < sampleSpread) {
+          sampleTime = Math.min(t, alignmentEnd);
+          sampleSpread = spread;
+        }
+      }
+      
+      let low = Math.max(sampleTime - step, tracked.startTime);
+      let high = Math.min(sampleTime + step, alignmentEnd);
+      while (high - low > this.CONJUNCTION_PRECISION) {
+        const mid1 = low + (high - low) / 3;
+        const mid2 = high - (high - low) / 3;
+        if (spreadAt(tracked.group, mid1) < spreadAt(tracked.group, mid2)) {
+          high = mid2;
+        } else {
+          low = mid1;
+        }
+      }
+      const refinedTime = (low + high) / 2;
+      const refinedSpread = spreadAt(tracked.group, refinedTime);
+      const tighter = refinedSpread <= sampleSpread;
+      
+      alignments.push({
+        id: Date.now() + alignments.length, // Unique ID
+        type,
+        islandIds: tracked.group.map(island => island.id),
+        observerId: observer ? observer.id : null,
+        startTime: tracked.startTime,
+        endTime: alignmentEnd,
+        minSpread: tighter ? refinedSpread : sampleSpread,
+        minSpreadTime: tighter ? refinedTime : sampleTime,
+        duration: (alignmentEnd - tracked.startTime) / 1000 // Convert to days
+      });
+    };
+    
+    const sampleCount = Math.ceil((endTime - startTime) / step);
+    for (let k = 0; k <= sampleCount; k++) {
+      const t = Math.min(startTime + k * step, endTime);
+      const prevTime = k > 0 ? startTime + (k - 1) * step : null;
+      
+      // Follow the groups already lined up, ending those that have broken up
+      Array.from(active.entries()).forEach(([key, tracked]) => {
+        if (!isAligned(tracked.group, t)) {
+          finishAlignment(key, findEdge(tracked.group, prevTime as number, t));
+        }
+      });
+      
+      // Start following any new groups, finding when they lined up
+      this.findAlignedGroups(type, islands, observer, tolerance, t)
+        .filter(group => group.length >= options.minIslands)
+        .forEach(group => {
+          const key = group.map(island => island.id).join(',');
+          if (active.has(key)) return;
+          
+          let groupStart: number;
+          if (prevTime !== null && !isAligned(group, prevTime)) {
+            groupStart = findEdge(group, t, prevTime);
+          } else {
+            // Already lined up at the previous sample, as part of a larger group, or before the range
+            const entryBefore = traceEdge(group, prevTime ?? t, startTime - this.EDGE_SEARCH_TIME);
+            groupStart = entryBefore !== null ? entryBefore : startTime;
+          }
+          
+          active.set(key, { group, startTime: groupStart });
+        });
+    }
+    
+    // Groups still lined up at the end of the range end when they break up, looking past it if necessary
+    Array.from(active.entries()).forEach(([key, tracked]) => {
+      const alignmentEnd = traceEdge(tracked.group, endTime, endTime + this.EDGE_SEARCH_TIME);
+      finishAlignment(key, alignmentEnd !== null ? alignmentEnd : endTime);
+    });
+    
+    // Sort by start time
+    return alignments.sort((a, b) => a.startTime - b.startTime);
+  }
+  
+  // How spread out a group of islands is: the angle (degrees) across the narrowest line through the
+  // viewpoint (the centre if there is no observer) that holds them all, or for a cluster the
+  // farthest any of them is from their mean position (miles)
+  private calculateAlignmentSpread(type: AlignmentType, group: Island[], observer: Island | null, t: number): number {
+    const positions = group.map(island => this.calculatePosition(island, t));
+    
+    if (type === 'cluster') {
+      const centreX = positions.reduce((sum, position) => sum + position.x, 0) / positions.length;
+      const centreY = positions.reduce((sum, position) => sum + position.y, 0) / positions.length;
+      return Math.max(...positions.map(position => Math.hypot(position.x - centreX, position.y - centreY)));
+    }
+    
+    const directions = this.calculateLineDirections(positions, observer, t).sort((a, b) => a - b);
+    
+    // The line spans everything except the widest gap between neighbouring directions
+    let widestGap = directions[0] + Math.PI - directions[directions.length - 1];
+    for (let i = 1; i < directions.length; i++) {
+      widestGap = Math.max(widestGap, directions[i] - directions[i - 1]);
+    }
+    return (Math.PI - widestGap) * 180 / Math.PI;
+  }
+  
+  // Direction of each position from the viewpoint as a line through it, between 0 and π radians
+  private calculateLineDirections(positions: Position[], observer: Island | null, t: number): number[] {
+    const origin = observer ? this.calculatePosition(observer, t) : { x: 0, y: 0 };
+    return positions.map(position => {
+      const angle = Math.atan2(position.y - origin.y, position.x - origin.x);
+      return ((angle % Math.PI) + Math.PI) % Math.PI;
+    });
+  }
+  
+  // Groups of islands aligned at a time that are not part of a larger aligned group, each in ID order.
+  // Line-ups are found by sliding a window of the tolerance's width around the directions from the
+  // viewpoint. Clusters are grown greedily: each island with the islands within twice the radius of
+  // it, dropping whichever is farthest from the group's centre until the rest fit.
+  private findAlignedGroups(
+    type: AlignmentType, 
+    islands: Island[], 
+    observer: Island | null, 
+    tolerance: number, 
+    t: number
+  ): Island[][] {
+    const positions = islands.map(island => this.calculatePosition(island, t));
+    let groups: Island[][];
+    
+    if (type === 'collinear') {
+      const directions = this.calculateLineDirections(positions, observer, t);
+      const width = tolerance * Math.PI / 180;
+      groups = directions.map(from => islands.filter((_, i) => {
+        const offset = ((directions[i] - from) % Math.PI + Math.PI) % Math.PI;
+        return offset <= width;
+      }));
+    } else {
+      groups = islands.map((_, seed) => {
+        let group = islands.filter((_, i) =>
+          Math.hypot(positions[i].x - positions[seed].x, positions[i].y - positions[seed].y) <= 2 * tolerance
+        );
+        while (group.length > 0 && this.calculateAlignmentSpread(type, group, null, t) > tolerance) {
+          const members = group.map(island => positions[islands.indexOf(island)]);
+          const centreX = members.reduce((sum, position) => sum + position.x, 0) / members.length;
+          const centreY = members.reduce((sum, position) => sum + position.y, 0) / members.length;
+          const distances = members.map(position => Math.hypot(position.x - centreX, position.y - centreY));
+          const farthest = distances.indexOf(Math.max(...distances));
+          group = group.filter((_, i) => i !== farthest);
+        }
+        return group;
+      });
+    }
+    
+    // Keep each distinct group that isn't contained in another
+    const keys = groups.map(group => group.map(island => island.id).sort((a, b) => a - b).join(','));
+    return groups
+      .filter((group, i) => keys.indexOf(keys[i]) === i)
+      .filter(group => !groups.some(other =>
+        other.length > group.length && group.every(island => other.includes(island))
+      ))
+      .map(group => [...group].sort((a, b) => a.id - b.id));
+  }
+  
+  // Find an island's closest and farthest approaches to the centre between two times, in time
+  // order. They are where the radial component of its velocity changes sign, which is scanned
+  // for in steps of a sixteenth of its fastest epicycle and bisected to CONJUNCTION_PRECISION.
+  calculateApsides(island: Island, startTime: number, endTime: number): Apsis[] {
+    if (!this.hasSeasons(island)) return [];
+    
+    const radialVelocity = (t: number) => {
+      const position = this.calculatePosition(island, t);
+      const velocity = this.calculateVelocity(island, t);
+      return position.x * velocity.x + position.y * velocity.y;
+    };
+    
+    return this.findSignChanges(radialVelocity, startTime, endTime, this.calculateScanStep([island]))
+      .map(({ time, rising }) => {
+        const position = this.calculatePosition(island, time);
+        return {
+          islandId: island.id,
+          // Moving inwards then outwards is the closest approach
+          type: rising ? 'periapsis' : 'apoapsis',
+          time,
+          distance: Math.hypot(position.x, position.y)
+        };
+      });
+  }
+  
+  // Distance (miles) from the centre dividing an island's inner and outer seasons: halfway between
+  // the closest and farthest it can come
+  calculateSeasonBoundary(island: Island): number {
+    const bounds = this.calculateRadialBounds(island);
+    return (bounds.min + bounds.max) / 2;
+  }
+  
+  // Whether an island's distance from the centre changes at all. One on a circular orbit around
+  // the centre has no apsides or seasons.
+  hasSeasons(island: Island): boolean {
+    const bounds = this.calculateRadialBounds(island);
+    return bounds.max - bounds.min > 1e-6;
+  }
+  
+  // Which season an island is in at a time, or null if it has no seasons
+  calculateSeason(island: Island, t: number = this.time): IslandSeasonType | null {
+    if (!this.hasSeasons(island)) return null;
+    
+    const position = this.calculatePosition(island, t);
+    return Math.hypot(position.x, position.y) < this.calculateSeasonBoundary(island) ? 'inner' : 'outer';
+  }
+  
+  // An island's seasons between two times, in time order, with the first and last cut off at the
+  // ends of the range. A season changes when the island crosses its season boundary, which is
+  // scanned for like its apsides.
+  calculateSeasons(island: Island, startTime: number, endTime: number): IslandSeason[] {
+    const season = this.calculateSeason(island, startTime);
+    if (season === null) return [];
+    
+    const boundary = this.calculateSeasonBoundary(island);
+    const distanceBeyondBoundary = (t: number) => {
+      const position = this.calculatePosition(island, t);
+      return Math.hypot(position.x, position.y) - boundary;
+    };
+    
+    const seasons: IslandSeason[] = [];
+    let current: IslandSeason = { islandId: island.id, type: season, startTime, endTime };
+    this.findSignChanges(distanceBeyondBoundary, startTime, endTime, this.calculateScanStep([island]))
+      .forEach(({ time, rising }) => {
+        seasons.push({ ...current, endTime: time });
+        current = { islandId: island.id, type: rising ? 'outer' : 'inner', startTime: time, endTime };
+      });
+    seasons.push(current);
+    
+    return seasons;
+  }
+  
+  // Find the times pairs of the given islands (defaults to all) are within tolerance degrees of an
+  // aspect's angle from each other as seen from the centre, sorted by start time. Each pair's angle
+  // is scanned in steps of a 64th of their fastest epicycle, and the edges are bisected to
+  // CONJUNCTION_PRECISION. Events too brief for the scan to land in are found from the moment
+  // the exact angle is crossed. Events straddling the range are followed up to EDGE_SEARCH_TIME
+  // past it.
+  calculateAngularEvents(
+    aspect: AngularAspect,
+    startTime: number,
+    endTime: number,
+    tolerance: number = this.ASPECT_TOLERANCE,
+    islandIds?: number[]
+  ): AngularEvent[] {
+    const islands = this.islands.filter(island => !islandIds || islandIds.includes(island.id));
+    const target = ANGULAR_ASPECTS.find(entry => entry.id === aspect)?.angle ?? 180;
+    const events: AngularEvent[] = [];
+    
+    const scanStart = startTime - this.EDGE_SEARCH_TIME;
+    const scanEnd = endTime + this.EDGE_SEARCH_TIME;
+    
+    for (let i = 0; i < islands.length; i++) {
+      for (let j = i + 1; j < islands.length; j++) {
+        const island1 = islands[i];
+        const island2 = islands[j];
+        
+        // Angle (degrees, 0-180) between the islands' directions from the centre
+        const separationAt = (t: number) => {
+          const pos1 = this.calculatePosition(island1, t);
+          const pos2 = this.calculatePosition(island2, t);
+          const angle = Math.atan2(pos1.x * pos2.y - pos1.y * pos2.x, pos1.x * pos2.x + pos1.y * pos2.y);
+          return Math.abs(angle) * 180 / Math.PI;
+        };
+        const deviationAt = (t: number) => Math.abs(separationAt(t) - target);
+        
+        // Within the tolerance while this is negative
+        const withinTolerance = (t: number) => deviationAt(t) - tolerance;
+        const scanStep = this.calculateScanStep([island1, island2], 64);
+        const windows = this.findNegativeIntervals(withinTolerance, scanStart, scanEnd, scanStep);
+        
+        // The exact angle is crossed where the islands' cross product (opposition) or dot product
+        // (quadrature) changes sign. A crossing outside every window is an event shorter than the
+        // scan step, whose edges lie within a step of it.
+        const crossingFunction = aspect === 'opposition'
+          ? (t: number) => {
+            const pos1 = this.calculatePosition(island1, t);
+            const pos2 = this.calculatePosition(island2, t);
+            return pos1.x * pos2.y - pos1.y * pos2.x;
+          }
+          : (t: number) => {
+            const pos1 = this.calculatePosition(island1, t);
+            const pos2 = this.calculatePosition(island2, t);
+            return pos1.x * pos2.x + pos1.y * pos2.y;
+          };
+        // Crossings on the same side of the centre (opposition) are not the aspect
+        const crossings = this.findSignChanges(crossingFunction, scanStart, scanEnd, scanStep)
+          .map(crossing => crossing.time)
+          .filter(exact => deviationAt(exact) <= tolerance);
+        crossings.forEach(exact => {
+          if (windows.some(window => exact >= window.start && exact <= window.end)) return;
+          
+          const fineStep = scanStep / 64;
+          const before = this.findSignChanges(withinTolerance, Math.max(exact - scanStep, scanStart), exact, fineStep);
+          const after = this.findSignChanges(withinTolerance, exact, Math.min(exact + scanStep, scanEnd), fineStep);
+          windows.push({
+            start: before.length > 0 ? before[before.length - 1].time : Math.max(exact - scanStep, scanStart),
+            end: after.length > 0 ? after[0].time : Math.min(exact + scanStep, scanEnd)
+          });
+        });
+        
+        for (const { start: eventStart, end: eventEnd } of windows) {
+          if (eventEnd < startTime || eventStart > endTime) continue;
+          
+          // The exact angle is reached at the first crossing in the window. Without one the islands
+          // only graze the aspect, and a ternary search finds the moment they come closest to it.
+          let time = crossings.find(exact => exact >= eventStart && exact <= eventEnd);
+          if (time === undefined) {
+            let low = eventStart;
+            let high = eventEnd;
+            while (high - low > this.CONJUNCTION_PRECISION) {
+              const mid1 = low + (high - low) / 3;
+              const mid2 = high - (high - low) / 3;
+              if (deviationAt(mid1) < deviationAt(mid2)) {
+                high = mid2;
+              } else {
+                low = mid1;
+              }
+            }
+            time = (low + high) / 2;
+          }
+          
+          events.push({
+            id: Date.now() + events.length, // Unique ID
+            aspect,
+            island1Id: island1.id,
+            island2Id: island2.id,
+            island1Name: island1.name,
+            island2Name: island2.name,
+            startTime: eventStart,
+            endTime: eventEnd,
+            time,
+            separation: separationAt(time),
+            distance: this.calculateHorizontalDistance(island1, island2, time),
+            duration: (eventEnd - eventStart) / 1000 // Convert to days
+          });
+        }
+      }
+    }
+    
+    return events.sort((a, b) => a.startTime - b.startTime);
+  }
+  
+  // Radius of an island's body in miles, which blocks lines of sight past it
+  calculateBodyRadius(island: Island): number {
+    return island.radius * this.sightModel.islandBodyScale;
+  }
+  
+  // Check whether one island can see another at a time
+  canSee(observer: Island, target: Island, t: number = this.time): boolean {
+    return this.calculateLineOfSight(observer, target, t).visible;
+  }
+  
+  // Work out whether one island can see another at a time, and what blocks the view if not.
+  // Every other island counts as an obstacle, whether or not it is shown on the map.
+  calculateLineOfSight(observer: Island, target: Island, t: number = this.time): LineOfSight {
+    const obstacles = this.islands.filter(island => island.id !== observer.id && island.id !== target.id);
+    const blockerIds = obstacles
+      .filter(island => this.calculateSightClearance(observer, target, island, t) < 0)
+      .map(island => island.id);
+    const blockedBySpire = this.calculateSightClearance(observer, target, null, t) < 0;
+    
+    return {
+      observerId: observer.id,
+      targetId: target.id,
+      time: t,
+      visible: blockerIds.length === 0 && !blockedBySpire,
+      blockerIds,
+      blockedBySpire,
+      distance: this.calculateDistance(observer, target, t)
+    };
+  }
+  
+  // Find the stretches of time one island cannot see another, sorted by start time. Each obstacle
+  // is scanned in steps of a 256th of the fastest epicycle involved, and the edges are bisected to
+  // CONJUNCTION_PRECISION; overlapping blocks by different obstacles are merged. Occlusions
+  // straddling the range are followed up to EDGE_SEARCH_TIME past it.
+  calculateOcclusions(observer: Island, target: Island, startTime: number, endTime: number): Occlusion[] {
+    const scanStart = startTime - this.EDGE_SEARCH_TIME;
+    const scanEnd = endTime + this.EDGE_SEARCH_TIME;
+    
+    // Times each obstacle blocks the view (null for the spire)
+    const obstacles: (Island | null)[] = [
+      ...this.islands.filter(island => island.id !== observer.id && island.id !== target.id),
+      ...(this.sightModel.spireRadius > 0 ? [null] : [])
+    ];
+    const blocks: { start: number, end: number, obstacle: Island | null }[] = [];
+    obstacles.forEach(obstacle => {
+      const clearanceAt = (t: number) => this.calculateSightClearance(observer, target, obstacle, t);
+      const moving = obstacle ? [observer, target, obstacle] : [observer, target];
+      this.findNegativeIntervals(clearanceAt, scanStart, scanEnd, this.calculateScanStep(moving, 256))
+        .forEach(interval => blocks.push({ ...interval, obstacle }));
+    });
+    
+    // Merge overlapping blocks into occlusions
+    const occlusions: Occlusion[] = [];
+    blocks.sort((a, b) => a.start - b.start).forEach(block => {
+      const last = occlusions[occlusions.length - 1];
+      const occlusion = last && block.start <= last.endTime ? last : {
+        observerId: observer.id,
+        targetId: target.id,
+        startTime: block.start,
+        endTime: block.end,
+        duration: 0,
+        blockerIds: [],
+        blockedBySpire: false
+      };
+      if (occlusion !== last) occlusions.push(occlusion);
+      
+      occlusion.endTime = Math.max(occlusion.endTime, block.end);
+      occlusion.duration = (occlusion.endTime - occlusion.startTime) / 1000; // Convert to days
+      if (block.obstacle === null) {
+        occlusion.blockedBySpire = true;
+      } else if (!occlusion.blockerIds.includes(block.obstacle.id)) {
+        occlusion.blockerIds.push(block.obstacle.id);
+      }
+    });
+    
+    return occlusions.filter(occlusion => occlusion.endTime >= startTime && occlusion.startTime <= endTime);
+  }
+  
+  // Work out where the other islands (or those given) and the spire appear in the sky as seen from
+  // an island. Bearings are measured clockwise from north, which is up the map, and apparent sizes
+  // come from the same bodies that block lines of sight.
+  calculateSkyView(observer: Island, t: number = this.time, islandIds?: number[]): SkyView {
+    const from = this.calculatePosition(observer, t);
+    const bearingTo = (x: number, y: number) =>
+      ((Math.atan2(x - from.x, from.y - y) * 180 / Math.PI) + 360) % 360;
+    const angularSize = (radius: number, distance: number) =>
+      2 * Math.asin(Math.min(1, radius / Math.max(distance, 1e-9))) * 180 / Math.PI;
+    
+    const islands = this.islands
+      .filter(island => island.id !== observer.id && (!islandIds || islandIds.includes(island.id)))
+      .map(island => {
+        const to = this.calculatePosition(island, t);
+        const horizontal = Math.hypot(to.x - from.x, to.y - from.y);
+        const distance = this.calculateDistance(observer, island, t);
+        return {
+          islandId: island.id,
+          bearing: bearingTo(to.x, to.y),
+          elevation: Math.atan2((to.z || 0) - (from.z || 0), horizontal) * 180 / Math.PI,
+          distance,
+          angularSize: angularSize(this.calculateBodyRadius(island), distance),
+          visible: this.canSee(observer, island, t)
+        };
+      })
+      .sort((a, b) => a.bearing - b.bearing);
+    
+    const spireDistance = Math.hypot(from.x, from.y);
+    const spire = this.sightModel.spireRadius > 0 ? {
+      bearing: bearingTo(0, 0),
+      distance: spireDistance,
+      angularSize: angularSize(this.sightModel.spireRadius, spireDistance)
+    } : null;
+    
+    return { observerId: observer.id, time: t, islands, spire };
+  }
+  
+  // How far the line of sight between two islands passes outside an obstacle (in miles), negative
+  // where it passes through it. An island's body is a sphere; the spire (null) is a column rising
+  // from the centre, so only the line's horizontal course matters for it.
+  private calculateSightClearance(observer: Island, target: Island, obstacle: Island | null, t: number): number {
+    const from = this.calculatePosition(observer, t);
+    const to = this.calculatePosition(target, t);
+    const centre = obstacle ? this.calculatePosition(obstacle, t) : { x: 0, y: 0 };
+    
+    // Altitudes only matter for island bodies
+    const fromZ = obstacle ? from.z || 0 : 0;
+    const toZ = obstacle ? to.z || 0 : 0;
+    const centreZ = obstacle ? centre.z || 0 : 0;
+    
+    // Closest point of the line's segment to the obstacle's centre
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const dz = toZ - fromZ;
+    const lengthSquared = dx * dx + dy * dy + dz * dz;
+    const along = lengthSquared > 0
+      ? Math.max(0, Math.min(1, ((centre.x - from.x) * dx + (centre.y - from.y) * dy + (centreZ - fromZ) * dz) / lengthSquared))
+      : 0;
+    const missBy = Math.hypot(
+      from.x + along * dx - centre.x,
+      from.y + along * dy - centre.y,
+      fromZ + along * dz - centreZ
+    );
+    
+    return missBy - (obstacle ? this.calculateBodyRadius(obstacle) : this.sightModel.spireRadius);
+  }
+  
+  // Time step (ms) for scanning the islands' motion: a fraction of the fastest epicycle
+  private calculateScanStep(islands: Island[], samplesPerCycle: number = 16): number {
+    const periods = islands.flatMap(island => island.cycles.map(cycle => Math.abs(cycle.period)));
+    return Math.max(Math.min(...periods) / samplesPerCycle, 0.01) * 1000;
+  }
+  
+  // Find where a function changes sign between two times, stepping forward and bisecting each
+  // change down to CONJUNCTION_PRECISION. Zero counts as positive, and rising changes go from
+  // negative to positive.
+  private findSignChanges(
+    f: (t: number) => number, 
+    startTime: number, 
+    endTime: number, 
+    step: number
+  ): { time: number, rising: boolean }[] {
+    const changes: { time: number, rising: boolean }[] = [];
+    let t = startTime;
+    let value = f(t);
+    
+    while (t < endTime) {
+      const nextTime = Math.min(t + step, endTime);
+      const nextValue = f(nextTime);
+      
+      if ((value < 0) !== (nextValue < 0)) {
+        let low = t;
+        let high = nextTime;
+        while (high - low > this.CONJUNCTION_PRECISION) {
+          const mid = (low + high) / 2;
+          if ((f(mid) < 0) === (value < 0)) {
+            low = mid;
+          } else {
+            high = mid;
+          }
+        }
+        changes.push({ time: (low + high) / 2, rising: value < 0 });
+      }
+      
+      t = nextTime;
+      value = nextValue;
+    }
+    
+    return changes;
+  }
+  
+  // Find the stretches between two times where a function is negative, pairing each sign change
+  // into the negative with the following one out of it. Stretches under way at either end are
+  // cut off there.
+  private findNegativeIntervals(
+    f: (t: number) => number, 
+    startTime: number, 
+    endTime: number, 
+    step: number
+  ): { start: number, end: number }[] {
+    const changes = this.findSignChanges(f, startTime, endTime, step);
+    const edges = changes.map(change => change.time);
+    if (changes.length > 0 ? changes[0].rising : f(startTime) < 0) {
+      edges.unshift(startTime);
+    }
+    if (edges.length % 2 === 1) {
+      edges.push(endTime);
+    }
+    
+    const intervals: { start: number, end: number }[] = [];
+    for (let k = 0; k < edges.length; k += 2) {
+      intervals.push({ start: edges[k], end: edges[k + 1] });
+    }
+    return intervals;
   }
-} 
\ No newline at end of file
+}
\ No newline at end of file
@@ -0,0 +1,91 @@
+/**
+ * Vessel catalogue utilities
+ *
+ * A vessel type sets a ship's cruise speed, how many days it can stay aloft
+ * between islands, what its supplies cost and how many passengers it carries.
+ * Ships take on supplies at every island, so a vessel's range limits each leg
+ * rather than a whole voyage, and layovers use no supplies.
+ */
+
+import { Journey } from './sim';
+
+/**
+ * A type of ship in the catalogue
+ */
+export interface Vessel {
+  id: number;
+  name: string;
+  speed: number;        // Cruise speed in mph
+  maxDays: number;      // Longest continuous time aloft, in days
+  costPerDay: number;   // Supply cost per day aloft
+  capacity: number;     // Passengers carried
+}
+
+/**
+ * Supplies and cost of a voyage made up of one or more legs
+ */
+export interface VoyageSummary {
+  supplyDays: number;       // Days of supplies consumed (days aloft over all legs)
+  cost: number;             // Total supply cost
+  overRangeLegs: number[];  // Indexes of the legs longer than the vessel's range
+}
+
+export const DEFAULT_VESSELS: Vessel[] = [
+  { id: 1, name: 'Courier skiff', speed: 14, maxDays: 3, costPerDay: 8, capacity: 2 },
+  { id: 2, name: 'Sloop', speed: 10, maxDays: 7, costPerDay: 15, capacity: 12 },
+  { id: 3, name: 'Trader', speed: 8, maxDays: 14, costPerDay: 25, capacity: 40 },
+  { id: 4, name: 'Galleon', speed: 6, maxDays: 30, costPerDay: 60, capacity: 150 }
+];
+
+/**
+ * Find a vessel in a catalogue
+ *
+ * @param vessels The catalogue
+ * @param vesselId ID to look up (journeys without a vessel have none)
+ * @returns The vessel, or null if there's no vessel with that ID
+ */
+export function findVessel(vessels: Vessel[], vesselId: number | null | undefined): Vessel | null {
+  if (vesselId === null || vesselId === undefined) return null;
+  return vessels.find(vessel => vessel.id === vesselId) ?? null;
+}
+
+/**
+ * Calculate the supplies used and cost of a voyage, each leg flown by its own vessel
+ *
+ * @param legs Journeys making up the voyage, in order
+ * @param vessels The catalogue the legs' vessels come from
+ * @returns Supplies consumed, total cost and any legs beyond their vessel's range.
+ *          Legs without a vessel use supplies but have no cost or range.
+ */
+export function summarizeVoyage(legs: Journey[], vessels: Vessel[]): VoyageSummary {
+  const summary: VoyageSummary = { supplyDays: 0, cost: 0, overRangeLegs: [] };
+
+  legs.forEach((leg, index) => {
+    summary.supplyDays += leg.duration;
+
+    const vessel = findVessel(vessels, leg.vesselId);
+    if (!vessel) return;
+
+    summary.cost += leg.duration * vessel.costPerDay;
+    if (leg.duration > vessel.maxDays) {
+      summary.overRangeLegs.push(index);
+    }
+  });
+
+  return summary;
+}
+
+/**
+ * Check that a parsed object looks like a vessel
+ *
+ * @param vessel Value read from a configuration file
+ * @returns True if the value can be used as a vessel
+ */
+export function isVessel(vessel: unknown): vessel is Vessel {
+  if (!vessel || typeof vessel !== 'object') return false;
+
+  const candidate = vessel as Record<string, unknown>;
+  return typeof candidate.id === 'number' &&
+    typeof candidate.name === 'string' &&
+    ['speed', 'maxDays', 'costPerDay', 'capacity'].every(key => typeof candidate[key] === 'number');
+}
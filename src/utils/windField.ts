@@ -0,0 +1,170 @@
+/**
+ * Sky wind and current field utilities
+ *
+ * The wind is the sum of a list of layers, each a simple vector field around
+ * the archipelago centre: a uniform drift, a vortex, or a circular band like a
+ * jet stream. A layer can rotate about the centre over time, which makes the
+ * field time-varying. Wind speeds are in mph and positions in miles, with time
+ * in milliseconds (1000ms = 1 day) as everywhere else in the simulator.
+ */
+
+/**
+ * Properties shared by every wind layer
+ */
+interface WindLayerBase {
+  id: number;
+  name: string;
+  enabled?: boolean;        // Disabled layers contribute nothing (defaults to true)
+  rotationPeriod?: number;  // Days for the layer to turn once about the centre (negative for reverse rotation)
+}
+
+/**
+ * The same wind everywhere
+ */
+export interface UniformWindLayer extends WindLayerBase {
+  type: 'uniform';
+  speed: number;      // mph
+  direction: number;  // Degrees the wind blows towards, measured like epicycle phases
+}
+
+/**
+ * A whirl around a point. Inside the core the wind speeds up steadily from
+ * the centre, reaching `speed` at the core's edge, then falls off with distance.
+ */
+export interface VortexWindLayer extends WindLayerBase {
+  type: 'vortex';
+  x: number;        // Centre of the vortex at day 0 (miles)
+  y: number;
+  radius: number;   // Core radius (miles)
+  speed: number;    // Peak speed in mph at the core's edge (negative turns the other way)
+}
+
+/**
+ * A circular stream around the archipelago centre, fastest halfway across the band
+ * and calm outside it
+ */
+export interface BandWindLayer extends WindLayerBase {
+  type: 'band';
+  innerRadius: number;  // miles
+  outerRadius: number;  // miles
+  speed: number;        // Peak speed in mph (negative flows the other way)
+}
+
+export type WindLayer = UniformWindLayer | VortexWindLayer | BandWindLayer;
+
+/**
+ * A wind vector in mph
+ */
+export interface WindVector {
+  x: number;
+  y: number;
+}
+
+/**
+ * Create a layer of the given type with sensible starting values
+ *
+ * @param type Kind of layer to create
+ * @param id Identifier for the new layer
+ * @returns A new, enabled wind layer
+ */
+export function createWindLayer(type: WindLayer['type'], id: number): WindLayer {
+  switch (type) {
+    case 'uniform':
+      return { id, name: 'Drift', type, enabled: true, speed: 2, direction: 0 };
+    case 'vortex':
+      return { id, name: 'Vortex', type, enabled: true, x: 0, y: 0, radius: 200, speed: 4 };
+    case 'band':
+      return { id, name: 'Jet stream', type, enabled: true, innerRadius: 600, outerRadius: 900, speed: 6 };
+  }
+}
+
+/**
+ * Wind from a single layer, in the layer's own (unrotated) frame
+ */
+function calculateLayerWind(layer: WindLayer, x: number, y: number): WindVector {
+  switch (layer.type) {
+    case 'uniform': {
+      const direction = (layer.direction * Math.PI) / 180;
+      return { x: layer.speed * Math.cos(direction), y: layer.speed * Math.sin(direction) };
+    }
+
+    case 'vortex': {
+      const dx = x - layer.x;
+      const dy = y - layer.y;
+      const distance = Math.hypot(dx, dy);
+      if (distance === 0 || layer.radius <= 0) {
+        return { x: 0, y: 0 };
+      }
+
+      // Solid rotation inside the core, falling off as 1/distance outside it
+      const speed = distance < layer.radius
+        ? layer.speed * (distance / layer.radius)
+        : layer.speed * (layer.radius / distance);
+      return { x: (-dy / distance) * speed, y: (dx / distance) * speed };
+    }
+
+    case 'band': {
+      const distance = Math.hypot(x, y);
+      const width = layer.outerRadius - layer.innerRadius;
+      if (distance === 0 || width <= 0 || distance <= layer.innerRadius || distance >= layer.outerRadius) {
+        return { x: 0, y: 0 };
+      }
+
+      const speed = layer.speed * Math.sin((Math.PI * (distance - layer.innerRadius)) / width);
+      return { x: (-y / distance) * speed, y: (x / distance) * speed };
+    }
+  }
+}
+
+/**
+ * Calculate the wind at a point and time from all enabled layers
+ *
+ * @param layers Wind layers to sum
+ * @param x Position in miles from the archipelago centre
+ * @param y Position in miles from the archipelago centre
+ * @param t Simulation time in milliseconds
+ * @returns The wind vector in mph
+ */
+export function calculateWindVelocity(layers: WindLayer[], x: number, y: number, t: number): WindVector {
+  const wind = { x: 0, y: 0 };
+
+  layers.forEach(layer => {
+    if (layer.enabled === false) return;
+
+    // Evaluate a rotating layer in its own frame, then turn the result back
+    const angle = layer.rotationPeriod ? (2 * Math.PI * (t / 1000)) / layer.rotationPeriod : 0;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const local = calculateLayerWind(layer, x * cos + y * sin, -x * sin + y * cos);
+
+    wind.x += local.x * cos - local.y * sin;
+    wind.y += local.x * sin + local.y * cos;
+  });
+
+  return wind;
+}
+
+/**
+ * Check that a parsed object looks like a wind layer
+ *
+ * @param layer Value read from a configuration file
+ * @returns True if the value can be used as a wind layer
+ */
+export function isWindLayer(layer: unknown): layer is WindLayer {
+  if (!layer || typeof layer !== 'object') return false;
+
+  const candidate = layer as Record<string, unknown>;
+  const isNumber = (key: string) => typeof candidate[key] === 'number';
+  if (!isNumber('id') || typeof candidate.name !== 'string') return false;
+
+  switch (candidate.type) {
+    case 'uniform':
+      return isNumber('speed') && isNumber('direction');
+    case 'vortex':
+      return isNumber('x') && isNumber('y') && isNumber('radius') && isNumber('speed');
+    case 'band':
+      return isNumber('innerRadius') && isNumber('outerRadius') && isNumber('speed');
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,59 @@
+import { Island } from './sim';
+import { DEFAULT_VESSELS } from './vessels';
+import { WorldConfig, parseWorldConfig, serializeWorldConfig } from './worldConfig';
+
+const islands: Island[] = [
+  { id: 1, name: 'Aerie', color: '#ff0000', radius: 100, cycles: [{ period: 30 }], visible: true },
+  { id: 2, name: 'Brink', color: '#00ff00', radius: 80, cycles: [{ period: 45, phase: 90 }], visible: true }
+];
+
+describe('parseWorldConfig', () => {
+  test('reads a legacy bare array of islands', () => {
+    const world = parseWorldConfig(islands);
+    expect(world.islands).toEqual(islands);
+    expect(world.windLayers).toEqual([]);
+    expect(world.vessels).toEqual(DEFAULT_VESSELS);
+    expect(world.events).toEqual([]);
+  });
+
+  test('reads a world object and drops unrecognised entries', () => {
+    const world = parseWorldConfig({
+      islands,
+      windLayers: [
+        { id: 1, name: 'Trade wind', type: 'uniform', speed: 10, direction: 90 },
+        { id: 2, name: 'Broken', type: 'uniform', speed: 'fast' }
+      ],
+      vessels: [
+        { id: 1, name: 'Skiff', speed: 20, maxDays: 5, costPerDay: 10, capacity: 2 },
+        { id: 2, name: 'No speed' }
+      ],
+      events: [
+        { id: 1, name: 'Festival', time: 5000 },
+        { id: 2, name: 'Undated' }
+      ]
+    });
+
+    expect(world.islands).toEqual(islands);
+    expect(world.windLayers.map(layer => layer.name)).toEqual(['Trade wind']);
+    expect(world.vessels.map(vessel => vessel.name)).toEqual(['Skiff']);
+    expect(world.events.map(event => event.name)).toEqual(['Festival']);
+  });
+
+  test('uses defaults for sections missing from a world object', () => {
+    const world = parseWorldConfig({ islands });
+    expect(world.windLayers).toEqual([]);
+    expect(world.vessels).toEqual(DEFAULT_VESSELS);
+    expect(world.events).toEqual([]);
+  });
+
+  test('rejects data without islands', () => {
+    expect(() => parseWorldConfig(null)).toThrow();
+    expect(() => parseWorldConfig({ windLayers: [] })).toThrow();
+    expect(() => parseWorldConfig('islands')).toThrow();
+  });
+
+  test('reads back what serializeWorldConfig writes', () => {
+    const config: WorldConfig = { islands, windLayers: [], vessels: [...DEFAULT_VESSELS], events: [] };
+    expect(parseWorldConfig(JSON.parse(serializeWorldConfig(config)))).toEqual(config);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * World configuration files
+ *
+ * A world is saved as its islands plus the wind layers blowing between them,
+ * the catalogue of vessels flying there and the user's timeline events. Older
+ * configuration files are a bare array of islands, which is still read as a
+ * world without wind or events and with the default vessels.
+ */
+
+import { Island } from './sim';
+import { WindLayer, isWindLayer } from './windField';
+import { Vessel, DEFAULT_VESSELS, isVessel } from './vessels';
+import { UserEvent, isUserEvent } from './eventTimeline';
+
+/**
+ * Everything saved in a world configuration file
+ */
+export interface WorldConfig {
+  islands: Island[];
+  windLayers: WindLayer[];
+  vessels: Vessel[];
+  events: UserEvent[];
+}
+
+/**
+ * Read a world configuration from parsed JSON
+ *
+ * @param data Parsed contents of a configuration file
+ * @returns The world's islands, wind layers, vessels and events (unrecognised entries are dropped)
+ * @throws Error if the data is neither an island array nor a world object
+ */
+export function parseWorldConfig(data: unknown): WorldConfig {
+  if (Array.isArray(data)) {
+    return { islands: data as Island[], windLayers: [], vessels: [...DEFAULT_VESSELS], events: [] };
+  }
+
+  const world = data as Partial<Record<keyof WorldConfig, unknown>> | null;
+  if (!world || typeof world !== 'object' || !Array.isArray(world.islands)) {
+    throw new Error('Expected an array of islands or an object with an "islands" array');
+  }
+
+  return {
+    islands: world.islands as Island[],
+    windLayers: Array.isArray(world.windLayers) ? world.windLayers.filter(isWindLayer) : [],
+    vessels: Array.isArray(world.vessels) ? world.vessels.filter(isVessel) : [...DEFAULT_VESSELS],
+    events: Array.isArray(world.events) ? world.events.filter(isUserEvent) : []
+  };
+}
+
+/**
+ * Write a world configuration as formatted JSON
+ *
+ * @param config Islands, wind layers, vessels and events to save
+ * @returns JSON text for a configuration file
+ */
+export function serializeWorldConfig(config: WorldConfig): string {
+  return JSON.stringify(config, null, 2);
+}